@@ -2,25 +2,66 @@ import { create } from '@storacha/client';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import {
+    accessServiceConnection,
+    uploadServiceConnection,
+    filecoinServiceConnection,
+    gatewayServiceConnection
+} from '@storacha/client/service';
+import * as DID from '@ipld/dag-ucan/did';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// Point the client at another Storacha-compatible service, such as the
+// local mock in UCAN-Expert (STORACHA_SERVICE_URL=http://localhost:8787)
+function serviceOptions() {
+    const url = process.env.STORACHA_SERVICE_URL;
+    if (!url) return {};
+
+    const id = DID.parse(process.env.STORACHA_SERVICE_DID || 'did:web:localhost');
+    const endpoint = new URL(url);
+    return {
+        serviceConf: {
+            access: accessServiceConnection({ id, url: endpoint }),
+            upload: uploadServiceConnection({ id, url: endpoint }),
+            filecoin: filecoinServiceConnection({ id, url: endpoint }),
+            gateway: gatewayServiceConnection({ id, url: endpoint })
+        },
+        receiptsEndpoint: new URL('/receipt/', endpoint)
+    };
+}
+
+// Gateway for printed links; local hosts are plain http
+function gatewayBase(cid) {
+    const host = process.env.STORACHA_GATEWAY || 'storacha.link';
+    return /^(localhost|127\.0\.0\.1)(:\d+)?$/.test(host)
+        ? `http://${host}/ipfs/${cid}`
+        : `https://${cid}.ipfs.${host}`;
+}
+
 async function uploadAndListFiles() {
     console.log('🚀 Storacha: Upload and List Files');
     console.log('='.repeat(60));
     
     try {
         // 1. Create client (persistent environment)
-        const client = await create();
+        const client = await create(serviceOptions());
         console.log('✅ Client created');
         
         // 2. Login with email
-        const email = 'your-email@example.com'; // CHANGE THIS
+        const email = process.env.STORACHA_EMAIL || 'your-email@example.com'; // CHANGE THIS
         console.log(`📧 Logging in as: ${email}`);
-        await client.login(email);
-        console.log('✅ Login initiated - check your email for verification link');
-        console.log('⚠️  For this demo, we assume verification is complete');
+        const account = await client.login(email);
+        console.log('✅ Login verified');
+
+        // A fresh client has no space to upload into; create one on the account
+        if (!client.currentSpace()) {
+            await account.plan.wait();
+            const space = await client.createSpace('content-discovery', { account });
+            await client.setCurrentSpace(space.did());
+            console.log(`🪐 Created space ${space.did()}`);
+        }
         
         // 3. Create multiple test files
         console.log('\n📁 Creating test files...');
@@ -86,7 +127,7 @@ async function uploadAndListFiles() {
         
         console.log(`✅ Upload completed in ${uploadTime}ms`);
         console.log(`📎 Directory CID: ${directoryCid}`);
-        console.log(`🌐 View at: https://${directoryCid}.ipfs.storacha.link`);
+        console.log(`🌐 View at: ${gatewayBase(directoryCid)}`);
         
         // 5. List uploads using client.capability.upload.list()
         console.log('\n📋 Listing all uploads...');
@@ -143,12 +184,12 @@ async function uploadAndListFiles() {
         console.log(`   • Upload time: ${uploadTime}ms`);
         console.log(`   • Total uploads in space: ${uploads.length}`);
         console.log(`   • Directory CID: ${directoryCid}`);
-        console.log(`   • Gateway URL: https://${directoryCid}.ipfs.storacha.link`);
+        console.log(`   • Gateway URL: ${gatewayBase(directoryCid)}`);
         
         console.log('\n🔗 Access individual files:');
-        console.log(`   • https://${directoryCid}.ipfs.storacha.link/readme.md`);
-        console.log(`   • https://${directoryCid}.ipfs.storacha.link/documents/notes.txt`);
-        console.log(`   • https://${directoryCid}.ipfs.storacha.link/scripts/hello.js`);
+        console.log(`   • ${gatewayBase(directoryCid)}/readme.md`);
+        console.log(`   • ${gatewayBase(directoryCid)}/documents/notes.txt`);
+        console.log(`   • ${gatewayBase(directoryCid)}/scripts/hello.js`);
         
     } catch (error) {
         console.error('\n❌ Error:', error.message);
@@ -1,15 +1,57 @@
 import { create } from '@storacha/client';
+import {
+    accessServiceConnection,
+    uploadServiceConnection,
+    filecoinServiceConnection,
+    gatewayServiceConnection
+} from '@storacha/client/service';
+import * as DID from '@ipld/dag-ucan/did';
+
+// Point the client at another Storacha-compatible service, such as the
+// local mock in UCAN-Expert (STORACHA_SERVICE_URL=http://localhost:8787)
+function serviceOptions() {
+    const url = process.env.STORACHA_SERVICE_URL;
+    if (!url) return {};
+
+    const id = DID.parse(process.env.STORACHA_SERVICE_DID || 'did:web:localhost');
+    const endpoint = new URL(url);
+    return {
+        serviceConf: {
+            access: accessServiceConnection({ id, url: endpoint }),
+            upload: uploadServiceConnection({ id, url: endpoint }),
+            filecoin: filecoinServiceConnection({ id, url: endpoint }),
+            gateway: gatewayServiceConnection({ id, url: endpoint })
+        },
+        receiptsEndpoint: new URL('/receipt/', endpoint)
+    };
+}
+
+// Gateway for printed links; local hosts are plain http
+function gatewayBase(cid) {
+    const host = process.env.STORACHA_GATEWAY || 'storacha.link';
+    return /^(localhost|127\.0\.0\.1)(:\d+)?$/.test(host)
+        ? `http://${host}/ipfs/${cid}`
+        : `https://${cid}.ipfs.${host}`;
+}
 
 async function storachaIntegration() {
     console.log('🔧 Storacha JS Client Integration\n');
     
     // 1. Initialize client
-    const client = await create();
+    const client = await create(serviceOptions());
     console.log('✅ Client initialized');
     
     // 2. Login (you'll need to verify via email)
-    const account = await client.login('your-email@example.com');
+    const account = await client.login(process.env.STORACHA_EMAIL || 'your-email@example.com');
     console.log('📧 Verification succesful');
+
+    // A fresh client has no space to upload into; create one on the account
+    if (!client.currentSpace()) {
+        await account.plan.wait();
+        const space = await client.createSpace('js-integration', { account });
+        await client.setCurrentSpace(space.did());
+        console.log(`🪐 Created space ${space.did()}`);
+    }
     
     // 3. Create a simple test file
     const testFile = new File(
@@ -23,7 +65,7 @@ async function storachaIntegration() {
     // 5. Output results
     console.log('\n🎯 Upload Complete!');
     console.log(`📎 CID: ${cid}`);
-    console.log(`🔗 URL: https://${cid}.ipfs.storacha.link`);
+    console.log(`🔗 URL: ${gatewayBase(cid)}`);
     
     return cid;
 }
@@ -0,0 +1,37 @@
+// Download a CID through a trustless gateway, verifying every block.
+// Usage: npm run fetch:verified -- <cid> [path] [--gateway host] [--out file]
+import { createWriteStream } from 'node:fs';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { verifiedFetch } from '../src/lib/verified-fetch';
+
+const args = process.argv.slice(2);
+const option = name => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args.splice(index, 2)[1];
+};
+
+const gateway = option('--gateway');
+const out = option('--out');
+const [cid, path] = args;
+
+if (!cid) {
+  console.error('Usage: npm run fetch:verified -- <cid> [path] [--gateway host] [--out file]');
+  process.exit(1);
+}
+
+try {
+  const entry = await verifiedFetch(cid, { gateway, path });
+
+  if (entry.type === 'directory') {
+    for (const { name, cid: child, dagSize } of entry.entries) {
+      console.log(`${child}  ${String(dagSize).padStart(10)}  ${name}`);
+    }
+  } else {
+    await pipeline(Readable.fromWeb(entry.stream()), out ? createWriteStream(out) : process.stdout);
+    if (out) console.error(`✅ Verified ${entry.size ?? '?'} bytes of ${entry.cid} -> ${out}`);
+  }
+} catch (error) {
+  console.error(`❌ ${error.name}: ${error.message}`);
+  process.exit(1);
+}
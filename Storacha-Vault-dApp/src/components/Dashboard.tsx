@@ -62,6 +62,7 @@ export const Dashboard: React.FC<{ isDarkTheme: boolean; onThemeToggle: () => vo
     loginWithDelegation,
     uploadFiles,
     uploadProgress,
+    getShareableLink,
     formatFileSize
   } = useStoracha();
 
@@ -700,7 +701,7 @@ export const Dashboard: React.FC<{ isDarkTheme: boolean; onThemeToggle: () => vo
                     filterType={filterTag}
                     searchQuery={searchQuery}
                     onClear={clearUploads}
-                    getShareableLink={(cid, fileName) => `https://${cid}.ipfs.storacha.link${fileName ? `/${encodeURIComponent(fileName)}` : ''}`}
+                    getShareableLink={getShareableLink}
                     formatFileSize={formatFileSize}
                     viewMode={viewMode}
                   />
@@ -39,6 +39,10 @@ import {
 } from '@radix-ui/react-icons';
 import { AudioLinesIcon } from 'lucide-react';
 import { ViewMode } from '../../types';
+import { useGatewayURL } from '../../hooks/useGatewayURL';
+import { getConfig } from '../../lib/config';
+import { rankGateways } from '../../lib/gateways';
+import { fetchVerifiedBlob } from '../../lib/verified-fetch';
 
 interface FileGalleryProps {
   files: Array<{
@@ -74,6 +78,7 @@ export const FileGallery: React.FC<FileGalleryProps> = ({
   const [currentPage, setCurrentPage] = useState(1);
   const [selectedFile, setSelectedFile] = useState<any>(null);
   const [isDetailOpen, setIsDetailOpen] = useState(false);
+  const preview = useGatewayURL(isDetailOpen ? selectedFile?.cid : undefined, selectedFile?.gatewayUrl);
 
   const filteredFiles = useMemo(() => {
     return files.filter(file => {
@@ -130,15 +135,18 @@ export const FileGallery: React.FC<FileGalleryProps> = ({
 
   const handleDownload = async (file: any) => {
     try {
-      const response = await fetch(file.gatewayUrl);
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
+      // Fetch the CAR gateway by gateway, the configured one then the
+      // best-scoring, and check every block against the CID, so a
+      // misbehaving gateway cannot alter the file
+      const gateways = rankGateways(undefined, getConfig().defaultGateway);
+      const blob = await fetchVerifiedBlob(file.cid, { gateways, type: file.type });
+      const objectUrl = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
-      a.href = url;
+      a.href = objectUrl;
       a.download = file.name;
       document.body.appendChild(a);
       a.click();
-      window.URL.revokeObjectURL(url);
+      window.URL.revokeObjectURL(objectUrl);
       document.body.removeChild(a);
     } catch (error) {
       console.error('Download failed:', error);
@@ -509,7 +517,7 @@ export const FileGallery: React.FC<FileGalleryProps> = ({
                     <Flex justify="center">
                       {selectedFile.type.startsWith('image/') ? (
                         <img
-                          src={selectedFile.gatewayUrl}
+                          src={preview.url}
                           alt={selectedFile.name}
                           style={{
                             maxWidth: '100%',
@@ -662,7 +670,7 @@ export const FileGallery: React.FC<FileGalleryProps> = ({
                                   size: selectedFile.size,
                                   cid: selectedFile.cid,
                                   uploadedAt: selectedFile.uploadedAt.toISOString(),
-                                  gateway: selectedFile.gatewayUrl
+                                  gateway: preview.url
                                 }, null, 2)}
                               </pre>
                             </Card>
@@ -15,6 +15,7 @@ import {
   SunIcon,
   MoonIcon,
 } from '@radix-ui/react-icons';
+import { SettingsDialog } from './Settings/SettingsDialog';
 
 interface NavigationBarProps {
   isDarkTheme: boolean;
@@ -205,6 +206,8 @@ export const NavigationBar: React.FC<NavigationBarProps> = ({
           align="center" 
           style={{ flexShrink: 0 }}
         >
+          <SettingsDialog />
+
           {/* Desktop Theme Toggle (visible on sm and above) */}
           <IconButton
             variant="ghost"
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  Flex,
+  Text,
+  Button,
+  IconButton,
+  Select,
+  Switch,
+  TextField
+} from '@radix-ui/themes';
+import { GearIcon } from '@radix-ui/react-icons';
+import { useConfig } from '../../hooks/useConfig';
+import { CONFIG_PROFILES } from '../../lib/config';
+import type { ConfigProfile } from '../../types';
+
+const MB = 1024 * 1024;
+
+export const SettingsDialog: React.FC = () => {
+  const { config, updateConfig, resetConfig } = useConfig();
+  const [gateway, setGateway] = useState(config.defaultGateway);
+  const [maxSizeMB, setMaxSizeMB] = useState(String(config.maxUploadSize / MB));
+  const [serviceUrl, setServiceUrl] = useState(config.serviceUrl);
+
+  // Start from the saved values every time the dialog opens
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setGateway(config.defaultGateway);
+      setMaxSizeMB(String(config.maxUploadSize / MB));
+      setServiceUrl(config.serviceUrl);
+    }
+  };
+
+  const handleProfileChange = (profile: string) => {
+    updateConfig({ profile: profile as ConfigProfile });
+  };
+
+  const handleSave = () => {
+    updateConfig({
+      defaultGateway: gateway.trim(),
+      maxUploadSize: Math.round(Number(maxSizeMB) * MB),
+      serviceUrl: serviceUrl.trim()
+    });
+  };
+
+  return (
+    <Dialog.Root onOpenChange={handleOpenChange}>
+      <Dialog.Trigger>
+        <IconButton variant="ghost" size="2" aria-label="Settings" style={{ color: 'var(--ruby-9)' }}>
+          <GearIcon />
+        </IconButton>
+      </Dialog.Trigger>
+      <Dialog.Content style={{ maxWidth: 420 }}>
+        <Dialog.Title>Settings</Dialog.Title>
+        <Dialog.Description size="2" mb="4">
+          Saved in this browser. Values from the deployment apply until you change them here.
+        </Dialog.Description>
+
+        <Flex direction="column" gap="3">
+          <Flex justify="between" align="center">
+            <Text size="2" weight="bold">Profile</Text>
+            <Select.Root value={config.profile} onValueChange={handleProfileChange}>
+              <Select.Trigger />
+              <Select.Content>
+                {CONFIG_PROFILES.map(profile => (
+                  <Select.Item key={profile} value={profile}>{profile}</Select.Item>
+                ))}
+              </Select.Content>
+            </Select.Root>
+          </Flex>
+
+          <label>
+            <Text as="div" size="2" weight="bold" mb="1">Gateway</Text>
+            <TextField.Root value={gateway} onChange={e => setGateway(e.target.value)} placeholder="storacha.link" />
+          </label>
+
+          <label>
+            <Text as="div" size="2" weight="bold" mb="1">Max upload size (MB)</Text>
+            <TextField.Root
+              type="number"
+              min="1"
+              value={maxSizeMB}
+              onChange={e => setMaxSizeMB(e.target.value)}
+            />
+          </label>
+
+          <label>
+            <Text as="div" size="2" weight="bold" mb="1">Storacha service</Text>
+            <TextField.Root
+              value={serviceUrl}
+              onChange={e => setServiceUrl(e.target.value)}
+              placeholder="Public service"
+            />
+          </label>
+
+          <Flex justify="between" align="center">
+            <Text size="2" weight="bold">Reconnect on startup</Text>
+            <Switch
+              checked={config.autoConnect}
+              onCheckedChange={autoConnect => updateConfig({ autoConnect })}
+            />
+          </Flex>
+
+          <Flex justify="between" align="center">
+            <Text size="2" weight="bold">Remember session</Text>
+            <Switch
+              checked={config.persistSession}
+              onCheckedChange={persistSession => updateConfig({ persistSession })}
+            />
+          </Flex>
+        </Flex>
+
+        <Flex gap="3" mt="5" justify="between">
+          <Button variant="ghost" color="gray" onClick={resetConfig}>
+            Reset to defaults
+          </Button>
+          <Flex gap="3">
+            <Dialog.Close>
+              <Button variant="soft" color="gray">Cancel</Button>
+            </Dialog.Close>
+            <Dialog.Close>
+              <Button variant="solid" color="ruby" onClick={handleSave}>Save</Button>
+            </Dialog.Close>
+          </Flex>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  );
+};
@@ -35,6 +35,7 @@ import {
   TextAlignCenterIcon
 } from '@radix-ui/react-icons';
 import { AudioLinesIcon, FileAudioIcon } from 'lucide-react';
+import { useConfig } from '../../hooks/useConfig';
 
 interface UploadProps {
   onUploadComplete?: (results: any[]) => void;
@@ -50,7 +51,7 @@ interface UploadProps {
 
 export const StorachaUpload: React.FC<UploadProps> = ({
   onUploadComplete,
-  maxSize = 100 * 1024 * 1024,
+  maxSize: maxSizeProp,
   accept = {
     'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg'],
     'video/*': ['.mp4', '.webm', '.mov', '.avi', '.mkv'],
@@ -66,6 +67,8 @@ export const StorachaUpload: React.FC<UploadProps> = ({
   uploadProgress,
   formatFileSize
 }) => {
+  const { config } = useConfig();
+  const maxSize = maxSizeProp ?? config.maxUploadSize;
   const [descriptions, setDescriptions] = useState<Record<string, string>>({});
   const [isUploading, setIsUploading] = useState(false);
   const [filesToUpload, setFilesToUpload] = useState<File[]>([]);
@@ -0,0 +1,13 @@
+import { useState, useEffect } from 'react';
+import { getConfig, subscribeConfig, updateConfig, resetConfig } from '../lib/config';
+
+/**
+ * The current configuration, re-rendering when settings change
+ */
+export const useConfig = () => {
+  const [config, setConfig] = useState(getConfig);
+
+  useEffect(() => subscribeConfig(setConfig), []);
+
+  return { config, updateConfig, resetConfig };
+};
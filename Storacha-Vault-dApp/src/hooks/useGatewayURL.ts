@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { getConfig } from '../lib/config';
+import { resolveGatewayURL, type Gateway } from '../lib/gateways';
+
+/**
+ * URL of the configured gateway when it serves `cid`, otherwise of the
+ * fastest other gateway, raced on first use. Falls back to `fallback` (e.g. the URL stored at upload time) until the
+ * race finishes, or if no gateway answers.
+ */
+export const useGatewayURL = (cid?: string, fallback?: string, gateways?: Gateway[]) => {
+  const [url, setUrl] = useState<string | undefined>(undefined);
+  const [isResolving, setIsResolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!cid) return;
+
+    let active = true;
+    setUrl(undefined);
+    setError(null);
+    setIsResolving(true);
+
+    resolveGatewayURL(cid, { gateways, preferred: getConfig().defaultGateway })
+      .then(best => {
+        if (active) setUrl(best);
+      })
+      .catch(err => {
+        console.warn('⚠️ Gateway race failed:', err);
+        if (active) setError(err.message);
+      })
+      .finally(() => {
+        if (active) setIsResolving(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [cid, gateways]);
+
+  return { url: url ?? fallback, isResolving, error };
+};
@@ -7,12 +7,68 @@ import type {
   UserSession,
   UploadProgress 
 } from '../types';
+import {
+  createDefaultBackend,
+  createLocalStorageBackend,
+  createStore,
+  type RecordSchema
+} from 'storacha-shared/storage';
+import { createSessionSync } from 'storacha-shared/session-sync';
+import { getConfig } from '../lib/config';
+import { serviceOptions } from 'storacha-shared/service';
+import { gatewayURL, toGateway } from '../lib/gateways';
+import { inspectProof, isReportCurrent, type ProofReport } from 'storacha-shared/proof-inspector';
 
-const DEFAULT_GATEWAY = 'storacha.link';
 const DEFAULT_SPACE_NAME = 'artboard-space';
 const SESSION_KEY = 'storacha_session';
 const UPLOADS_KEY = 'storacha_uploads';
 
+// What a delegation proof must grant for uploads
+const UPLOAD_ABILITIES = ['space/blob/add', 'space/index/add', 'upload/add'];
+
+const EMPTY_SESSION: UserSession = {
+  email: '',
+  isLoggedIn: false,
+  method: null,
+  spaceDid: '',
+  agentDid: ''
+};
+
+// Uploads are stored with ISO date strings; v0 is the same list as it was
+// written to localStorage before the storage layer
+type StoredUpload = Omit<UploadedFile, 'uploadedAt'> & { uploadedAt: string };
+
+const SESSION_RECORD: RecordSchema<UserSession> = { key: SESSION_KEY, version: 1 };
+const UPLOADS_RECORD: RecordSchema<StoredUpload[]> = {
+  key: UPLOADS_KEY,
+  version: 1,
+  validate: (value): value is StoredUpload[] => Array.isArray(value)
+};
+
+const store = createStore({
+  backend: createDefaultBackend(),
+  legacy: createLocalStorageBackend()
+});
+
+// Session changes shared with the other open tabs
+type SessionEvent =
+  | { type: 'login'; session: UserSession }
+  | { type: 'logout' }
+  | { type: 'upload'; file: StoredUpload }
+  | { type: 'uploads-cleared' };
+
+const sync = createSessionSync<SessionEvent>('storacha-vault');
+
+const toStoredUpload = (file: UploadedFile): StoredUpload => ({
+  ...file,
+  uploadedAt: new Date(file.uploadedAt).toISOString()
+});
+
+const fromStoredUpload = (file: StoredUpload): UploadedFile => ({
+  ...file,
+  uploadedAt: new Date(file.uploadedAt)
+});
+
 const cleanBase64 = (input: string): string => {
   return input.replace(/[^A-Za-z0-9+/=]/g, '').trim();
 };
@@ -21,49 +77,39 @@ export const useStoracha = () => {
   const [client, setClient] = useState<any>(null);
   const [space, setSpace] = useState<any>(null);
   const [isInitializing, setIsInitializing] = useState(false);
-  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>(() => {
-    const saved = localStorage.getItem(UPLOADS_KEY);
-    return saved ? JSON.parse(saved).map((f: any) => ({
-      ...f,
-      uploadedAt: new Date(f.uploadedAt)
-    })) : [];
-  });
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
-  const [userSession, setUserSession] = useState<UserSession>(() => {
-    const saved = localStorage.getItem(SESSION_KEY);
-    return saved ? JSON.parse(saved) : { 
-      email: '', 
-      isLoggedIn: false, 
-      method: null,
-      spaceDid: '',
-      agentDid: ''
-    };
-  });
+  const [userSession, setUserSession] = useState<UserSession>(EMPTY_SESSION);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [isLeader, setIsLeader] = useState(() => sync.isLeader());
   const [uploadProgress, setUploadProgress] = useState<Record<string, UploadProgress>>({});
+  const [proofReport, setProofReport] = useState<ProofReport | null>(null);
   const abortControllers = useRef<Map<string, AbortController>>(new Map());
+  // Email of a saved login this tab left for the leader to reconnect
+  const pendingReconnect = useRef<string | null>(null);
 
   const saveSession = useCallback((session: UserSession) => {
-    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
     setUserSession(session);
+    if (!getConfig().persistSession) return;
+    store.write(SESSION_RECORD, session)
+      .catch(err => console.error('Failed to save session:', err));
   }, []);
 
   const clearSession = useCallback(() => {
-    localStorage.removeItem(SESSION_KEY);
-    setUserSession({ 
-      email: '', 
-      isLoggedIn: false, 
-      method: null, 
-      spaceDid: '', 
-      agentDid: '' 
-    });
+    setUserSession(EMPTY_SESSION);
+    store.remove(SESSION_RECORD)
+      .catch(err => console.error('Failed to clear session:', err));
   }, []);
 
   const saveUploads = useCallback((files: UploadedFile[]) => {
-    localStorage.setItem(UPLOADS_KEY, JSON.stringify(files));
+    store.write(UPLOADS_RECORD, files.map(toStoredUpload))
+      .catch(err => console.error('Failed to save uploads:', err));
   }, []);
 
-  const loginWithEmail = useCallback(async (userEmail: string) => {
+  // Connects without announcing the login, so tabs following another
+  // tab's login do not echo it back
+  const connectWithEmail = useCallback(async (userEmail: string) => {
     try {
       setIsInitializing(true);
       setError(null);
@@ -74,7 +120,7 @@ export const useStoracha = () => {
 
       console.log('📧 Logging in with email:', userEmail);
       
-      const storachaClient = await create();
+      const storachaClient = await create(serviceOptions(getConfig()));
       const account = await storachaClient.login(userEmail as `${string}@${string}`);
       
       await account.plan.wait();
@@ -131,6 +177,37 @@ export const useStoracha = () => {
     }
   }, [saveSession]);
 
+  // Email logins keep the account's proofs in the agent store, which every
+  // tab shares, so other tabs pick up the space without logging in again
+  const attachToSession = useCallback(async (session: UserSession) => {
+    try {
+      const storachaClient = await create(serviceOptions(getConfig()));
+      const spaces = await storachaClient.spaces();
+      const storachaSpace = spaces.find((s: any) => s.did() === session.spaceDid);
+      if (!storachaSpace) return false;
+
+      await storachaClient.setCurrentSpace(storachaSpace.did());
+      setClient(storachaClient);
+      setSpace(storachaSpace);
+      setIsConnected(true);
+      pendingReconnect.current = null;
+      console.log('✅ Attached to saved session:', session.spaceDid);
+      return true;
+    } catch (err) {
+      console.warn('Could not attach to saved session:', err);
+      return false;
+    }
+  }, []);
+
+  const loginWithEmail = useCallback(async (userEmail: string) => {
+    pendingReconnect.current = null;
+    const result = await connectWithEmail(userEmail);
+    if (result.success && result.session) {
+      sync.publish({ type: 'login', session: result.session });
+    }
+    return result;
+  }, [connectWithEmail]);
+
   
   const loginWithDelegation = useCallback(async (delegationConfig: DelegationConfig) => {
     try {
@@ -162,47 +239,34 @@ export const useStoracha = () => {
         const principal = Signer.parse(cleanKey);
         const store = new StoreMemory();
         
-        const storachaClient = await createClient({ principal, store });
+        const storachaClient = await createClient({ principal, store, ...serviceOptions(getConfig()) });
         console.log('✅ Client created with signer');
         
         const Proof = await import('@storacha/client/proof');
         const parsedProof = await Proof.parse(cleanProof);
         
         console.log('🔍 Checking proof capabilities...');
-        const capabilities = parsedProof.capabilities || [];
-        console.log('Proof capabilities:', capabilities);
-        
-        const requiredCapabilities = ['space/blob/add', 'space/index/add', 'upload/add'];
-        const missingCapabilities = requiredCapabilities.filter(
-          cap => !capabilities.some((c: any) => 
-            typeof c === 'string' ? c.includes(cap) : JSON.stringify(c).includes(cap)
-          )
-        );
-        
-        if (missingCapabilities.length > 0) {
-          console.warn('⚠️ Missing capabilities in proof:', missingCapabilities);
-          throw new Error(`Delegation proof missing required capabilities: ${missingCapabilities.join(', ')}. Please regenerate with proper permissions.`);
+        const report = inspectProof(parsedProof, {
+          abilities: UPLOAD_ABILITIES,
+          space: delegationConfig.spaceDid || undefined,
+          audience: storachaClient.agent.did()
+        });
+        console.log('Proof report:', report);
+        report.warnings.forEach(warning => console.warn('⚠️', warning));
+
+        if (!report.usable) {
+          throw new Error(`Delegation proof cannot be used for uploads: ${report.problems.join('; ')}. Please regenerate with proper permissions.`);
         }
         
         await storachaClient.addSpace(parsedProof);
         console.log('✅ Proof added to client');
         
-        let currentSpace;
+        // The report names the space the proof grants the upload abilities on
         const spaces = await storachaClient.spaces();
-          if (delegationConfig.spaceDid) {
-            // Try to find the space with the provided DID
-            currentSpace = spaces.find((s: any) => s.did() === delegationConfig.spaceDid);
-            if (currentSpace) {
-              console.log('✅ Using provided space:', delegationConfig.spaceDid);
-            } else {
-              console.warn(`Provided space DID "${delegationConfig.spaceDid}" not found in client's known spaces.`);
-              // Fall back to the first available space
-              currentSpace = spaces.length > 0 ? spaces[0] : null;
-            }
-          } else {
-            // If no space DID was provided, use the first available space
-            currentSpace = spaces.length > 0 ? spaces[0] : null;
-          }
+        const currentSpace = spaces.find((s: any) => s.did() === report.space);
+        if (currentSpace) {
+          console.log('✅ Using space:', report.space);
+        }
 
           if (!currentSpace) {
             throw new Error('No space available. The provided proof may not delegate access to a usable space, or the client failed to initialize it.');
@@ -222,8 +286,10 @@ export const useStoracha = () => {
         };
 
         saveSession(session);
+        sync.publish({ type: 'login', session });
         setClient(storachaClient);
         setSpace(currentSpace);
+        setProofReport(report);
         setIsConnected(true);
 
         console.log('✅ Delegation login successful!');
@@ -252,15 +318,23 @@ export const useStoracha = () => {
     }
   }, [saveSession]);
 
-  const logout = useCallback(() => {
-    console.log('👋 Logging out');
+  // Drop the client without touching storage
+  const resetClient = useCallback(() => {
     setClient(null);
     setSpace(null);
+    setProofReport(null);
     setIsConnected(false);
-    clearSession();
     setError(null);
     setUploadProgress({});
-  }, [clearSession]);
+  }, []);
+
+  const logout = useCallback(() => {
+    console.log('👋 Logging out');
+    pendingReconnect.current = null;
+    resetClient();
+    clearSession();
+    sync.publish({ type: 'logout' });
+  }, [resetClient, clearSession]);
 
   const uploadFile = useCallback(async (file: File, description?: string): Promise<UploadResult> => {
     const fileId = `${Date.now()}-${file.name}`;
@@ -284,6 +358,13 @@ export const useStoracha = () => {
         throw new Error('Please login first. Client or space not initialized.');
       }
 
+      // Fail fast on a delegation that has expired since login
+      if (proofReport && !isReportCurrent(proofReport)) {
+        throw new Error(proofReport.expiresAt !== null && proofReport.expiresAt * 1000 <= Date.now()
+          ? `Your delegation expired on ${new Date(proofReport.expiresAt * 1000).toLocaleString()}. Please log in again.`
+          : `Your delegation cannot be used for uploads: ${proofReport.problems.join('; ') || 'it is not valid yet'}`);
+      }
+
       console.log('📤 Starting upload:', file.name);
       console.log('File size:', file.size, 'bytes');
       console.log('Client:', client ? 'OK' : 'NULL');
@@ -328,7 +409,7 @@ export const useStoracha = () => {
       }
 
       const cidString = String(cid);
-      const gatewayUrl = `https://${cidString}.ipfs.${DEFAULT_GATEWAY}`;
+      const gatewayUrl = gatewayURL(toGateway(getConfig().defaultGateway), cidString);
 
       clearInterval(progressInterval);
 
@@ -364,6 +445,7 @@ export const useStoracha = () => {
         saveUploads(updated);
         return updated;
       });
+      sync.publish({ type: 'upload', file: toStoredUpload(uploadedFile) });
 
       setTimeout(() => {
         setUploadProgress(prev => {
@@ -398,7 +480,7 @@ export const useStoracha = () => {
     } finally {
       abortControllers.current.delete(fileId);
     }
-  }, [client, space, saveUploads]);
+  }, [client, space, proofReport, saveUploads]);
 
   const uploadFiles = useCallback(async (files: File[], descriptions?: string[]): Promise<UploadResult[]> => {
     const results: UploadResult[] = [];
@@ -436,16 +518,13 @@ export const useStoracha = () => {
     console.log('🗑️ Clearing all uploads');
     setUploadedFiles([]);
     saveUploads([]);
+    sync.publish({ type: 'uploads-cleared' });
     setUploadProgress({});
     abortControllers.current.clear();
   }, [saveUploads]);
 
   const getShareableLink = useCallback((cid: string, fileName?: string) => {
-    const baseUrl = `https://${cid}.ipfs.${DEFAULT_GATEWAY}`;
-    if (fileName) {
-      return `${baseUrl}/${encodeURIComponent(fileName)}`;
-    }
-    return baseUrl;
+    return gatewayURL(toGateway(getConfig().defaultGateway), cid, fileName);
   }, []);
 
   const formatFileSize = useCallback((bytes: number) => {
@@ -456,23 +535,92 @@ export const useStoracha = () => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   }, []);
 
+  // Restore the saved session and upload list, then reconnect email logins.
+  // Logging in again sends a verification email, so only the leader tab
+  // does that; the others attach to the shared agent or wait for it.
   useEffect(() => {
-    const autoConnect = async () => {
-      if (userSession.isLoggedIn && userSession.method === 'email' && userSession.email) {
-        await loginWithEmail(userSession.email);
+    const restore = async () => {
+      try {
+        const [session, uploads] = await Promise.all([
+          getConfig().persistSession ? store.read(SESSION_RECORD) : null,
+          store.read(UPLOADS_RECORD)
+        ]);
+
+        if (uploads) {
+          setUploadedFiles(uploads.map(fromStoredUpload));
+        }
+        if (session) {
+          setUserSession(session);
+          if (getConfig().autoConnect && session.isLoggedIn && session.method === 'email' && session.email) {
+            if (await attachToSession(session)) return;
+            if (sync.isLeader()) {
+              await loginWithEmail(session.email);
+            } else {
+              pendingReconnect.current = session.email;
+            }
+          }
+        }
+      } catch (err) {
+        console.error('Failed to restore saved state:', err);
+      } finally {
+        setIsRestoring(false);
       }
     };
-    autoConnect();
+    restore();
   }, []);
 
+  // Apply session changes made in other tabs. Delegation logins need the
+  // private key, which is never shared, so those tabs only see the session.
+  useEffect(() => {
+    return sync.subscribe(event => {
+      switch (event.type) {
+        case 'login':
+          setUserSession(event.session);
+          if (event.session.method === 'email' && !isConnected) {
+            attachToSession(event.session);
+          }
+          break;
+
+        case 'logout':
+          console.log('👋 Logged out in another tab');
+          pendingReconnect.current = null;
+          resetClient();
+          setUserSession(EMPTY_SESSION);
+          break;
+
+        case 'upload': {
+          const file = fromStoredUpload(event.file);
+          setUploadedFiles(prev => prev.some(f => f.id === file.id) ? prev : [file, ...prev]);
+          break;
+        }
+
+        case 'uploads-cleared':
+          setUploadedFiles([]);
+          break;
+      }
+    });
+  }, [isConnected, attachToSession, resetClient]);
+
+  // A tab that becomes leader takes over the reconnect it was waiting for
+  useEffect(() => sync.onLeaderChange(leader => {
+    setIsLeader(leader);
+    const email = pendingReconnect.current;
+    if (leader && email) {
+      loginWithEmail(email);
+    }
+  }), [loginWithEmail]);
+
   return {
     client,
     space,
     isInitializing,
+    isRestoring,
+    isLeader,
     uploadedFiles,
     error,
     isConnected,
     userSession,
+    proofReport,
     uploadProgress: Object.values(uploadProgress),
     loginWithEmail,
     loginWithDelegation,
@@ -0,0 +1,42 @@
+// src/lib/config.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The loader keeps one request per module instance
+const importConfig = () => import('./config');
+
+describe('loadConfig', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('applies the runtime config file', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ profile: 'mock', maxUploadSize: 1024 })));
+    const { loadConfig, PROFILES } = await importConfig();
+
+    expect(await loadConfig()).toEqual({ ...PROFILES.mock, maxUploadSize: 1024, profile: 'mock' });
+  });
+
+  it('falls back to the default profile when the file does not answer in time', async () => {
+    const fetch = vi.fn((_url: string, init?: RequestInit) => new Promise<Response>((_, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+    }));
+    vi.stubGlobal('fetch', fetch);
+    const { loadConfig, PROFILES } = await importConfig();
+
+    expect(await loadConfig(10)).toEqual({ ...PROFILES.dev, profile: 'dev' });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/runtime config/), expect.objectContaining({ name: 'TimeoutError' }));
+  });
+
+  it('falls back to the default profile when the file is missing', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Not found', { status: 404 })));
+    const { loadConfig, PROFILES } = await importConfig();
+
+    expect(await loadConfig()).toEqual({ ...PROFILES.dev, profile: 'dev' });
+  });
+});
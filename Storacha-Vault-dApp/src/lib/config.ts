@@ -0,0 +1,206 @@
+import type { ConfigProfile, StorachaConfig } from '../types';
+
+export type ResolvedConfig = Required<StorachaConfig>;
+
+const MB = 1024 * 1024;
+
+/**
+ * Defaults per environment. Values from Vite env, the runtime JSON file
+ * and the settings UI override these, in that order.
+ */
+export const PROFILES: Record<ConfigProfile, Omit<ResolvedConfig, 'profile'>> = {
+  dev: {
+    apiBaseUrl: 'http://localhost:3000',
+    defaultGateway: 'storacha.link',
+    autoConnect: true,
+    persistSession: true,
+    maxUploadSize: 100 * MB,
+    serviceUrl: '',
+    serviceDid: '',
+  },
+  staging: {
+    apiBaseUrl: '',
+    defaultGateway: 'storacha.link',
+    autoConnect: true,
+    persistSession: true,
+    maxUploadSize: 100 * MB,
+    serviceUrl: '',
+    serviceDid: '',
+  },
+  prod: {
+    apiBaseUrl: '',
+    defaultGateway: 'storacha.link',
+    autoConnect: true,
+    persistSession: true,
+    maxUploadSize: 100 * MB,
+    serviceUrl: '',
+    serviceDid: '',
+  },
+  // Local stand-in service: nothing to reconnect to after a restart
+  mock: {
+    apiBaseUrl: 'http://localhost:3000',
+    defaultGateway: 'localhost:8787',
+    autoConnect: false,
+    persistSession: false,
+    maxUploadSize: 10 * MB,
+    serviceUrl: 'http://localhost:8787',
+    serviceDid: 'did:web:localhost',
+  },
+};
+
+export const CONFIG_PROFILES = Object.keys(PROFILES) as ConfigProfile[];
+
+// Settings UI overrides; read synchronously so the first render is right
+const OVERRIDES_KEY = 'storacha_config';
+const RUNTIME_CONFIG_URL = import.meta.env.VITE_CONFIG_URL || '/storacha.config.json';
+
+const isProfile = (value: unknown): value is ConfigProfile =>
+  typeof value === 'string' && value in PROFILES;
+
+const parseBoolean = (value: unknown) =>
+  value === true || value === 'true' ? true : value === false || value === 'false' ? false : undefined;
+
+const parseSize = (value: unknown) => {
+  const size = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof size === 'number' && Number.isFinite(size) && size > 0 ? size : undefined;
+};
+
+/**
+ * Keep the known keys with usable values; anything else is dropped with a
+ * warning, so a typo in a config file cannot break the app
+ */
+export function validateConfig(input: unknown, source = 'config'): StorachaConfig {
+  if (!input || typeof input !== 'object') return {};
+  const raw = input as Record<string, unknown>;
+  const config: StorachaConfig = {};
+
+  if (raw.profile !== undefined) {
+    if (isProfile(raw.profile)) config.profile = raw.profile;
+    else console.warn(`⚠️ Unknown profile "${raw.profile}" in ${source}`);
+  }
+  if (typeof raw.apiBaseUrl === 'string') config.apiBaseUrl = raw.apiBaseUrl.replace(/\/+$/, '');
+  if (typeof raw.defaultGateway === 'string' && raw.defaultGateway) config.defaultGateway = raw.defaultGateway;
+  const autoConnect = parseBoolean(raw.autoConnect);
+  if (autoConnect !== undefined) config.autoConnect = autoConnect;
+  const persistSession = parseBoolean(raw.persistSession);
+  if (persistSession !== undefined) config.persistSession = persistSession;
+  const maxUploadSize = parseSize(raw.maxUploadSize);
+  if (maxUploadSize !== undefined) config.maxUploadSize = maxUploadSize;
+  if (typeof raw.serviceUrl === 'string') config.serviceUrl = raw.serviceUrl.replace(/\/+$/, '');
+  if (typeof raw.serviceDid === 'string' && (raw.serviceDid === '' || raw.serviceDid.startsWith('did:'))) {
+    config.serviceDid = raw.serviceDid;
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (key !== 'profile' && !(key in config) && raw[key] !== undefined) {
+      console.warn(`⚠️ Ignoring invalid config value ${key} in ${source}:`, raw[key]);
+    }
+  }
+  return config;
+}
+
+const fromEnv = (): StorachaConfig => {
+  const env = import.meta.env;
+  const values: Record<string, unknown> = {
+    profile: env.VITE_STORACHA_PROFILE,
+    apiBaseUrl: env.VITE_API_BASE_URL,
+    defaultGateway: env.VITE_GATEWAY,
+    autoConnect: env.VITE_AUTO_CONNECT,
+    persistSession: env.VITE_PERSIST_SESSION,
+    maxUploadSize: env.VITE_MAX_UPLOAD_SIZE,
+    serviceUrl: env.VITE_SERVICE_URL,
+    serviceDid: env.VITE_SERVICE_DID,
+  };
+  Object.keys(values).forEach(key => values[key] === undefined && delete values[key]);
+  return validateConfig(values, 'Vite env');
+};
+
+const readOverrides = (): StorachaConfig => {
+  try {
+    return validateConfig(JSON.parse(localStorage.getItem(OVERRIDES_KEY) ?? 'null'), 'saved settings');
+  } catch {
+    return {};
+  }
+};
+
+const layers = {
+  env: fromEnv(),
+  runtime: {} as StorachaConfig,
+  overrides: typeof localStorage !== 'undefined' ? readOverrides() : {},
+};
+
+const resolve = (): ResolvedConfig => {
+  const { env, runtime, overrides } = layers;
+  const profile = overrides.profile ?? runtime.profile ?? env.profile ?? (import.meta.env.DEV ? 'dev' : 'prod');
+  return { ...PROFILES[profile], ...env, ...runtime, ...overrides, profile };
+};
+
+let current = resolve();
+const listeners = new Set<(config: ResolvedConfig) => void>();
+
+const publish = () => {
+  current = resolve();
+  listeners.forEach(listener => listener(current));
+};
+
+/**
+ * The configuration in effect. Complete from the start (profile and env);
+ * `loadConfig` adds the runtime file.
+ */
+export const getConfig = (): ResolvedConfig => current;
+
+export const subscribeConfig = (listener: (config: ResolvedConfig) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+let loading: Promise<ResolvedConfig> | null = null;
+
+// The app renders only after the runtime file, so a stalled request must not hold it up
+const LOAD_TIMEOUT_MS = 5000;
+
+/**
+ * Fetch the runtime config file, if the deployment serves one. A missing,
+ * broken or slow (over `timeoutMs`) file leaves the profile and env values
+ * in place.
+ */
+export const loadConfig = (timeoutMs = LOAD_TIMEOUT_MS): Promise<ResolvedConfig> => {
+  loading ??= (async () => {
+    try {
+      const response = await fetch(RUNTIME_CONFIG_URL, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (response.ok && (response.headers.get('Content-Type') ?? '').includes('json')) {
+        layers.runtime = validateConfig(await response.json(), RUNTIME_CONFIG_URL);
+        publish();
+      }
+    } catch (err) {
+      console.warn('⚠️ Could not load runtime config:', err);
+    }
+    return current;
+  })();
+  return loading;
+};
+
+/**
+ * Save settings from the UI. Changing the profile drops the other saved
+ * settings, so the new profile's defaults apply.
+ */
+export const updateConfig = (patch: StorachaConfig) => {
+  const changesProfile = patch.profile !== undefined && patch.profile !== current.profile;
+  layers.overrides = validateConfig(
+    changesProfile ? { ...patch } : { ...layers.overrides, ...patch },
+    'settings'
+  );
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify(layers.overrides));
+  publish();
+};
+
+export const resetConfig = () => {
+  layers.overrides = {};
+  localStorage.removeItem(OVERRIDES_KEY);
+  publish();
+};
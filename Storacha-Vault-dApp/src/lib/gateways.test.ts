@@ -0,0 +1,100 @@
+// src/lib/gateways.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_GATEWAYS, raceGateways, rankGateways } from './gateways';
+
+const CID = 'bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi';
+
+// Health scores are kept in localStorage
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+describe('rankGateways', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    localStorage.setItem('storacha_gateway_health', JSON.stringify({
+      'ipfs.io': { latencyMs: 50, successRate: 1, samples: 5, lastCheckedAt: 0 },
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('orders gateways by health score', () => {
+    expect(rankGateways()[0].host).toBe('ipfs.io');
+  });
+
+  it('puts the preferred gateway first whatever its score', () => {
+    const ranked = rankGateways(DEFAULT_GATEWAYS, 'https://w3s.link/');
+
+    expect(ranked.map(gateway => gateway.host)).toEqual(['w3s.link', 'ipfs.io', 'storacha.link', 'dweb.link']);
+    expect(ranked[0].subdomain).toBe(true);
+  });
+
+  it('adds a preferred gateway that is not in the list', () => {
+    const ranked = rankGateways(DEFAULT_GATEWAYS, 'localhost:8787');
+
+    expect(ranked[0]).toEqual({ host: 'localhost:8787', subdomain: false });
+    expect(ranked).toHaveLength(DEFAULT_GATEWAYS.length + 1);
+  });
+});
+
+describe('raceGateways', () => {
+  const gateways = [
+    { host: 'fast.example', subdomain: false },
+    { host: 'slow.example', subdomain: false },
+  ];
+
+  // Each host answers after its delay with its status
+  const stubGateways = (hosts: Record<string, { status: number; delay: number }>) => {
+    const fetch = vi.fn((url: string, init?: RequestInit) => new Promise<Response>((resolve, reject) => {
+      const { status, delay } = hosts[new URL(url).host];
+      const timer = setTimeout(() => resolve(new Response(null, { status })), delay);
+      init?.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    }));
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the first gateway to serve the content', async () => {
+    stubGateways({ 'fast.example': { status: 200, delay: 1 }, 'slow.example': { status: 200, delay: 50 } });
+
+    expect(await raceGateways(CID, { gateways })).toBe(`https://fast.example/ipfs/${CID}`);
+  });
+
+  it('uses the preferred gateway when it serves the content, even if slower', async () => {
+    const fetch = stubGateways({
+      'fast.example': { status: 200, delay: 1 },
+      'localhost:8787': { status: 200, delay: 30 },
+    });
+
+    expect(await raceGateways(CID, { gateways, preferred: 'localhost:8787' })).toBe(`http://localhost:8787/ipfs/${CID}`);
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+
+  it('races the others when the preferred gateway fails', async () => {
+    stubGateways({
+      'fast.example': { status: 200, delay: 1 },
+      'slow.example': { status: 200, delay: 50 },
+      'localhost:8787': { status: 404, delay: 1 },
+    });
+
+    expect(await raceGateways(CID, { gateways, preferred: 'localhost:8787' })).toBe(`https://fast.example/ipfs/${CID}`);
+  });
+});
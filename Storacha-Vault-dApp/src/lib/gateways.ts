@@ -0,0 +1,240 @@
+export interface Gateway {
+  host: string;
+  /** Serves https://<cid>.ipfs.<host> as well as https://<host>/ipfs/<cid> */
+  subdomain: boolean;
+}
+
+export interface GatewayHealth {
+  /** Rolling average latency of successful probes, in ms */
+  latencyMs: number | null;
+  /** Rolling success rate between 0 and 1 */
+  successRate: number;
+  samples: number;
+  lastCheckedAt: number;
+}
+
+export interface RaceOptions {
+  /** Path inside the DAG, e.g. a file name in a directory upload */
+  path?: string;
+  gateways?: Gateway[];
+  /** Gateway tried on its own before the others, e.g. the configured one */
+  preferred?: string | Gateway;
+  /** Give up on the gateways after this many ms, for each round */
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_GATEWAYS: Gateway[] = [
+  { host: 'storacha.link', subdomain: true },
+  { host: 'w3s.link', subdomain: true },
+  { host: 'dweb.link', subdomain: true },
+  { host: 'ipfs.io', subdomain: false },
+];
+
+const HEALTH_KEY = 'storacha_gateway_health';
+// Weight of the newest sample in the rolling averages
+const SMOOTHING = 0.3;
+const DEFAULT_TIMEOUT = 8000;
+// Longest CID that fits in a DNS label
+const MAX_LABEL_LENGTH = 63;
+
+/**
+ * Turn a configured gateway ("w3s.link", "https://ipfs.io") into a
+ * descriptor, reusing the known ones
+ */
+export const toGateway = (gateway: string | Gateway): Gateway => {
+  if (typeof gateway !== 'string') return gateway;
+  const host = gateway.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+  return DEFAULT_GATEWAYS.find(known => known.host === host) ?? { host, subdomain: false };
+};
+
+// Local gateways, such as the mock service's, only speak plain http
+const protocolFor = (host: string) => {
+  const hostname = host.replace(/:\d+$/, '');
+  return ['localhost', '127.0.0.1', '[::1]'].includes(hostname) || hostname.endsWith('.localhost')
+    ? 'http:'
+    : 'https:';
+};
+
+export const gatewayURL = (gateway: Gateway, cid: string, path = ''): string => {
+  const protocol = protocolFor(gateway.host);
+  const suffix = path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => `/${encodeURIComponent(segment)}`)
+    .join('');
+
+  return gateway.subdomain && cid.length <= MAX_LABEL_LENGTH && !cid.startsWith('Qm')
+    ? `${protocol}//${cid}.ipfs.${gateway.host}${suffix}`
+    : `${protocol}//${gateway.host}/ipfs/${cid}${suffix}`;
+};
+
+export const loadGatewayHealth = (): Record<string, GatewayHealth> => {
+  try {
+    return JSON.parse(localStorage.getItem(HEALTH_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const recordProbe = (host: string, ok: boolean, latencyMs?: number) => {
+  const health = loadGatewayHealth();
+  const previous = health[host];
+
+  health[host] = previous
+    ? {
+        latencyMs: ok && latencyMs !== undefined
+          ? previous.latencyMs === null
+            ? latencyMs
+            : Math.round(previous.latencyMs * (1 - SMOOTHING) + latencyMs * SMOOTHING)
+          : previous.latencyMs,
+        successRate: previous.successRate * (1 - SMOOTHING) + (ok ? SMOOTHING : 0),
+        samples: previous.samples + 1,
+        lastCheckedAt: Date.now()
+      }
+    : {
+        latencyMs: ok && latencyMs !== undefined ? latencyMs : null,
+        successRate: ok ? 1 : 0,
+        samples: 1,
+        lastCheckedAt: Date.now()
+      };
+
+  localStorage.setItem(HEALTH_KEY, JSON.stringify(health));
+};
+
+/**
+ * Higher is better. Untried gateways rank just behind reliable ones so
+ * they still get measured.
+ */
+export const gatewayScore = (health?: GatewayHealth): number => {
+  if (!health) return 0.5;
+  return health.successRate / (1 + (health.latencyMs ?? DEFAULT_TIMEOUT) / 1000);
+};
+
+/**
+ * Gateways best first. A preferred gateway leads whatever its score, and
+ * is added when it is not one of `gateways` (a local mock, say).
+ */
+export const rankGateways = (gateways: Gateway[] = DEFAULT_GATEWAYS, preferred?: string | Gateway): Gateway[] => {
+  const health = loadGatewayHealth();
+  const first = preferred ? [toGateway(preferred)] : [];
+  const rest = gateways
+    .filter(gateway => !first.some(p => p.host === gateway.host))
+    .sort((a, b) => gatewayScore(health[b.host]) - gatewayScore(health[a.host]));
+  return [...first, ...rest];
+};
+
+/**
+ * Ask one gateway whether it serves the content: a HEAD request, or a
+ * one-byte range request where HEAD is not supported
+ */
+const probe = async (url: string, signal: AbortSignal) => {
+  const response = await fetch(url, { method: 'HEAD', signal });
+  if (response.ok) return;
+
+  if (response.status === 405 || response.status === 501) {
+    const ranged = await fetch(url, { headers: { Range: 'bytes=0-0' }, signal });
+    if (ranged.ok) return;
+    throw new Error(`HTTP ${ranged.status}`);
+  }
+  throw new Error(`HTTP ${response.status}`);
+};
+
+/**
+ * Probe every gateway at once and return the URL of the first one that
+ * serves the content. The others are cancelled. Each finished probe
+ * updates that gateway's health score.
+ */
+const race = (cid: string, gateways: Gateway[], options: RaceOptions): Promise<string> => {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+
+  return new Promise((resolve, reject) => {
+    if (gateways.length === 0) {
+      return reject(new Error('No gateways configured'));
+    }
+
+    const controllers = gateways.map(() => new AbortController());
+    let pending = gateways.length;
+    let settled = false;
+
+    const finish = (error?: Error, url?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      controllers.forEach(controller => controller.abort());
+      if (url) resolve(url);
+      else reject(error);
+    };
+
+    const timer = setTimeout(() => {
+      // Gateways still pending at the deadline count as failures
+      gateways.forEach((gateway, i) => {
+        if (!controllers[i].signal.aborted) recordProbe(gateway.host, false);
+      });
+      finish(new Error(`No gateway served ${cid} within ${timeout / 1000}s`));
+    }, timeout);
+
+    const onAbort = () => finish(new DOMException('Gateway race aborted', 'AbortError'));
+    if (options.signal?.aborted) return onAbort();
+    options.signal?.addEventListener('abort', onAbort);
+
+    gateways.forEach((gateway, i) => {
+      const url = gatewayURL(gateway, cid, options.path);
+      const started = performance.now();
+
+      probe(url, controllers[i].signal)
+        .then(() => {
+          if (settled) return;
+          recordProbe(gateway.host, true, Math.round(performance.now() - started));
+          controllers[i].abort();
+          finish(undefined, url);
+        })
+        .catch(() => {
+          if (controllers[i].signal.aborted) return;
+          controllers[i].abort();
+          recordProbe(gateway.host, false);
+          if (--pending === 0) {
+            finish(new Error(`No gateway serves ${cid}`));
+          }
+        });
+    });
+  });
+};
+
+/**
+ * URL of a gateway serving the content. The preferred gateway is asked
+ * first and used whenever it answers; otherwise the rest are raced.
+ */
+export const raceGateways = async (cid: string, options: RaceOptions = {}): Promise<string> => {
+  const gateways = rankGateways(options.gateways, options.preferred);
+  if (!options.preferred) return race(cid, gateways, options);
+
+  const [first, ...rest] = gateways;
+
+  try {
+    return await race(cid, [first], options);
+  } catch (error) {
+    if (options.signal?.aborted || rest.length === 0) throw error;
+    return race(cid, rest, options);
+  }
+};
+
+const resolved = new Map<string, Promise<string>>();
+
+/**
+ * Best gateway URL for a CID, racing the gateways once per CID and path.
+ * A failed race is forgotten so the next call tries again.
+ */
+export const resolveGatewayURL = (cid: string, options: Omit<RaceOptions, 'signal'> = {}): Promise<string> => {
+  const preferred = options.preferred && toGateway(options.preferred).host;
+  const key = `${cid}/${options.path ?? ''}@${preferred ?? ''}`;
+  let result = resolved.get(key);
+
+  if (!result) {
+    result = raceGateways(cid, options);
+    result.catch(() => resolved.delete(key));
+    resolved.set(key, result);
+  }
+  return result;
+};
@@ -0,0 +1,203 @@
+// src/lib/verified-fetch.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CarWriter } from '@ipld/car/writer';
+import * as dagPB from '@ipld/dag-pb';
+import { CID } from 'multiformats/cid';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { fetchVerifiedBlob, verifiedFetch, VerificationError } from './verified-fetch';
+
+type Block = { cid: CID; bytes: Uint8Array };
+// @ipld/car and @ipld/dag-pb bundle their own multiformats, whose CID
+// differs only nominally
+type LinkHash = dagPB.PBLink['Hash'];
+type CarRoots = Parameters<typeof CarWriter.create>[0];
+type CarBlock = Parameters<CarWriter['put']>[0];
+
+const CAR_TYPE = 'application/vnd.ipld.car; version=1; order=dfs; dups=y';
+const RAW_CODE = 0x55;
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+// UnixFS Data with only the type and file size fields
+const unixfs = (type: number, fileSize?: number) => {
+  const bytes = [0x08, type];
+  if (fileSize !== undefined) bytes.push(0x18, fileSize);
+  return Uint8Array.from(bytes);
+};
+
+const rawBlock = async (bytes: Uint8Array): Promise<Block> =>
+  ({ cid: CID.create(1, RAW_CODE, await sha256.digest(bytes)), bytes });
+
+const pbBlock = async (Data: Uint8Array, Links: dagPB.PBLink[]): Promise<Block> => {
+  const bytes = dagPB.encode(dagPB.prepare({ Data, Links }));
+  return { cid: CID.create(1, dagPB.code, await sha256.digest(bytes)), bytes };
+};
+
+const link = (block: Block, Name = ''): dagPB.PBLink => ({ Hash: block.cid as unknown as LinkHash, Name, Tsize: block.bytes.length });
+
+// A two-chunk file inside a directory, in the order a gateway sends them
+const fixture = async () => {
+  const chunks = [await rawBlock(text('hello ')), await rawBlock(text('verified world'))];
+  const file = await pbBlock(unixfs(2, 20), chunks.map(chunk => link(chunk)));
+  const dir = await pbBlock(unixfs(1), [link(file, 'greeting.txt')]);
+  return { chunks, file, dir };
+};
+
+const car = async (roots: CID[], blocks: Block[]) => {
+  const { writer, out } = CarWriter.create(roots as unknown as CarRoots);
+  const parts: Uint8Array[] = [];
+  const collected = (async () => {
+    for await (const part of out) parts.push(part);
+  })();
+
+  for (const block of blocks) await writer.put(block as unknown as CarBlock);
+  await writer.close();
+  await collected;
+
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  parts.reduce((offset, part) => (bytes.set(part, offset), offset + part.length), 0);
+  return bytes;
+};
+
+const gatewayFetch = (body: BodyInit) =>
+  vi.fn(async (_url: string | URL | Request, _init?: RequestInit) =>
+    new Response(body, { headers: { 'Content-Type': CAR_TYPE } }));
+
+const readText = async (blob: Blob) => new TextDecoder().decode(await blob.arrayBuffer());
+
+describe('verifiedFetch', () => {
+  it('verifies a chunked file and streams its bytes', async () => {
+    const { chunks, file } = await fixture();
+    const fetch = gatewayFetch(await car([file.cid], [file, ...chunks]));
+
+    const entry = await verifiedFetch(file.cid.toString(), { fetch });
+
+    expect(entry).toMatchObject({ cid: file.cid.toString(), type: 'file', size: 20 });
+    expect(await readText(await entry.blob())).toBe('hello verified world');
+  });
+
+  it('builds the CAR request with the gateway URL helper', async () => {
+    const { chunks, file, dir } = await fixture();
+    const fetch = gatewayFetch(await car([dir.cid], [dir, file, ...chunks]));
+
+    await verifiedFetch(dir.cid.toString(), { gateway: 'localhost:8787', path: 'greeting.txt', fetch });
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe(`http://localhost:8787/ipfs/${dir.cid}/greeting.txt?format=car&dag-scope=entity`);
+    expect(new Headers(init?.headers).get('Accept')).toBe(CAR_TYPE);
+  });
+
+  it('resolves a path and lists directories', async () => {
+    const { chunks, file, dir } = await fixture();
+    const body = await car([dir.cid], [dir, file, ...chunks]);
+
+    const entry = await verifiedFetch(dir.cid.toString(), { path: 'greeting.txt', fetch: gatewayFetch(body) });
+    expect(await readText(await entry.blob())).toBe('hello verified world');
+
+    const listing = await verifiedFetch(dir.cid.toString(), { fetch: gatewayFetch(body) });
+    expect(listing.type).toBe('directory');
+    expect(listing.entries).toEqual([{ name: 'greeting.txt', cid: file.cid.toString(), dagSize: file.bytes.length }]);
+  });
+
+  it('rejects a tampered block', async () => {
+    const { chunks, file } = await fixture();
+    const tampered = { cid: chunks[1].cid, bytes: text('tampered world') };
+    const entry = await verifiedFetch(file.cid.toString(), {
+      fetch: gatewayFetch(await car([file.cid], [file, chunks[0], tampered]))
+    });
+
+    const error = await entry.blob().catch(e => e);
+    expect(error).toBeInstanceOf(VerificationError);
+    expect(error).toMatchObject({ cid: chunks[1].cid.toString(), message: expect.stringMatching(/does not match its CID/) });
+  });
+
+  it('rejects a truncated stream', async () => {
+    const { chunks, file } = await fixture();
+    const body = await car([file.cid], [file, ...chunks]);
+    const entry = await verifiedFetch(file.cid.toString(), { fetch: gatewayFetch(body.subarray(0, body.length - 5)) });
+
+    await expect(entry.blob()).rejects.toThrow(VerificationError);
+  });
+
+  it('rejects a response missing blocks', async () => {
+    const { chunks, file } = await fixture();
+    const entry = await verifiedFetch(file.cid.toString(), {
+      fetch: gatewayFetch(await car([file.cid], [file, chunks[0]]))
+    });
+
+    await expect(entry.blob()).rejects.toThrow(/ended before block/);
+  });
+
+  it('rejects a CAR for another root', async () => {
+    const { chunks, file, dir } = await fixture();
+    const fetch = gatewayFetch(await car([dir.cid], [dir, file, ...chunks]));
+
+    const error = await verifiedFetch(file.cid.toString(), { fetch }).catch(e => e);
+    expect(error).toBeInstanceOf(VerificationError);
+    expect(error.message).toMatch(new RegExp(`CAR root mismatch: gateway storacha.link sent ${dir.cid} for ${file.cid}`));
+  });
+
+  it('rejects a CAR without roots', async () => {
+    const { chunks, file } = await fixture();
+    const fetch = gatewayFetch(await car([], [file, ...chunks]));
+
+    await expect(verifiedFetch(file.cid.toString(), { fetch })).rejects.toThrow(/CAR root mismatch.*no roots/);
+  });
+
+  it('accepts a CIDv1 root for a CIDv0 request', async () => {
+    const { chunks, file } = await fixture();
+    const fetch = gatewayFetch(await car([file.cid], [file, ...chunks]));
+
+    const entry = await verifiedFetch(file.cid.toV0().toString(), { fetch });
+    expect(await readText(await entry.blob())).toBe('hello verified world');
+  });
+});
+
+describe('fetchVerifiedBlob', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('moves on to the next gateway after a network error or a tampered block', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { chunks, file } = await fixture();
+    const good = await car([file.cid], [file, ...chunks]);
+    const tampered = await car([file.cid], [file, chunks[0], { cid: chunks[1].cid, bytes: text('tampered world') }]);
+
+    const fetch = vi.fn(async (url: string | URL | Request) => {
+      const { host } = new URL(String(url));
+      if (host === 'down.example') throw new TypeError('Failed to fetch');
+      return new Response(host === 'evil.example' ? tampered : good, { headers: { 'Content-Type': CAR_TYPE } });
+    });
+
+    const blob = await fetchVerifiedBlob(file.cid.toString(), {
+      gateways: ['down.example', 'evil.example', { host: 'good.example', subdomain: true }],
+      type: 'text/plain',
+      fetch
+    });
+
+    expect(blob.type).toBe('text/plain');
+    expect(await readText(blob)).toBe('hello verified world');
+    expect(fetch.mock.calls.map(([url]) => new URL(String(url)).host)).toEqual(['down.example', 'evil.example', 'good.example']);
+  });
+
+  it('reports every gateway once all of them fail', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetch = vi.fn(async () => new Response('gone', { status: 404 }));
+
+    await expect(fetchVerifiedBlob('bafkqaaa', { gateways: ['a.example', 'b.example'], fetch }))
+      .rejects.toThrow(/a\.example: .*HTTP 404.*; b\.example: .*HTTP 404/);
+  });
+
+  it('stops when the caller aborts', async () => {
+    const controller = new AbortController();
+    const fetch = vi.fn(async () => {
+      controller.abort();
+      throw new DOMException('The operation was aborted', 'AbortError');
+    });
+
+    await expect(fetchVerifiedBlob('bafkqaaa', { gateways: ['a.example', 'b.example'], fetch, signal: controller.signal }))
+      .rejects.toThrow(/aborted/);
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,498 @@
+import { CarBlockIterator } from '@ipld/car/iterator';
+import * as dagPB from '@ipld/dag-pb';
+import { murmur364 } from '@multiformats/murmur3';
+import { CID } from 'multiformats/cid';
+import { equals } from 'multiformats/bytes';
+import { identity } from 'multiformats/hashes/identity';
+import { sha256, sha512 } from 'multiformats/hashes/sha2';
+import type { MultihashHasher } from 'multiformats/hashes/interface';
+import { gatewayURL, toGateway, type Gateway } from './gateways';
+
+const RAW_CODE = 0x55;
+const CAR_ACCEPT = 'application/vnd.ipld.car; version=1; order=dfs; dups=y';
+
+const HASHERS: Record<number, MultihashHasher> = {
+  [sha256.code]: sha256,
+  [sha512.code]: sha512,
+};
+
+// UnixFS Data.DataType
+const NodeType = {
+  Raw: 0,
+  Directory: 1,
+  File: 2,
+  Metadata: 3,
+  Symlink: 4,
+  HAMTShard: 5,
+} as const;
+
+const HAMT_FANOUT = 256;
+
+export class VerificationError extends Error {
+  cid?: string;
+
+  constructor(message: string, cid?: CID) {
+    super(message);
+    this.name = 'VerificationError';
+    this.cid = cid?.toString();
+  }
+}
+
+export interface VerifiedFetchOptions {
+  /** Gateway serving trustless CAR responses (default storacha.link) */
+  gateway?: string | Gateway;
+  /** Path inside the DAG, e.g. "documents/notes.txt" */
+  path?: string;
+  signal?: AbortSignal;
+  fetch?: typeof fetch;
+}
+
+export interface VerifiedDirectoryEntry {
+  name: string;
+  cid: string;
+  /** Size of the entry's whole DAG, in bytes */
+  dagSize: number;
+}
+
+export interface VerifiedEntry {
+  /** CID of the resolved entry (the root, or the end of the path) */
+  cid: string;
+  type: 'file' | 'directory';
+  /** File size in bytes, from the UnixFS metadata */
+  size: number | null;
+  /** Directory listing; empty for files */
+  entries: VerifiedDirectoryEntry[];
+  /**
+   * File bytes, each block checked against its CID before it is emitted.
+   * In Node, wrap it with stream.Readable.fromWeb().
+   */
+  stream(): ReadableStream<Uint8Array>;
+  blob(type?: string): Promise<Blob>;
+}
+
+interface UnixFSNode {
+  type: number;
+  data?: Uint8Array;
+  fileSize?: number;
+  fanout?: number;
+  links: dagPB.PBLink[];
+}
+
+type CarBlock = { cid: CID; bytes: Uint8Array };
+
+const blockKey = (cid: CID) => cid.toV1().toString();
+
+async function* readChunks(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Decode the UnixFS Data protobuf carried in a dag-pb node. Only the
+ * fields needed to read files and directories are kept.
+ */
+function decodeUnixFS(cid: CID, bytes: Uint8Array): UnixFSNode {
+  const pb = dagPB.decode(bytes);
+  if (!pb.Data) {
+    throw new VerificationError(`${cid} is a dag-pb node without UnixFS data`, cid);
+  }
+
+  const buf = pb.Data;
+  const node: UnixFSNode = { type: -1, links: pb.Links };
+  let offset = 0;
+
+  const varint = () => {
+    let value = 0;
+    for (let shift = 0; ; shift += 7) {
+      if (offset >= buf.length) {
+        throw new VerificationError(`Malformed UnixFS data in ${cid}`, cid);
+      }
+      const byte = buf[offset++];
+      value += (byte & 0x7f) * 2 ** shift;
+      if (byte < 0x80) return value;
+    }
+  };
+
+  while (offset < buf.length) {
+    const key = varint();
+    const field = Math.floor(key / 8);
+    const wire = key & 7;
+
+    if (wire === 0) {
+      const value = varint();
+      if (field === 1) node.type = value;
+      else if (field === 3) node.fileSize = value;
+      else if (field === 6) node.fanout = value;
+    } else if (wire === 2) {
+      const length = varint();
+      const value = buf.subarray(offset, offset + length);
+      offset += length;
+      if (field === 2) node.data = value;
+    } else if (wire === 1) {
+      offset += 8;
+    } else if (wire === 5) {
+      offset += 4;
+    } else {
+      throw new VerificationError(`Malformed UnixFS data in ${cid}`, cid);
+    }
+  }
+
+  if (node.type < 0) {
+    throw new VerificationError(`UnixFS data in ${cid} has no type`, cid);
+  }
+  return node;
+}
+
+/**
+ * Check a block's bytes against the multihash in its CID
+ */
+export async function verifyBlock(cid: CID, bytes: Uint8Array): Promise<void> {
+  const { code, digest } = cid.multihash;
+
+  if (code === identity.code) {
+    if (!equals(digest, bytes)) {
+      throw new VerificationError(`Block ${cid} does not match its inline (identity) CID`, cid);
+    }
+    return;
+  }
+
+  const hasher = HASHERS[code];
+  if (!hasher) {
+    throw new VerificationError(`Cannot verify ${cid}: unsupported hash function 0x${code.toString(16)}`, cid);
+  }
+
+  const actual = await hasher.digest(bytes);
+  if (!equals(actual.digest, digest)) {
+    throw new VerificationError(`Block ${cid} does not match its CID: the gateway returned altered data`, cid);
+  }
+}
+
+/**
+ * Blocks pulled from the CAR on demand, each verified as it is read.
+ * With dups=y every repeated block is sent again, so used blocks can be
+ * dropped and memory stays bounded by the DAG's width, not the file size.
+ */
+class BlockSource {
+  private blocks = new Map<string, Uint8Array>();
+  private iterator: AsyncIterator<CarBlock>;
+  private keepBlocks: boolean;
+
+  constructor(iterator: AsyncIterator<CarBlock>, keepBlocks: boolean) {
+    this.iterator = iterator;
+    this.keepBlocks = keepBlocks;
+  }
+
+  async get(cid: CID): Promise<Uint8Array> {
+    if (cid.multihash.code === identity.code) {
+      return cid.multihash.digest;
+    }
+
+    const key = blockKey(cid);
+    while (!this.blocks.has(key)) {
+      let next: IteratorResult<CarBlock>;
+      try {
+        next = await this.iterator.next();
+      } catch (error) {
+        throw new VerificationError(`Response is not a complete CAR: ${(error as Error).message}`, cid);
+      }
+      if (next.done) {
+        throw new VerificationError(`Response ended before block ${cid} arrived: the CAR is truncated or incomplete`, cid);
+      }
+
+      await verifyBlock(next.value.cid, next.value.bytes);
+      this.blocks.set(blockKey(next.value.cid), next.value.bytes);
+    }
+
+    const bytes = this.blocks.get(key)!;
+    if (!this.keepBlocks) this.blocks.delete(key);
+    return bytes;
+  }
+
+  async node(cid: CID): Promise<UnixFSNode> {
+    if (cid.code !== dagPB.code) {
+      throw new VerificationError(`${cid} is not a UnixFS (dag-pb) node`, cid);
+    }
+    return decodeUnixFS(cid, await this.get(cid));
+  }
+
+  close() {
+    this.iterator.return?.();
+  }
+}
+
+const toEntry = (link: dagPB.PBLink, name = link.Name ?? ''): VerifiedDirectoryEntry => ({
+  name,
+  cid: link.Hash.toString(),
+  dagSize: link.Tsize ?? 0,
+});
+
+/**
+ * Find `name` in a HAMT-sharded directory. Each level consumes one byte of
+ * the name's murmur3-x64-64 hash; link names are that byte in hex, plus the
+ * entry name for leaves.
+ */
+async function findInShard(source: BlockSource, shard: UnixFSNode, name: string, depth = 0): Promise<CID | null> {
+  if (shard.fanout !== HAMT_FANOUT) {
+    throw new VerificationError(`Unsupported HAMT fanout ${shard.fanout}`);
+  }
+
+  const { digest: hash } = await murmur364.digest(new TextEncoder().encode(name));
+  if (depth >= hash.length) return null;
+
+  const label = hash[depth].toString(16).toUpperCase().padStart(2, '0');
+  for (const link of shard.links) {
+    if (link.Name === label + name) {
+      return link.Hash;
+    }
+    if (link.Name === label) {
+      return findInShard(source, await source.node(link.Hash), name, depth + 1);
+    }
+  }
+  return null;
+}
+
+async function listShard(source: BlockSource, shard: UnixFSNode): Promise<VerifiedDirectoryEntry[]> {
+  const entries: VerifiedDirectoryEntry[] = [];
+  for (const link of shard.links) {
+    const name = link.Name ?? '';
+    if (name.length === 2) {
+      entries.push(...await listShard(source, await source.node(link.Hash)));
+    } else {
+      entries.push(toEntry(link, name.slice(2)));
+    }
+  }
+  return entries;
+}
+
+async function resolvePath(source: BlockSource, root: CID, segments: string[]): Promise<CID> {
+  let cid = root;
+
+  for (const [i, segment] of segments.entries()) {
+    const where = `/${segments.slice(0, i).join('/')}`;
+    if (cid.code !== dagPB.code) {
+      throw new VerificationError(`${where} is not a directory`, cid);
+    }
+
+    const node = await source.node(cid);
+    let next: CID | null = null;
+
+    if (node.type === NodeType.Directory) {
+      next = node.links.find(link => link.Name === segment)?.Hash ?? null;
+    } else if (node.type === NodeType.HAMTShard) {
+      next = await findInShard(source, node, segment);
+    } else {
+      throw new VerificationError(`${where} is not a directory`, cid);
+    }
+
+    if (!next) {
+      throw new VerificationError(`No entry "${segment}" in ${where}`, cid);
+    }
+    cid = next;
+  }
+
+  return cid;
+}
+
+/**
+ * File content in order: raw leaves, inline data and linked chunks,
+ * depth first
+ */
+async function* fileBytes(source: BlockSource, cid: CID): AsyncGenerator<Uint8Array> {
+  if (cid.code === RAW_CODE) {
+    yield await source.get(cid);
+    return;
+  }
+  yield* fileBytesFrom(source, cid, await source.node(cid));
+}
+
+async function* fileBytesFrom(source: BlockSource, cid: CID, node: UnixFSNode): AsyncGenerator<Uint8Array> {
+  if (node.type !== NodeType.File && node.type !== NodeType.Raw) {
+    throw new VerificationError(`${cid} is not a file`, cid);
+  }
+
+  if (node.data?.length) {
+    yield node.data;
+  }
+  for (const link of node.links) {
+    yield* fileBytes(source, link.Hash);
+  }
+}
+
+function createEntry(
+  cid: CID,
+  type: VerifiedEntry['type'],
+  size: number | null,
+  entries: VerifiedDirectoryEntry[],
+  chunks: () => AsyncGenerator<Uint8Array>
+): VerifiedEntry {
+  const stream = () => {
+    const iterator = chunks();
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await iterator.next();
+          if (done) controller.close();
+          else controller.enqueue(value);
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await iterator.return(undefined);
+      },
+    });
+  };
+
+  return {
+    cid: cid.toString(),
+    type,
+    size,
+    entries,
+    stream,
+    async blob(mimeType?: string) {
+      const parts: Uint8Array[] = [];
+      for await (const chunk of readChunks(stream())) {
+        parts.push(chunk);
+      }
+      return new Blob(parts as BlobPart[], mimeType ? { type: mimeType } : undefined);
+    },
+  };
+}
+
+/**
+ * Fetch a CID (and optional path) from a trustless gateway as a CAR and
+ * verify every block against its CID while walking the UnixFS DAG.
+ * Tampered blocks, missing blocks, truncated responses and CARs for
+ * another root reject with a VerificationError.
+ */
+export async function verifiedFetch(cid: string, options: VerifiedFetchOptions = {}): Promise<VerifiedEntry> {
+  const root = CID.parse(cid.trim());
+  const segments = (options.path ?? '').split('/').filter(Boolean);
+  const gateway = toGateway(options.gateway ?? 'storacha.link').host;
+  const path = segments.map(segment => `/${encodeURIComponent(segment)}`).join('');
+  // Path-style URLs, as subdomain gateways answer those with a redirect
+  const url = `${gatewayURL({ host: gateway, subdomain: false }, root.toString(), options.path)}?format=car&dag-scope=entity`;
+
+  const response = await (options.fetch ?? fetch)(url, {
+    headers: { Accept: CAR_ACCEPT },
+    signal: options.signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Gateway ${gateway} returned HTTP ${response.status} for ${root}${path}`);
+  }
+
+  let blocks: CarBlockIterator;
+  try {
+    blocks = await CarBlockIterator.fromIterable(readChunks(response.body));
+  } catch (error) {
+    throw new VerificationError(`Gateway ${gateway} did not return a valid CAR: ${(error as Error).message}`, root);
+  }
+
+  // Compare multihashes, so a CIDv0 request matches a CIDv1 root
+  const roots = await blocks.getRoots();
+  if (!roots.some(r => equals(r.multihash.bytes, root.multihash.bytes))) {
+    throw new VerificationError(
+      `CAR root mismatch: gateway ${gateway} sent ${roots.join(', ') || 'no roots'} for ${root}`,
+      root
+    );
+  }
+
+  // Only drop used blocks when the gateway promises to resend duplicates
+  const dups = /dups=y/.test(response.headers.get('Content-Type') ?? '');
+  const source = new BlockSource(blocks[Symbol.asyncIterator]() as AsyncIterator<CarBlock>, !dups);
+
+  try {
+    const target = await resolvePath(source, root, segments);
+
+    if (target.code === RAW_CODE) {
+      const bytes = await source.get(target);
+      source.close();
+      return createEntry(target, 'file', bytes.length, [], async function* () { yield bytes; });
+    }
+
+    const node = await source.node(target);
+
+    if (node.type === NodeType.Directory || node.type === NodeType.HAMTShard) {
+      const entries = node.type === NodeType.Directory
+        ? node.links.map(link => toEntry(link))
+        : await listShard(source, node);
+      source.close();
+      return createEntry(target, 'directory', null, entries, () => {
+        throw new VerificationError(`${target} is a directory; pick a file with the path option`, target);
+      });
+    }
+
+    if (node.type !== NodeType.File && node.type !== NodeType.Raw) {
+      throw new VerificationError(`${target} is not a file or directory`, target);
+    }
+
+    const expected = node.fileSize ?? node.data?.length ?? null;
+    let started = false;
+
+    return createEntry(target, 'file', expected, [], async function* () {
+      if (started) {
+        throw new Error('A verified response can only be read once');
+      }
+      started = true;
+
+      let written = 0;
+      try {
+        // The target node is already decoded, so start the walk from it
+        for await (const chunk of fileBytesFrom(source, target, node)) {
+          written += chunk.length;
+          yield chunk;
+        }
+      } finally {
+        source.close();
+      }
+
+      if (expected !== null && written !== expected) {
+        throw new VerificationError(`File is ${written} bytes but its UnixFS metadata says ${expected}`, target);
+      }
+    });
+  } catch (error) {
+    source.close();
+    throw error;
+  }
+}
+
+export interface VerifiedBlobOptions extends Omit<VerifiedFetchOptions, 'gateway'> {
+  /** Gateways to try, in order */
+  gateways: (string | Gateway)[];
+  /** MIME type of the returned Blob */
+  type?: string;
+}
+
+/**
+ * Download a file through each gateway in turn until one returns content
+ * that verifies. A gateway that fails, or sends blocks that do not match
+ * their CIDs, is skipped; aborting `signal` stops the whole download.
+ */
+export async function fetchVerifiedBlob(cid: string, options: VerifiedBlobOptions): Promise<Blob> {
+  const { gateways, type, ...fetchOptions } = options;
+  const failures: string[] = [];
+
+  for (const gateway of gateways) {
+    try {
+      const entry = await verifiedFetch(cid, { ...fetchOptions, gateway });
+      return await entry.blob(type);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      const host = toGateway(gateway).host;
+      console.warn(`Verified download from ${host} failed:`, error);
+      failures.push(`${host}: ${(error as Error).message}`);
+    }
+  }
+
+  throw new Error(failures.length
+    ? `No gateway returned verified content for ${cid}. ${failures.join('; ')}`
+    : 'No gateways configured');
+}
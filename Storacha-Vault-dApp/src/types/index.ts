@@ -51,9 +51,26 @@ export interface UploadProgress {
   totalBytes: number;
 }
 
+export type ConfigProfile = 'dev' | 'staging' | 'prod' | 'mock';
+
+/**
+ * App configuration. Every source (profile defaults, Vite env, runtime
+ * JSON, the settings UI) supplies a partial config; see lib/config.ts.
+ */
 export interface StorachaConfig {
+  profile?: ConfigProfile;
+  /** Delegation backend; '' means same origin */
+  apiBaseUrl?: string;
+  /** Gateway host used for new links, e.g. "storacha.link" */
   defaultGateway?: string;
+  /** Reconnect a saved session on startup */
   autoConnect?: boolean;
+  /** Keep the session across reloads */
   persistSession?: boolean;
+  /** Per-file limit in bytes */
   maxUploadSize?: number;
+  /** Storacha-compatible service URL; '' means the public service */
+  serviceUrl?: string;
+  /** DID of the service at `serviceUrl` */
+  serviceDid?: string;
 }
@@ -0,0 +1,250 @@
+// mock/gateway.js - Read-only IPFS gateway over the blocks the mock service holds
+import { extname } from 'path';
+import { CarWriter } from '@ipld/car/writer';
+import * as PB from '@ipld/dag-pb';
+import * as Link from 'multiformats/link';
+import { base58btc } from 'multiformats/bases/base58';
+
+const RAW_CODE = 0x55;
+const IDENTITY_CODE = 0x00;
+const CAR_TYPE = 'application/vnd.ipld.car; version=1; order=dfs; dups=y';
+const DAG_SCOPES = ['all', 'entity', 'block'];
+
+// UnixFS node types (unixfs.proto)
+const UNIXFS_RAW = 0;
+const UNIXFS_DIRECTORY = 1;
+const UNIXFS_FILE = 2;
+const UNIXFS_HAMT_SHARD = 5;
+
+export class GatewayError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'GatewayError';
+    this.status = status;
+  }
+}
+
+const readVarint = (bytes, offset) => {
+  let value = 0;
+  let shift = 0;
+  let byte;
+  do {
+    if (offset >= bytes.length) throw new GatewayError(502, 'Truncated UnixFS data');
+    byte = bytes[offset++];
+    value += (byte & 0x7f) * 2 ** shift;
+    shift += 7;
+  } while (byte & 0x80);
+  return [value, offset];
+};
+
+const escapeHTML = text =>
+  text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]);
+
+/**
+ * The type and inline data of a UnixFS node; the other fields are not
+ * needed to serve content
+ */
+function decodeUnixFS(data) {
+  let type = null;
+  let content = new Uint8Array(0);
+  let offset = 0;
+
+  while (offset < data.length) {
+    const [key, next] = readVarint(data, offset);
+    const field = key >> 3;
+    offset = next;
+
+    switch (key & 0x07) {
+      case 0: {
+        const [value, end] = readVarint(data, offset);
+        if (field === 1) type = value;
+        offset = end;
+        break;
+      }
+      case 2: {
+        const [length, start] = readVarint(data, offset);
+        if (field === 2) content = data.subarray(start, start + length);
+        offset = start + length;
+        break;
+      }
+      default:
+        throw new GatewayError(502, 'Unsupported UnixFS encoding');
+    }
+  }
+  return { type, data: content };
+}
+
+/**
+ * Serve `/ipfs/<cid>/<path>` and `<cid>.ipfs.<host>/<path>` from the
+ * blocks located through the indexes clients register. Files and plain
+ * directories are supported; `?format=raw` returns the block itself and
+ * `?format=car` (or an Accept of application/vnd.ipld.car) a trustless
+ * CAR honouring `dag-scope`.
+ */
+export function createGateway(store) {
+  const getBlock = cid => {
+    const location = store.findBlock(cid.multihash);
+    const bytes = location && store.readBlob(base58btc.decode(location.shard), location.offset, location.length);
+    if (!bytes) throw new GatewayError(404, `Block ${cid} not found`);
+    return bytes;
+  };
+
+  const readNode = cid => {
+    const bytes = getBlock(cid);
+    if (cid.code === RAW_CODE) return { raw: bytes };
+    if (cid.code !== PB.code) throw new GatewayError(501, `Codec 0x${cid.code.toString(16)} is not supported`);
+
+    const node = PB.decode(bytes);
+    return { node, unixfs: node.Data ? decodeUnixFS(node.Data) : { type: null, data: new Uint8Array(0) } };
+  };
+
+  // File content in order, one chunk at a time
+  async function* fileContent(cid) {
+    const { raw, node, unixfs } = readNode(cid);
+    if (raw) {
+      yield raw;
+      return;
+    }
+    if (unixfs.type !== UNIXFS_FILE && unixfs.type !== UNIXFS_RAW) {
+      throw new GatewayError(400, `${cid} is not a file`);
+    }
+    if (unixfs.data.length) yield unixfs.data;
+    for (const link of node.Links) {
+      yield* fileContent(link.Hash);
+    }
+  }
+
+  // Blocks of the DAG below `cid`, depth first and with duplicates: all of
+  // them, a file's chunks or a directory's own node for `entity`, or the
+  // one block. Inline (identity) blocks live in their CIDs.
+  function* dagBlocks(cid, scope) {
+    if (cid.multihash.code === IDENTITY_CODE) return;
+    const bytes = getBlock(cid);
+    yield { cid, bytes };
+    if (scope === 'block' || cid.code !== PB.code) return;
+
+    const node = PB.decode(bytes);
+    const type = node.Data ? decodeUnixFS(node.Data).type : null;
+    if (scope === 'entity' && type !== UNIXFS_FILE && type !== UNIXFS_RAW) return;
+    for (const link of node.Links) {
+      yield* dagBlocks(link.Hash, scope);
+    }
+  }
+
+  // The blocks along the path come first, so clients can verify each step
+  const sendCar = async (res, root, parents, cid, scope) => {
+    const { writer, out } = CarWriter.create([root]);
+    const write = (async () => {
+      try {
+        for (const parent of parents) await writer.put({ cid: parent, bytes: getBlock(parent) });
+        for (const block of dagBlocks(cid, scope)) await writer.put(block);
+      } finally {
+        await writer.close();
+      }
+    })();
+
+    res.set('Content-Type', CAR_TYPE);
+    res.set('Cache-Control', 'public, max-age=29030400, immutable');
+    res.set('Etag', `"${root}.car"`);
+    for await (const chunk of out) {
+      res.write(chunk);
+    }
+    await write;
+    res.end();
+  };
+
+  const wantsCar = req =>
+    req.query.format === 'car' || (!req.query.format && /application\/vnd\.ipld\.car/.test(req.get('Accept') ?? ''));
+
+  // Follow a path of link names from the root, noting the nodes passed
+  const resolvePath = (root, segments, parents = []) => {
+    let cid = root;
+    for (const segment of segments) {
+      parents.push(cid);
+      const { node, unixfs } = readNode(cid);
+      if (unixfs?.type === UNIXFS_HAMT_SHARD) {
+        throw new GatewayError(501, 'Sharded directories are not supported by the mock gateway');
+      }
+      const link = unixfs?.type === UNIXFS_DIRECTORY && node.Links.find(entry => entry.Name === segment);
+      if (!link) throw new GatewayError(404, `No link named "${segment}" under ${cid}`);
+      cid = link.Hash;
+    }
+    return cid;
+  };
+
+  const listing = (cid, path, links) => {
+    const base = escapeHTML(path.endsWith('/') ? path : `${path}/`);
+    const items = links
+      .map(link => `<li><a href="${base}${encodeURIComponent(link.Name)}">${escapeHTML(link.Name)}</a></li>`)
+      .join('');
+    return `<!doctype html><title>${cid}</title><h1>Index of ${escapeHTML(path)}</h1><ul>${items}</ul>`;
+  };
+
+  return async (req, res, { cid: cidString, path }) => {
+    try {
+      let root;
+      try {
+        root = Link.parse(cidString);
+      } catch {
+        throw new GatewayError(400, `Invalid CID: ${cidString}`);
+      }
+
+      let segments;
+      try {
+        segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+      } catch {
+        throw new GatewayError(400, `Invalid path: ${path}`);
+      }
+      const parents = [];
+      let cid = resolvePath(root, segments, parents);
+
+      res.vary('Accept');
+      if (wantsCar(req)) {
+        const scope = req.query['dag-scope'] || 'all';
+        if (!DAG_SCOPES.includes(scope)) {
+          throw new GatewayError(400, `Unsupported dag-scope "${scope}"`);
+        }
+        // Fail with a status, not a cut-off CAR, when the content is missing
+        if (cid.multihash.code !== IDENTITY_CODE) getBlock(cid);
+        await sendCar(res, root, parents, cid, scope);
+        return;
+      }
+
+      if (req.query.format === 'raw') {
+        res.type('application/vnd.ipld.raw').send(Buffer.from(getBlock(cid)));
+        return;
+      }
+
+      // Directories serve their index.html, or a listing without one
+      const { node, unixfs } = readNode(cid);
+      if (unixfs?.type === UNIXFS_DIRECTORY) {
+        const index = node.Links.find(link => link.Name === 'index.html');
+        if (!index) {
+          res.type('html').send(listing(cid, req.path, node.Links));
+          return;
+        }
+        segments.push(index.Name);
+        cid = index.Hash;
+      }
+
+      const name = req.query.filename || segments[segments.length - 1] || '';
+      res.type(extname(name) || 'application/octet-stream');
+      res.set('Cache-Control', 'public, max-age=29030400, immutable');
+      res.set('Etag', `"${cid}"`);
+      if (req.query.download === 'true') {
+        res.attachment(name || cid.toString());
+      }
+
+      for await (const chunk of fileContent(cid)) {
+        res.write(chunk);
+      }
+      res.end();
+    } catch (err) {
+      if (res.headersSent) {
+        res.destroy(err);
+      } else {
+        res.status(err.status || 500).json({ error: err.message });
+      }
+    }
+  };
+}
@@ -0,0 +1,72 @@
+// mock/identity.js - Keys for the mock service, and a ready-made backend agent
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Signer } from '@storacha/client/principal/ed25519';
+import { delegate } from '@storacha/client/delegation';
+import { encodeDelegation } from '../server/spaces.js';
+
+// The abilities `storacha delegation create` grants by default
+const BACKEND_ABILITIES = [
+  'space/*',
+  'blob/*',
+  'index/*',
+  'store/*',
+  'upload/*',
+  'access/*',
+  'filecoin/*',
+  'usage/*'
+];
+
+/**
+ * The service's signing key, kept in `dir` so receipts and attestations
+ * stay verifiable across restarts. It signs as `did` (a did:web, like the
+ * real service).
+ */
+export async function loadServiceSigner(dir, did) {
+  const keyPath = join(dir, 'service.key');
+  let signer;
+
+  if (existsSync(keyPath)) {
+    signer = Signer.parse(readFileSync(keyPath, 'utf8').trim());
+  } else {
+    signer = await Signer.generate();
+    writeFileSync(keyPath, Signer.format(signer), { mode: 0o600 });
+  }
+
+  return signer.withDID(did);
+}
+
+/**
+ * Create a provisioned space and an agent holding a delegation for it,
+ * and write them to `backend.env` in the variables server.js reads. Done
+ * once; later starts reuse the file.
+ */
+export async function seedBackend({ dir, store, service, url }) {
+  const envPath = join(dir, 'backend.env');
+  if (existsSync(envPath)) {
+    return envPath;
+  }
+
+  const agent = await Signer.generate();
+  const space = await Signer.generate();
+  const proof = await delegate({
+    issuer: space,
+    audience: agent,
+    capabilities: BACKEND_ABILITIES.map(can => ({ can, with: space.did() })),
+    expiration: Infinity
+  });
+  store.setProvision(space.did(), 'did:mailto:localhost:backend', service.did());
+
+  writeFileSync(envPath, [
+    '# Written by the mock Storacha service: credentials for its seeded space',
+    `STORACHA_SERVICE_URL=${url}`,
+    `STORACHA_SERVICE_DID=${service.did()}`,
+    `STORACHA_PRIVATE_KEY=${Signer.format(agent)}`,
+    `STORACHA_PROOF=${await encodeDelegation(proof)}`,
+    `STORACHA_STORE_PATH=${join(dir, 'agent-store.json')}`,
+    ''
+  ].join('\n'), { mode: 0o600 });
+
+  console.log(`🌱 Seeded space ${space.did()} for the backend`);
+  return envPath;
+}
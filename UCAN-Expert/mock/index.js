@@ -0,0 +1,102 @@
+// mock/index.js - Local stand-in for the Storacha service, for offline development
+import express from 'express';
+import cors from 'cors';
+import dotenv from 'dotenv';
+import { mkdirSync } from 'fs';
+import { base58btc } from 'multiformats/bases/base58';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { createMockStore, digestKey } from './store.js';
+import { createMockService } from './service.js';
+import { createGateway } from './gateway.js';
+import { loadServiceSigner, seedBackend } from './identity.js';
+
+dotenv.config();
+
+const PORT = Number(process.env.MOCK_PORT) || 8787;
+const DATA_DIR = process.env.MOCK_DATA_DIR || 'data/mock';
+const SERVICE_DID = process.env.MOCK_SERVICE_DID || 'did:web:localhost';
+const PUBLIC_URL = process.env.MOCK_PUBLIC_URL || `http://localhost:${PORT}`;
+const MAX_BLOB_SIZE = process.env.MOCK_MAX_BLOB_SIZE || '128mb';
+
+mkdirSync(DATA_DIR, { recursive: true });
+
+const store = createMockStore(DATA_DIR);
+const signer = await loadServiceSigner(DATA_DIR, SERVICE_DID);
+const service = createMockService({ signer, store, url: PUBLIC_URL });
+const serveGateway = createGateway(store);
+const backendEnv = await seedBackend({ dir: DATA_DIR, store, service: signer, url: PUBLIC_URL });
+
+const app = express();
+app.use(cors());
+
+const rawBody = express.raw({ type: () => true, limit: MAX_BLOB_SIZE });
+
+// Subdomain gateway requests: <cid>.ipfs.localhost:8787/<path>
+app.use((req, res, next) => {
+  const match = req.hostname.match(/^([a-z0-9]+)\.ipfs\./i);
+  if (!match || req.method !== 'GET') return next();
+  serveGateway(req, res, { cid: match[1], path: req.path });
+});
+
+app.get('/', (req, res) => {
+  res.json({
+    service: 'storacha-mock',
+    did: signer.did(),
+    url: PUBLIC_URL,
+    receipts: `${PUBLIC_URL}/receipt/`,
+    gateway: `${PUBLIC_URL}/ipfs/`
+  });
+});
+
+// UCAN invocations from @storacha/client, as CAR-encoded agent messages
+app.post('/', rawBody, async (req, res) => {
+  try {
+    const response = await service.handle({ headers: req.headers, body: new Uint8Array(req.body) });
+    res.set(response.headers).send(Buffer.from(response.body));
+  } catch (err) {
+    console.error('❌ Could not process invocation:', err);
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// Allocated blob uploads; the bytes must hash to the name
+app.put('/blob/:digest', rawBody, async (req, res) => {
+  const bytes = new Uint8Array(req.body);
+  const digest = await sha256.digest(bytes);
+
+  if (digestKey(digest) !== req.params.digest) {
+    return res.status(400).json({ error: 'Body does not match the allocated digest' });
+  }
+  store.writeBlob(digest, bytes);
+  res.status(200).end();
+});
+
+app.get('/blob/:digest', (req, res) => {
+  let bytes = null;
+  try {
+    bytes = store.readBlob(base58btc.decode(req.params.digest));
+  } catch {
+    // not a base58btc multihash: not found either way
+  }
+  if (!bytes) return res.status(404).json({ error: 'Blob not found' });
+  res.type('application/octet-stream').send(bytes);
+});
+
+// Receipts the upload client polls for after writing a blob
+app.get('/receipt/:task', (req, res) => {
+  const bytes = /^[a-z0-9]+$/i.test(req.params.task) && store.readReceipt(req.params.task);
+  if (!bytes) return res.status(404).json({ error: 'Receipt not found' });
+  res.type('application/vnd.ipld.car').send(bytes);
+});
+
+app.get(['/ipfs/:cid', '/ipfs/:cid/*'], (req, res) => {
+  serveGateway(req, res, { cid: req.params.cid, path: req.params[0] ?? '' });
+});
+
+app.listen(PORT, () => {
+  console.log(`🧪 Mock Storacha service on ${PUBLIC_URL}`);
+  console.log(`   Service DID: ${signer.did()}`);
+  console.log(`   Data: ${DATA_DIR}`);
+  console.log(`   Gateway: ${PUBLIC_URL}/ipfs/<cid>`);
+  console.log(`   Backend credentials: ${backendEnv} (npm run server:mock)`);
+});
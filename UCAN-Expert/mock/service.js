@@ -0,0 +1,438 @@
+// mock/service.js - UCAN handlers for the capabilities the Storacha clients invoke
+import { Delegation, Message, Receipt, isDelegation } from '@ucanto/core';
+import { CAR } from '@ucanto/transport';
+import { access, DIDResolutionError, Revoked } from '@ucanto/validator';
+import { Verifier, Absentee, ed25519 } from '@ucanto/principal';
+import * as DID from '@ipld/dag-ucan/did';
+import * as Link from 'multiformats/link';
+import * as Digest from 'multiformats/hashes/digest';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { base64 } from 'multiformats/bases/base64';
+import { base58btc } from 'multiformats/bases/base58';
+import * as SpaceBlob from '@storacha/capabilities/space/blob';
+import * as Blob from '@storacha/capabilities/blob';
+import * as HTTP from '@storacha/capabilities/http';
+import * as UCAN from '@storacha/capabilities/ucan';
+import * as Assert from '@storacha/capabilities/assert';
+import * as SpaceIndex from '@storacha/capabilities/space/index';
+import * as Upload from '@storacha/capabilities/upload';
+import * as Access from '@storacha/capabilities/access';
+import * as Provider from '@storacha/capabilities/provider';
+import * as Plan from '@storacha/capabilities/plan';
+import * as Storefront from '@storacha/capabilities/filecoin/storefront';
+import { ShardedDAGIndex } from '@storacha/blob-index';
+import { delegationsToBytes } from '@storacha/access/encoding';
+import { digestKey } from './store.js';
+
+// Email logins are confirmed on the spot; the request still expires like
+// the real one does
+const AUTHORIZATION_TTL = 15 * 60;
+const DEFAULT_PLAN = 'did:web:starter.storacha.network';
+
+const fail = (name, message) => ({ error: { name, message } });
+
+const encodeArchive = async delegation => {
+  const archive = await delegation.archive();
+  if (archive.error) throw archive.error;
+  return base64.baseEncode(archive.ok);
+};
+
+const decodeArchive = async encoded => {
+  const delegation = await Delegation.extract(base64.baseDecode(encoded));
+  if (delegation.error) throw delegation.error;
+  return delegation.ok;
+};
+
+// Receipts attached to a ucan/conclude invocation, as upload-client sends them
+const concludedReceipt = (invocation, capability) => {
+  const blocks = new Map();
+  for (const block of invocation.iterateIPLDBlocks()) {
+    blocks.set(`${block.cid}`, block);
+  }
+  return Receipt.view({ root: capability.nb.receipt, blocks }, null);
+};
+
+// A ucan/conclude invocation carrying `receipt`, for the fx of blob/add
+const conclude = async (signer, receipt) => {
+  const blocks = [...receipt.iterateIPLDBlocks()];
+  // Attached blocks must be linked from the invocation, hence the facts
+  const invocation = UCAN.conclude.invoke({
+    issuer: signer,
+    audience: signer,
+    with: signer.toDIDKey(),
+    nb: { receipt: receipt.link() },
+    expiration: Infinity,
+    facts: [{ ...blocks.map(block => block.cid) }]
+  });
+  for (const block of blocks) {
+    invocation.attach(block);
+  }
+  return invocation.delegate();
+};
+
+// The delegations an authorization rests on, from the invocation down
+function* authorizationChain(authorization) {
+  yield authorization.delegation;
+  for (const proof of authorization.proofs) {
+    yield* authorizationChain(proof);
+  }
+}
+
+// Issuers of a delegation and of every proof embedded in it
+function* issuersOf(delegation) {
+  yield delegation.issuer.did();
+  for (const proof of delegation.proofs) {
+    if (isDelegation(proof)) yield* issuersOf(proof);
+  }
+}
+
+const toUpload = ({ root, shards, insertedAt, updatedAt }) => ({
+  root: Link.parse(root),
+  shards: shards.map(shard => Link.parse(shard)),
+  insertedAt,
+  updatedAt
+});
+
+/**
+ * A Storacha-compatible UCAN service. `handle` takes a CAR-encoded agent
+ * message (the body of a POST from @storacha/client) and returns the
+ * encoded receipts.
+ *
+ * Invocations are validated like the real service does: the audience must
+ * be the service, and the proof chain must grant the capability. Session
+ * proofs for email accounts are attested by the service itself.
+ */
+export function createMockService({ signer, store, url }) {
+  const blobURL = digest => new URL(`/blob/${digestKey(digest)}`, url).toString();
+
+  const resolveDIDKey = did =>
+    did === signer.did() ? { ok: [signer.toDIDKey()] } : { error: new DIDResolutionError(did) };
+
+  const validateAuthorization = authorization => {
+    for (const delegation of authorizationChain(authorization)) {
+      if (store.isRevoked(delegation.cid.toString())) {
+        return { error: new Revoked(delegation) };
+      }
+    }
+    return { ok: {} };
+  };
+
+  /**
+   * Issue the blob/accept receipt once the bytes are in, with a location
+   * commitment the client uses to build its index
+   */
+  const acceptBlob = async ({ space, digest, size, accept }) => {
+    const hash = Digest.decode(base58btc.decode(digest));
+    const stored = store.readBlob(hash);
+    let result;
+
+    if (!stored) {
+      result = fail('AllocatedMemoryNotWrittenError', `Blob ${digestKey(hash)} was not uploaded`);
+    } else {
+      const actual = await sha256.digest(stored);
+      if (digestKey(actual) !== digestKey(hash)) {
+        result = fail('BlobDigestMismatch', `Blob ${digestKey(hash)} does not match its content`);
+      }
+    }
+
+    let fx;
+    if (!result) {
+      const site = await Assert.location.delegate({
+        issuer: signer,
+        audience: DID.parse(space),
+        with: signer.toDIDKey(),
+        nb: {
+          content: { digest: hash.bytes },
+          location: [blobURL(hash)],
+          range: { offset: 0, length: size },
+          space: DID.parse(space)
+        },
+        expiration: Infinity
+      });
+      store.addSpaceBlob(space, hash, size);
+      result = { ok: { site: site.cid } };
+      fx = { fork: [site] };
+    }
+
+    const receipt = await Receipt.issue({ issuer: signer, ran: Link.parse(accept), result, fx });
+    const message = await Message.build({ receipts: [receipt] });
+    store.saveReceipt(accept, CAR.response.encode(message).body);
+    return receipt;
+  };
+
+  const handlers = {
+    [SpaceBlob.add.can]: [SpaceBlob.add, async ({ capability, invocation }) => {
+      const space = capability.with;
+      const { digest, size } = capability.nb.blob;
+      const hash = Digest.decode(digest);
+      const stored = store.hasBlob(hash);
+
+      const allocate = await Blob.allocate.invoke({
+        issuer: signer,
+        audience: signer,
+        with: signer.did(),
+        nb: { blob: { digest, size }, cause: invocation.link(), space: DID.parse(space) },
+        expiration: Infinity
+      }).delegate();
+
+      // Blobs already on disk need no upload
+      const allocated = await Receipt.issue({
+        issuer: signer,
+        ran: allocate,
+        result: {
+          ok: stored
+            ? { size: 0 }
+            : { size, address: { url: blobURL(hash), headers: { 'content-length': String(size) }, expires: Math.floor(Date.now() / 1000) + 3600 } }
+        }
+      });
+
+      // The client signs the http/put receipt with this key once it has
+      // written the bytes
+      const putSigner = await ed25519.generate();
+      const put = await HTTP.put.invoke({
+        issuer: putSigner,
+        audience: putSigner,
+        with: putSigner.toDIDKey(),
+        nb: {
+          body: { digest, size },
+          url: { 'ucan/await': ['.out.ok.address.url', allocate.link()] },
+          headers: { 'ucan/await': ['.out.ok.address.headers', allocate.link()] }
+        },
+        facts: [{ keys: putSigner.toArchive() }],
+        expiration: Infinity
+      }).delegate();
+
+      const accept = await Blob.accept.invoke({
+        issuer: signer,
+        audience: signer,
+        with: signer.did(),
+        nb: { blob: { digest, size }, space: DID.parse(space), _put: { 'ucan/await': ['.out.ok', put.link()] } },
+        expiration: Infinity
+      }).delegate();
+
+      const allocation = { space, digest: digestKey(hash), size, accept: accept.cid.toString() };
+      const fork = [allocate, await conclude(signer, allocated), put, accept];
+
+      if (stored) {
+        const putDone = await Receipt.issue({ issuer: putSigner, ran: put, result: { ok: {} } });
+        fork.push(await conclude(signer, putDone), await conclude(signer, await acceptBlob(allocation)));
+      } else {
+        store.saveAllocation(put.cid.toString(), allocation);
+      }
+
+      return { ok: { site: { 'ucan/await': ['.out.ok.site', accept.link()] } }, fx: { fork } };
+    }],
+
+    [SpaceBlob.list.can]: [SpaceBlob.list, async ({ capability }) => {
+      const results = store.listSpaceBlobs(capability.with).map(blob => ({
+        blob: { digest: base58btc.decode(blob.digest), size: blob.size },
+        insertedAt: blob.insertedAt
+      }));
+      return { ok: { results, size: results.length } };
+    }],
+
+    [UCAN.conclude.can]: [UCAN.conclude, async ({ capability, invocation }) => {
+      const receipt = concludedReceipt(invocation, capability);
+      if (!receipt) {
+        return fail('ReceiptNotFound', 'The concluded receipt is not attached to the invocation');
+      }
+
+      const ran = isDelegation(receipt.ran) ? receipt.ran.cid : receipt.ran;
+      const allocation = receipt.out.ok ? store.takeAllocation(ran.toString()) : null;
+      if (allocation) {
+        await acceptBlob(allocation);
+      }
+      return { ok: { time: Date.now() } };
+    }],
+
+    [SpaceIndex.add.can]: [SpaceIndex.add, async ({ capability }) => {
+      const { index } = capability.nb;
+      const bytes = store.readBlob(index.multihash);
+      if (!bytes) {
+        return fail('IndexNotFound', `Index ${index} has not been stored in the space`);
+      }
+
+      const parsed = ShardedDAGIndex.extract(bytes);
+      if (parsed.error) {
+        return fail('DecodeFailure', `Index ${index} is not a sharded DAG index: ${parsed.error.message}`);
+      }
+
+      const locations = {};
+      for (const [shard, slices] of parsed.ok.shards.entries()) {
+        for (const [block, [offset, length]] of slices.entries()) {
+          locations[digestKey(block)] = [digestKey(shard), offset, length];
+        }
+      }
+      store.addIndex(capability.with, index.toString(), locations);
+      return { ok: {} };
+    }],
+
+    [Storefront.filecoinOffer.can]: [Storefront.filecoinOffer, async ({ capability }) => ({
+      ok: { piece: capability.nb.piece }
+    })],
+
+    [Upload.add.can]: [Upload.add, async ({ capability }) => {
+      const { root, shards = [] } = capability.nb;
+      const upload = store.addUpload(capability.with, root.toString(), shards.map(String));
+      return { ok: { root, shards: upload.shards.map(shard => Link.parse(shard)) } };
+    }],
+
+    [Upload.get.can]: [Upload.get, async ({ capability }) => {
+      const upload = capability.nb.root && store.getUpload(capability.with, capability.nb.root.toString());
+      return upload ? { ok: toUpload(upload) } : fail('UploadNotFound', `Upload ${capability.nb.root} not found`);
+    }],
+
+    [Upload.remove.can]: [Upload.remove, async ({ capability }) => {
+      const upload = store.removeUpload(capability.with, capability.nb.root.toString());
+      return upload ? { ok: toUpload(upload) } : fail('UploadNotFound', `Upload ${capability.nb.root} not found`);
+    }],
+
+    [Upload.list.can]: [Upload.list, async ({ capability }) => {
+      const page = store.listUploads(capability.with, capability.nb);
+      return { ok: { ...page, results: page.results.map(toUpload) } };
+    }],
+
+    // Email login without the email: the account's session proofs are
+    // issued right away, attested by the service, for access/claim to pick up
+    [Access.authorize.can]: [Access.authorize, async ({ capability, invocation }) => {
+      const { iss: account, att } = capability.nb;
+      if (!account) {
+        return fail('AccountNotFound', 'access/authorize needs an account in nb.iss');
+      }
+
+      // Both carry the request, which is how the client picks them out
+      const agent = DID.parse(capability.with);
+      const facts = [{ 'access/request': invocation.cid, 'access/confirm': invocation.cid }];
+      const session = await Delegation.delegate({
+        issuer: Absentee.from({ id: account }),
+        audience: agent,
+        capabilities: att.map(({ can }) => ({ can, with: 'ucan:*' })),
+        expiration: Infinity,
+        facts
+      });
+      const attestation = await UCAN.attest.delegate({
+        issuer: signer,
+        audience: agent,
+        with: signer.did(),
+        nb: { proof: session.cid },
+        expiration: Infinity,
+        facts
+      });
+
+      store.addDelegations(agent.did(), [await encodeArchive(session), await encodeArchive(attestation)]);
+      store.ensurePlan(account, DEFAULT_PLAN);
+      console.log(`📧 Confirmed login for ${account} on ${agent.did()}`);
+
+      return {
+        ok: {
+          request: invocation.cid,
+          expiration: Math.floor(Date.now() / 1000) + AUTHORIZATION_TTL
+        }
+      };
+    }],
+
+    [Access.claim.can]: [Access.claim, async ({ capability }) => {
+      const delegations = {};
+      for (const encoded of store.delegationsFor(capability.with)) {
+        const delegation = await decodeArchive(encoded);
+        delegations[delegation.cid.toString()] = delegationsToBytes([delegation]);
+      }
+      return { ok: { delegations } };
+    }],
+
+    [Access.delegate.can]: [Access.delegate, async ({ capability, invocation }) => {
+      const blocks = new Map();
+      for (const block of invocation.iterateIPLDBlocks()) {
+        blocks.set(`${block.cid}`, block);
+      }
+
+      for (const link of Object.values(capability.nb.delegations)) {
+        const delegation = Delegation.view({ root: link, blocks }, null);
+        if (!delegation) {
+          return fail('DelegationNotFound', `Delegation ${link} is not attached to the invocation`);
+        }
+        store.addDelegations(delegation.audience.did(), [await encodeArchive(delegation)]);
+      }
+      return { ok: {} };
+    }],
+
+    // Only a principal in the revoked UCAN's chain may revoke it
+    [UCAN.revoke.can]: [UCAN.revoke, async ({ capability, invocation }) => {
+      const blocks = new Map();
+      for (const block of invocation.iterateIPLDBlocks()) {
+        blocks.set(`${block.cid}`, block);
+      }
+
+      const delegation = Delegation.view({ root: capability.nb.ucan, blocks }, null);
+      if (!delegation) {
+        return fail('UCANNotFound', `Delegation ${capability.nb.ucan} is not attached to the invocation`);
+      }
+      if (![...issuersOf(delegation)].includes(capability.with)) {
+        return fail('UnauthorizedRevocation', `${capability.with} is not an issuer in the chain of ${delegation.cid}`);
+      }
+
+      store.revoke(delegation.cid.toString(), capability.with);
+      return { ok: { time: Date.now() } };
+    }],
+
+    [Provider.add.can]: [Provider.add, async ({ capability }) => {
+      const { provider, consumer } = capability.nb;
+      if (provider !== signer.did()) {
+        return fail('InvalidProvider', `Provider ${provider} is not ${signer.did()}`);
+      }
+      store.setProvision(consumer, capability.with, provider);
+      return { ok: {} };
+    }],
+
+    [Plan.get.can]: [Plan.get, async ({ capability }) => ({
+      ok: store.ensurePlan(capability.with, DEFAULT_PLAN)
+    })]
+  };
+
+  const execute = async invocation => {
+    const [{ can }] = invocation.capabilities;
+    const handler = handlers[can];
+
+    if (!handler) {
+      return fail('HandlerNotFound', `service does not implement {can: "${can}"}`);
+    }
+    if (invocation.audience.did() !== signer.did()) {
+      return fail('InvalidAudience', `Invocation is addressed to ${invocation.audience.did()}, not ${signer.did()}`);
+    }
+
+    const [capability, handle] = handler;
+    const authorization = await access(invocation, {
+      capability,
+      authority: signer,
+      principal: Verifier,
+      resolveDIDKey,
+      validateAuthorization
+    });
+    if (authorization.error) {
+      return fail(authorization.error.name, authorization.error.message);
+    }
+
+    try {
+      return await handle({ capability: authorization.ok.capability, invocation });
+    } catch (err) {
+      console.error(`❌ ${can} failed:`, err);
+      return fail('HandlerExecutionError', err.message);
+    }
+  };
+
+  return {
+    id: signer,
+
+    async handle({ headers, body }) {
+      const message = await CAR.request.decode({ headers, body });
+      const receipts = [];
+
+      for (const invocation of message.invocations) {
+        const { fx, ...result } = await execute(invocation);
+        receipts.push(await Receipt.issue({ issuer: signer, ran: invocation, result, fx }));
+      }
+
+      return CAR.response.encode(await Message.build({ receipts }));
+    }
+  };
+}
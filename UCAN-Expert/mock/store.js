@@ -0,0 +1,225 @@
+// mock/store.js - On-disk state for the mock Storacha service
+import { existsSync, mkdirSync, readFileSync, writeFileSync, openSync, readSync, closeSync } from 'fs';
+import { join } from 'path';
+import { base58btc } from 'multiformats/bases/base58';
+import { readJsonFile, writeJsonFileAtomic } from '../server/json-file.js';
+
+const STATE_VERSION = 1;
+
+const emptyState = () => ({
+  version: STATE_VERSION,
+  // space DID -> { account, provider, insertedAt }
+  provisions: {},
+  // account DID -> { product, updatedAt }
+  plans: {},
+  // space DID -> { digest -> { size, insertedAt } }
+  blobs: {},
+  // space DID -> { root -> { root, shards, insertedAt, updatedAt } }
+  uploads: {},
+  // space DID -> index CIDs registered with space/index/add
+  indexes: {},
+  // block multihash -> [shard multihash, offset, length]
+  locations: {},
+  // audience DID -> base64 delegation archives
+  delegations: {},
+  // http/put task CID -> blob awaiting its bytes
+  allocations: {},
+  // delegation CID -> { revokedBy, revokedAt }
+  revocations: {}
+});
+
+/**
+ * Multihash bytes as the string used for file names and state keys
+ */
+export const digestKey = digest => base58btc.encode(digest.bytes ?? digest);
+
+/**
+ * Everything the mock service keeps lives under `dir`:
+ *   state.json      provisions, uploads, delegations, revocations, block locations
+ *   blobs/<digest>  blob bytes, named by their base58btc multihash
+ *   receipts/<cid>  agent messages served by GET /receipt/<cid>
+ */
+export function createMockStore(dir) {
+  const statePath = join(dir, 'state.json');
+  const blobDir = join(dir, 'blobs');
+  const receiptDir = join(dir, 'receipts');
+  mkdirSync(blobDir, { recursive: true });
+  mkdirSync(receiptDir, { recursive: true });
+
+  const state = { ...emptyState(), ...readJsonFile(statePath, {}) };
+  const persist = () => writeJsonFileAtomic(statePath, state);
+
+  const bucket = (table, key) => (state[table][key] ??= {});
+  const blobPath = digest => join(blobDir, digestKey(digest));
+
+  return {
+    dir,
+
+    // Blobs
+
+    hasBlob(digest) {
+      return existsSync(blobPath(digest));
+    },
+
+    writeBlob(digest, bytes) {
+      writeFileSync(blobPath(digest), bytes);
+    },
+
+    /**
+     * Blob bytes, or a slice of them, or null when the blob was never written
+     */
+    readBlob(digest, offset = 0, length) {
+      const path = blobPath(digest);
+      if (!existsSync(path)) return null;
+      if (offset === 0 && length === undefined) return readFileSync(path);
+
+      const fd = openSync(path, 'r');
+      try {
+        const buffer = Buffer.alloc(length);
+        const read = readSync(fd, buffer, 0, length, offset);
+        return buffer.subarray(0, read);
+      } finally {
+        closeSync(fd);
+      }
+    },
+
+    addSpaceBlob(space, digest, size) {
+      bucket('blobs', space)[digestKey(digest)] ??= { size, insertedAt: new Date().toISOString() };
+      persist();
+    },
+
+    listSpaceBlobs(space) {
+      return Object.entries(state.blobs[space] ?? {}).map(([digest, blob]) => ({ digest, ...blob }));
+    },
+
+    // Allocations waiting for an http/put receipt
+
+    saveAllocation(putTask, allocation) {
+      state.allocations[putTask] = allocation;
+      persist();
+    },
+
+    takeAllocation(putTask) {
+      const allocation = state.allocations[putTask];
+      if (allocation) {
+        delete state.allocations[putTask];
+        persist();
+      }
+      return allocation ?? null;
+    },
+
+    // Receipts
+
+    saveReceipt(task, bytes) {
+      writeFileSync(join(receiptDir, `${task}.car`), bytes);
+    },
+
+    readReceipt(task) {
+      const path = join(receiptDir, `${task}.car`);
+      return existsSync(path) ? readFileSync(path) : null;
+    },
+
+    // Indexes and the block locations they describe
+
+    addIndex(space, index, locations) {
+      const indexes = (state.indexes[space] ??= []);
+      if (!indexes.includes(index)) indexes.push(index);
+      Object.assign(state.locations, locations);
+      persist();
+    },
+
+    findBlock(digest) {
+      const location = state.locations[digestKey(digest)];
+      return location ? { shard: location[0], offset: location[1], length: location[2] } : null;
+    },
+
+    // Uploads
+
+    addUpload(space, root, shards) {
+      const uploads = bucket('uploads', space);
+      const now = new Date().toISOString();
+      const existing = uploads[root];
+      uploads[root] = {
+        root,
+        shards: [...new Set([...(existing?.shards ?? []), ...shards])],
+        insertedAt: existing?.insertedAt ?? now,
+        updatedAt: now
+      };
+      persist();
+      return uploads[root];
+    },
+
+    getUpload(space, root) {
+      return state.uploads[space]?.[root] ?? null;
+    },
+
+    removeUpload(space, root) {
+      const upload = state.uploads[space]?.[root] ?? null;
+      if (upload) {
+        delete state.uploads[space][root];
+        persist();
+      }
+      return upload;
+    },
+
+    /**
+     * Uploads newest first, paged by position; the cursor is the index of
+     * the next entry
+     */
+    listUploads(space, { cursor, size = 25 } = {}) {
+      const all = Object.values(state.uploads[space] ?? {})
+        .sort((a, b) => b.insertedAt.localeCompare(a.insertedAt));
+      const start = Number(cursor) || 0;
+      const results = all.slice(start, start + size);
+      const end = start + results.length;
+
+      return {
+        results,
+        size: results.length,
+        before: String(start),
+        after: String(end),
+        ...(end < all.length && { cursor: String(end) })
+      };
+    },
+
+    // Access
+
+    addDelegations(audience, archives) {
+      const list = (state.delegations[audience] ??= []);
+      for (const archive of archives) {
+        if (!list.includes(archive)) list.push(archive);
+      }
+      persist();
+    },
+
+    delegationsFor(audience) {
+      return state.delegations[audience] ?? [];
+    },
+
+    revoke(cid, revokedBy) {
+      state.revocations[cid] ??= { revokedBy, revokedAt: new Date().toISOString() };
+      persist();
+    },
+
+    isRevoked(cid) {
+      return cid in state.revocations;
+    },
+
+    setProvision(space, account, provider) {
+      state.provisions[space] = { account, provider, insertedAt: new Date().toISOString() };
+      persist();
+    },
+
+    /**
+     * The account's plan, starting it on `product` if it has none: there is
+     * no billing to go through
+     */
+    ensurePlan(account, product) {
+      if (!state.plans[account]) {
+        state.plans[account] = { product, updatedAt: new Date().toISOString() };
+        persist();
+      }
+      return state.plans[account];
+    }
+  };
+}
@@ -0,0 +1,35 @@
+// scripts/admin-ucan.js - Issue a short-lived admin UCAN for the /api/admin endpoints
+//
+// Usage: ADMIN_PRIVATE_KEY=Mg... node scripts/admin-ucan.js <server-did> [ability] [ttl-seconds]
+//
+// The key's DID must be listed in the server's ADMIN_DIDS. Send the output
+// as `Authorization: Bearer <ucan>`.
+import dotenv from 'dotenv';
+import { Signer } from '@storacha/client/principal/ed25519';
+import * as DID from '@ipld/dag-ucan/did';
+import { delegate } from '@storacha/client/delegation';
+import { encodeDelegation } from '../server/spaces.js';
+
+dotenv.config();
+
+const [serverDid, ability = 'admin/read', ttl = '300'] = process.argv.slice(2);
+const privateKey = process.env.ADMIN_PRIVATE_KEY;
+
+if (!serverDid || !privateKey) {
+  console.error('Usage: ADMIN_PRIVATE_KEY=Mg... node scripts/admin-ucan.js <server-did> [ability] [ttl-seconds]');
+  console.error('   ability: admin/read (default), admin/write or admin/*');
+  process.exit(1);
+}
+
+const issuer = Signer.parse(privateKey);
+const audience = DID.parse(serverDid);
+
+const delegation = await delegate({
+  issuer,
+  audience,
+  capabilities: [{ with: serverDid, can: ability }],
+  expiration: Math.floor(Date.now() / 1000) + Number(ttl)
+});
+
+console.error(`Admin UCAN from ${issuer.did()} for ${ability}, valid ${ttl}s`);
+console.log(await encodeDelegation(delegation));
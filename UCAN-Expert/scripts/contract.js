@@ -0,0 +1,78 @@
+// scripts/contract.js - Keep the client types and server routes in step with openapi.json
+//
+// Usage: node scripts/contract.js           regenerate src/lib/api-schema.d.ts
+//        node scripts/contract.js --check   exit 1 if the types or server.js routes drifted
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import openapiTS, { astToString } from 'openapi-typescript';
+
+const root = new URL('../', import.meta.url);
+const specUrl = new URL('openapi.json', root);
+const typesUrl = new URL('src/lib/api-schema.d.ts', root);
+const serverUrl = new URL('server.js', root);
+
+const HEADER = '// Generated from openapi.json by `npm run contract:types`. Do not edit.\n\n';
+
+async function generateTypes() {
+  return HEADER + astToString(await openapiTS(specUrl));
+}
+
+/**
+ * "METHOD /path" for every route registered in server.js, with Express
+ * ":param" segments written as OpenAPI "{param}". Routers are resolved
+ * through their app.use('/prefix', router) mount.
+ */
+function serverRoutes(source) {
+  const mounts = { app: '' };
+  for (const [, prefix, router] of source.matchAll(/app\.use\('([^']+)', (\w+)\)/g)) {
+    mounts[router] = prefix;
+  }
+
+  const routes = new Set();
+  for (const [, router, method, path] of source.matchAll(/^(\w+)\.(get|post|put|patch|delete)\('([^']+)'/gm)) {
+    if (!(router in mounts) || path === '*') continue;
+    routes.add(`${method.toUpperCase()} ${mounts[router]}${path.replace(/:(\w+)/g, '{$1}')}`);
+  }
+  return routes;
+}
+
+function specRoutes(spec) {
+  const routes = new Set();
+  for (const [path, item] of Object.entries(spec.paths)) {
+    for (const method of Object.keys(item)) {
+      routes.add(`${method.toUpperCase()} ${path}`);
+    }
+  }
+  return routes;
+}
+
+const types = await generateTypes();
+
+if (!process.argv.includes('--check')) {
+  writeFileSync(typesUrl, types);
+  console.log('✅ Wrote src/lib/api-schema.d.ts');
+  process.exit(0);
+}
+
+const problems = [];
+
+if (!existsSync(typesUrl) || readFileSync(typesUrl, 'utf8') !== types) {
+  problems.push('src/lib/api-schema.d.ts is out of date with openapi.json (run npm run contract:types)');
+}
+
+const implemented = serverRoutes(readFileSync(serverUrl, 'utf8'));
+const documented = specRoutes(JSON.parse(readFileSync(specUrl, 'utf8')));
+
+for (const route of implemented) {
+  if (!documented.has(route)) problems.push(`${route} is served by server.js but missing from openapi.json`);
+}
+for (const route of documented) {
+  if (!implemented.has(route)) problems.push(`${route} is in openapi.json but not served by server.js`);
+}
+
+if (problems.length > 0) {
+  console.error('❌ API contract drift:');
+  problems.forEach(problem => console.error(`   - ${problem}`));
+  process.exit(1);
+}
+
+console.log(`✅ API contract in sync (${documented.size} operations)`);
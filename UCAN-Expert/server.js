@@ -5,10 +5,47 @@ import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import dotenv from 'dotenv';
 import * as Client from '@storacha/client';
-import { StoreMemory } from '@storacha/client/stores/memory';
 import * as Proof from '@storacha/client/proof';
 import { Signer } from '@storacha/client/principal/ed25519';
+import { Verifier } from '@storacha/client/principal';
 import * as DID from '@ipld/dag-ucan/did';
+import * as Link from 'multiformats/link';
+import {
+  loadDelegationPolicy,
+  resolveDelegationRequest,
+  resolveUploadRequest,
+  PolicyError
+} from './server/policy.js';
+import {
+  createChallengeStore,
+  requireChallenge,
+  NONCE_HEADER,
+  SIGNATURE_HEADER,
+  AGENT_HEADER
+} from './server/challenge.js';
+import { createDelegationRegistry } from './server/registry.js';
+import { requireAdmin } from './server/admin.js';
+import { createAuditLog, auditAccess } from './server/audit.js';
+import { createAgentStore } from './server/agent-store.js';
+import {
+  describeSpaces,
+  findSpace,
+  createSpaceDelegation,
+  createSpaceClient,
+  encodeDelegation
+} from './server/spaces.js';
+import { readUploadBody, createSizeLimit, toBlobLike, UploadError } from './server/upload.js';
+import { loadRateLimits, createRateLimiter, rateLimit } from './server/rate-limit.js';
+import { loadContract, createContract } from './server/contract.js';
+import { serviceOptions } from './server/service.js';
+import {
+  createUpstreamProbe,
+  createInitializer,
+  createInitRetry,
+  inspectCredentials,
+  readinessStatus,
+  earliestProofExpiry
+} from './server/health.js';
 
 // Load environment variables
 dotenv.config();
@@ -19,6 +56,13 @@ const __dirname = dirname(__filename);
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Behind a reverse proxy, TRUST_PROXY lets req.ip (used for rate limits)
+// reflect the client: "true", a hop count, or trusted addresses
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', trustProxy === 'true' || (/^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy));
+}
+
 // Serve static files from dist in production
 const isProduction = process.env.NODE_ENV === 'production';
 
@@ -28,16 +72,94 @@ if (!isProduction) {
     origin: 'http://localhost:5173',
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization']
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      NONCE_HEADER,
+      SIGNATURE_HEADER,
+      AGENT_HEADER,
+      'X-Filename'
+    ],
+    exposedHeaders: ['Retry-After']
   }));
 }
 
-// Parse JSON bodies
-app.use(express.json());
+// Parse JSON bodies. Uploads are streamed raw, and the file being uploaded
+// may itself be JSON, so the parser must not drain them first.
+const parseJson = express.json();
+app.use((req, res, next) => req.path === '/api/upload' ? next() : parseJson(req, res, next));
+
+// Validate requests and responses against openapi.json. Outside production
+// a response that drifts from the contract becomes a 500.
+const contract = createContract(loadContract(), {
+  mode: process.env.CONTRACT_VALIDATION || (isProduction ? 'warn' : 'strict')
+});
+app.use(contract.middleware());
 
 // Initialize Storacha client
 let storachaClient = null;
 
+// The agent store, shared by the client and readiness checks. One instance
+// derives an encrypted store's key once rather than on every probe.
+const agentStore = createAgentStore();
+
+// Which abilities each audience may be delegated, and for how long
+const delegationPolicy = loadDelegationPolicy();
+
+// Outstanding proof-of-possession nonces
+const challenges = createChallengeStore();
+
+// Every delegation issued, so they can be listed and revoked
+const registry = createDelegationRegistry();
+
+// Who accessed the admin endpoints, and with what result
+const auditLog = createAuditLog();
+
+// Token buckets per client IP (checked before the challenge, so signature
+// checks are limited too) and per verified agent DID
+const rateLimits = loadRateLimits();
+const limiters = {
+  challengeIp: createRateLimiter(rateLimits.delegationIp),
+  delegationIp: createRateLimiter(rateLimits.delegationIp),
+  delegationDid: createRateLimiter(rateLimits.delegationDid),
+  uploadIp: createRateLimiter(rateLimits.uploadIp),
+  uploadDid: createRateLimiter(rateLimits.uploadDid)
+};
+const byIp = req => req.ip;
+const byAgent = req => req.agentDid;
+
+const delegationGuards = [
+  rateLimit(limiters.delegationIp, byIp),
+  requireChallenge(challenges),
+  rateLimit(limiters.delegationDid, byAgent)
+];
+const uploadGuards = [
+  rateLimit(limiters.uploadIp, byIp),
+  requireChallenge(challenges, req => req.get(AGENT_HEADER)),
+  rateLimit(limiters.uploadDid, byAgent)
+];
+// Listing spaces is a read, counted against the delegation budget
+const spacesGuards = [
+  rateLimit(limiters.delegationIp, byIp),
+  requireChallenge(challenges, req => req.get(AGENT_HEADER)),
+  rateLimit(limiters.delegationDid, byAgent)
+];
+
+// Reachability of the Storacha service, cached between readiness checks
+const upstream = createUpstreamProbe();
+
+// One initialisation at a time, shared by every handler that needs the
+// client, and run in the background for readiness checks, which only
+// report on it
+const initializer = createInitializer(() => initializeStoracha(), () => !!storachaClient);
+const ensureStoracha = options => initializer.ensure(options);
+const initRetry = createInitRetry(() => ensureStoracha());
+
+// Upload proxy: per-space clients, and the CAR shard size, which bounds
+// how much of a streamed upload is held in memory at once
+const spaceClients = new Map();
+const UPLOAD_SHARD_SIZE = Number(process.env.UPLOAD_SHARD_SIZE) || 16 * 1024 * 1024;
+
 // Helper to clean and validate base64
 function cleanBase64(input) {
   if (!input) return null;
@@ -56,12 +178,22 @@ function cleanBase64(input) {
   return cleaned;
 }
 
+// Proofs to import: STORACHA_PROOF plus any comma-separated STORACHA_PROOFS
+function configuredProofs() {
+  return [process.env.STORACHA_PROOF, ...(process.env.STORACHA_PROOFS || '').split(',')]
+    .map(cleanBase64)
+    .filter(Boolean);
+}
+
 async function initializeStoracha() {
   try {
     const privateKey = process.env.STORACHA_PRIVATE_KEY;
-    const proofString = process.env.STORACHA_PROOF;
+    const proofStrings = configuredProofs();
 
-    if (!privateKey || !proofString) {
+    const store = agentStore;
+    const hasStoredAgent = !!(await store.load());
+
+    if (!hasStoredAgent && (!privateKey || proofStrings.length === 0)) {
       console.error('ERROR: STORACHA_PRIVATE_KEY and STORACHA_PROOF must be set in .env file');
       console.error('\n=== HOW TO GET THESE VALUES ===');
       console.error('1. Install Storacha CLI: npm install -g @storacha/cli');
@@ -76,39 +208,52 @@ async function initializeStoracha() {
     }
 
     console.log('Initializing Storacha backend...');
-    console.log('Private key length:', privateKey.length);
-    console.log('Proof string length:', proofString.length);
-    
-    // Clean the inputs
-    const cleanedPrivateKey = cleanBase64(privateKey);
-    const cleanedProofString = cleanBase64(proofString);
-    
-    console.log('Cleaned private key length:', cleanedPrivateKey?.length);
-    console.log('Cleaned proof length:', cleanedProofString?.length);
-    
-    if (!cleanedPrivateKey || !cleanedProofString) {
-      console.error('ERROR: Failed to clean base64 inputs');
-      return false;
+    console.log('Agent store:', store.path ? `${store.path}${store.encrypted ? ' (encrypted)' : ''}` : 'memory');
+
+    // A stored agent brings its own principal; the env key is only needed
+    // to seed a fresh store (and must match a stored one)
+    let principal;
+    if (privateKey) {
+      const cleanedPrivateKey = cleanBase64(privateKey);
+      if (!cleanedPrivateKey) {
+        console.error('ERROR: Failed to clean base64 inputs');
+        return false;
+      }
+
+      console.log('Attempting to parse private key...');
+      principal = Signer.parse(cleanedPrivateKey);
+      console.log('✅ Private key parsed successfully');
     }
 
-    // Try to parse the private key
-    console.log('Attempting to parse private key...');
-    const principal = Signer.parse(cleanedPrivateKey);
-    console.log('✅ Private key parsed successfully');
-    
-    const store = new StoreMemory();
-    storachaClient = await Client.create({ principal, store });
-    console.log('✅ Storacha client created');
-
-    // Try to parse the proof
-    console.log('Attempting to parse proof...');
-    const proof = await Proof.parse(cleanedProofString);
-    console.log('✅ Proof parsed successfully');
-    
-    const space = await storachaClient.addSpace(proof);
-    await storachaClient.setCurrentSpace(space.did());
+    const client = await Client.create({ principal, store, ...serviceOptions() });
+    console.log(`✅ Storacha client created${hasStoredAgent ? ' from stored agent' : ''}`);
+
+    // Import only proofs the store does not already hold
+    const knownProofs = new Set(client.proofs().map(proof => proof.cid.toString()));
+    for (const proofString of proofStrings) {
+      const proof = await Proof.parse(proofString);
+      if (knownProofs.has(proof.cid.toString())) {
+        continue;
+      }
+
+      const space = await client.addSpace(proof);
+      knownProofs.add(proof.cid.toString());
+      console.log(`✅ Proof imported for space: ${space.did()}`);
+    }
+
+    const spaces = client.spaces();
+    if (spaces.length === 0) {
+      throw new Error('No spaces available. Check STORACHA_PROOF.');
+    }
+
+    if (!client.currentSpace()) {
+      await client.setCurrentSpace(spaces[0].did());
+    }
 
-    console.log(`✅ Storacha initialized for space: ${space.did()}`);
+    storachaClient = client;
+    spaceClients.clear();
+    console.log(`✅ Storacha initialized with ${spaces.length} space(s), current: ${client.currentSpace()?.did()}`);
+    console.log(`   Agent DID (audience for admin UCANs): ${client.agent.did()}`);
     return true;
     
   } catch (error) {
@@ -135,19 +280,9 @@ async function initializeStoracha() {
   }
 }
 
-// Test endpoint to check environment variables (without exposing them)
-app.get('/api/env-check', (req, res) => {
-  const hasPrivateKey = !!process.env.STORACHA_PRIVATE_KEY;
-  const hasProof = !!process.env.STORACHA_PROOF;
-  
-  res.json({
-    hasPrivateKey,
-    hasProof,
-    privateKeyLength: hasPrivateKey ? process.env.STORACHA_PRIVATE_KEY.length : 0,
-    proofLength: hasProof ? process.env.STORACHA_PROOF.length : 0,
-    privateKeyStartsWith: hasPrivateKey ? process.env.STORACHA_PRIVATE_KEY.substring(0, 20) + '...' : 'N/A',
-    environment: process.env.NODE_ENV || 'development'
-  });
+// The API contract shared with the client
+app.get('/api/openapi.json', (req, res) => {
+  res.json(contract.spec);
 });
 
 // Health check
@@ -159,11 +294,92 @@ app.get('/api/health', (req, res) => {
   });
 });
 
-// Get delegation endpoint
-app.get('/api/delegation/:did', async (req, res) => {
+// Liveness: the process is up and serving requests
+app.get('/api/health/live', (req, res) => {
+  res.json({
+    status: 'ok',
+    uptime: Math.floor(process.uptime()),
+    timestamp: new Date().toISOString()
+  });
+});
+
+// Readiness: credentials, proofs and upstream are all usable. Responds 503
+// with the same report when any check fails.
+app.get('/api/health/ready', async (req, res) => {
+  let credentials = { configured: true, ok: true, error: null };
+
+  if (!storachaClient) {
+    credentials = await inspectCredentials({
+      privateKey: cleanBase64(process.env.STORACHA_PRIVATE_KEY),
+      proofs: configuredProofs(),
+      store: agentStore
+    });
+
+    // Probes never initialise the client themselves; they start the
+    // background retry and report how it is going
+    if (credentials.ok) {
+      initRetry.start();
+      const { failure } = initRetry;
+      if (failure) {
+        credentials = {
+          ...credentials,
+          ok: false,
+          error: `Client initialisation failed, retrying at ${failure.retryAt}. Check server logs.`
+        };
+      }
+    }
+  }
+
+  // The background retry may finish meanwhile, so read the client once
+  const upstreamCheck = await upstream.check();
+  const client = storachaClient;
+  const spaces = client ? describeSpaces(client) : [];
+  const status = readinessStatus({ credentials, initialised: !!client, spaces, upstream: upstreamCheck });
+
+  res.status(status === 'ready' ? 200 : 503).json({
+    ready: status === 'ready',
+    status,
+    timestamp: new Date().toISOString(),
+    agentDid: client?.agent.did() ?? null,
+    credentials,
+    proofs: {
+      expiresAt: earliestProofExpiry(spaces),
+      liveSpaces: spaces.filter(space => space.abilities.length > 0).length
+    },
+    spaces,
+    upstream: upstreamCheck
+  });
+});
+
+// Issue a proof-of-possession challenge for an agent DID
+app.post('/api/delegation/challenge', rateLimit(limiters.challengeIp, byIp), (req, res) => {
+  const did = req.body?.did;
+
+  if (typeof did !== 'string' || !did.startsWith('did:')) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid DID format. Must start with "did:"'
+    });
+  }
+
+  try {
+    Verifier.parse(did);
+  } catch {
+    return res.status(400).json({
+      success: false,
+      error: `Unsupported DID: ${did}`
+    });
+  }
+
+  const { nonce, expiresAt } = challenges.issue(did);
+  res.json({ success: true, nonce, expiresAt });
+});
+
+// Get delegation endpoint (requires a signed challenge for :did)
+app.get('/api/delegation/:did', delegationGuards, async (req, res) => {
   try {
     if (!storachaClient) {
-      const initialized = await initializeStoracha();
+      const initialized = await ensureStoracha();
       if (!initialized) {
         return res.status(500).json({ 
           success: false,
@@ -181,34 +397,66 @@ app.get('/api/delegation/:did', async (req, res) => {
       });
     }
 
-    console.log(`Creating delegation for: ${userDid}`);
+    // Requested scope: ?abilities=upload/add,space/blob/add&ttl=3600&space=<did or name>
+    const requestedAbilities = typeof req.query.abilities === 'string'
+      ? req.query.abilities.split(',').map(a => a.trim()).filter(Boolean)
+      : undefined;
+    const requestedTtl = req.query.ttl !== undefined ? Number(req.query.ttl) : undefined;
 
-    const audience = DID.parse(userDid);
-    const delegation = await storachaClient.createDelegation(audience, [
-      'space/blob/add',
-      'space/index/add',
-      'filecoin/offer',
-      'upload/add'
-    ], {
-      expiration: Math.floor(Date.now() / 1000) + (24 * 60 * 60) // 24 hours
+    const space = findSpace(storachaClient, req.query.space);
+    if (!space) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown space: ${req.query.space}`
+      });
+    }
+
+    const { abilities, denied, ttl } = resolveDelegationRequest(delegationPolicy, userDid, {
+      abilities: requestedAbilities,
+      ttl: requestedTtl,
+      space: space.did()
     });
 
-    const archive = await delegation.archive();
-    if (!archive.ok) {
-      throw new Error('Failed to create delegation archive');
+    if (denied.length > 0) {
+      console.log(`Policy denied abilities for ${userDid}: ${denied.join(', ')}`);
     }
+    console.log(`Creating delegation for: ${userDid} on ${space.did()} (${abilities.join(', ')}, ${ttl}s)`);
 
-    const space = storachaClient.currentSpace();
+    const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+    const audience = DID.parse(userDid);
+    const delegation = await createSpaceDelegation(storachaClient, space, audience, abilities, {
+      expiration: expiresAt
+    });
+
+    const encoded = await encodeDelegation(delegation);
+
+    registry.record({
+      cid: delegation.cid.toString(),
+      audience: userDid,
+      abilities,
+      expiresAt,
+      spaceDid: space.did(),
+      delegation: encoded
+    });
 
     res.json({
       success: true,
-      delegation: Buffer.from(archive.ok).toString('base64'),
-      expiresAt: Math.floor(Date.now() / 1000) + (24 * 60 * 60),
-      spaceDid: space?.did(),
-      spaceName: 'My Storage Space'
+      delegation: encoded,
+      cid: delegation.cid.toString(),
+      expiresAt,
+      abilities,
+      spaceDid: space.did(),
+      spaceName: space.name || undefined
     });
 
   } catch (error) {
+    if (error instanceof PolicyError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
     console.error('Delegation error:', error);
     res.status(500).json({ 
       success: false,
@@ -217,10 +465,184 @@ app.get('/api/delegation/:did', async (req, res) => {
   }
 });
 
-// Test setup endpoint
-app.get('/api/test-setup', async (req, res) => {
+// Upload proxy for clients that cannot run @storacha/client themselves.
+// Accepts multipart/form-data (first file part) or a raw body, streams it
+// to Storacha and requires a signed challenge for the X-Agent-DID header.
+app.post('/api/upload', uploadGuards, async (req, res) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
   try {
-    const result = await initializeStoracha();
+    if (!storachaClient) {
+      const initialized = await ensureStoracha();
+      if (!initialized) {
+        return res.status(500).json({
+          success: false,
+          error: 'Storacha backend not configured properly. Check server logs.'
+        });
+      }
+    }
+
+    const space = findSpace(storachaClient, req.query.space);
+    if (!space) {
+      return res.status(404).json({
+        success: false,
+        error: `Unknown space: ${req.query.space}`
+      });
+    }
+
+    const { maxBytes } = resolveUploadRequest(delegationPolicy, req.agentDid, space.did());
+
+    const declaredSize = Number(req.get('content-length'));
+    if (declaredSize > maxBytes) {
+      throw new UploadError(`Upload exceeds the ${maxBytes} byte limit`, 413);
+    }
+
+    const { name, stream } = await readUploadBody(req);
+    const limiter = createSizeLimit(maxBytes);
+    stream.on('error', error => limiter.destroy(error));
+    stream.pipe(limiter);
+
+    if (!spaceClients.has(space.did())) {
+      const pending = createSpaceClient(storachaClient, space);
+      spaceClients.set(space.did(), pending);
+      // Don't cache a failure; the next upload tries again
+      pending.catch(() => {
+        if (spaceClients.get(space.did()) === pending) spaceClients.delete(space.did());
+      });
+    }
+    const client = await spaceClients.get(space.did());
+
+    console.log(`📤 Proxy upload from ${req.agentDid}: ${name} -> ${space.did()}`);
+
+    // Set when the body fails mid-stream (size limit, client gone); the
+    // upload is aborted and this is reported instead of the abort error
+    let bodyFailure = null;
+    const blob = toBlobLike(name, limiter, error => {
+      bodyFailure = error;
+      controller.abort(error);
+    });
+
+    const shards = [];
+    let root;
+    try {
+      root = await client.uploadFile(blob, {
+        shardSize: UPLOAD_SHARD_SIZE,
+        signal: controller.signal,
+        onShardStored: meta => shards.push(meta.cid.toString())
+      });
+    } catch (error) {
+      throw bodyFailure ?? error;
+    }
+    if (bodyFailure) {
+      throw bodyFailure;
+    }
+
+    console.log(`✅ Proxy upload complete: ${root} (${limiter.bytes} bytes, ${shards.length} shard(s))`);
+
+    res.json({
+      success: true,
+      root: root.toString(),
+      shards,
+      size: limiter.bytes,
+      name,
+      spaceDid: space.did()
+    });
+
+  } catch (error) {
+    if (error instanceof UploadError || error instanceof PolicyError) {
+      // Discard the rest of the body so the response can be delivered
+      req.unpipe();
+      req.resume();
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    console.error('Upload proxy error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: error.message || 'Upload failed'
+      });
+    }
+  }
+});
+
+// List every space the server holds proofs for
+app.get('/api/spaces', spacesGuards, async (req, res) => {
+  try {
+    if (!storachaClient) {
+      const initialized = await ensureStoracha();
+      if (!initialized) {
+        return res.status(500).json({
+          success: false,
+          error: 'Storacha backend not configured properly. Check server logs.'
+        });
+      }
+    }
+
+    res.json({ success: true, spaces: describeSpaces(storachaClient) });
+
+  } catch (error) {
+    console.error('Spaces error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to list spaces'
+    });
+  }
+});
+
+// Public revocation check for a delegation the server issued
+app.get('/api/delegation/:cid/status', (req, res) => {
+  const record = registry.get(req.params.cid);
+
+  if (!record) {
+    return res.status(404).json({
+      success: false,
+      error: 'Unknown delegation'
+    });
+  }
+
+  res.json({
+    success: true,
+    cid: record.cid,
+    status: record.status,
+    expiresAt: record.expiresAt,
+    revokedAt: record.revokedAt
+  });
+});
+
+// Operational endpoints, under /api/admin. Callers need the admin token or
+// an admin UCAN, and every access (including rejected ones) is audited.
+const admin = express.Router();
+admin.use(auditAccess(auditLog), requireAdmin({
+  getAudience: async () => {
+    await ensureStoracha();
+    return storachaClient?.agent.did();
+  }
+}));
+
+// Which credentials are configured (never their values)
+admin.get('/env', (req, res) => {
+  res.json({
+    success: true,
+    hasPrivateKey: !!process.env.STORACHA_PRIVATE_KEY,
+    proofCount: configuredProofs().length,
+    storeEncrypted: !!process.env.STORACHA_STORE_PASSPHRASE,
+    initialized: !!storachaClient,
+    agentDid: storachaClient?.agent.did() ?? null,
+    environment: process.env.NODE_ENV || 'development'
+  });
+});
+
+// (Re-)initialise the Storacha client
+admin.post('/setup', async (req, res) => {
+  try {
+    const result = await ensureStoracha({ reinitialize: true });
     
     res.json({
       success: result,
@@ -236,6 +658,74 @@ app.get('/api/test-setup', async (req, res) => {
   }
 });
 
+// List issued delegations, e.g. ?status=live
+admin.get('/delegations', (req, res) => {
+  const delegations = registry
+    .list({ status: req.query.status })
+    .map(({ delegation, ...record }) => record);
+
+  res.json({ success: true, delegations });
+});
+
+// Revoke an issued delegation
+admin.post('/delegations/:cid/revoke', async (req, res) => {
+  try {
+    const record = registry.get(req.params.cid);
+
+    if (!record) {
+      return res.status(404).json({
+        success: false,
+        error: 'Unknown delegation'
+      });
+    }
+
+    if (record.status === 'revoked') {
+      return res.json({ success: true, delegation: record.cid, revokedAt: record.revokedAt });
+    }
+
+    if (!storachaClient) {
+      const initialized = await ensureStoracha();
+      if (!initialized) {
+        return res.status(500).json({
+          success: false,
+          error: 'Storacha backend not configured properly. Check server logs.'
+        });
+      }
+    }
+
+    console.log(`Revoking delegation ${record.cid} (audience ${record.audience})`);
+
+    // Pass the delegation itself as proof: after a restart the agent's
+    // in-memory store no longer holds it
+    const proof = await Proof.parse(record.delegation);
+    const result = await storachaClient.revokeDelegation(Link.parse(record.cid), {
+      proofs: [proof]
+    });
+
+    if (result.error) {
+      console.error('Revocation failed:', result.error);
+      return res.status(502).json({
+        success: false,
+        error: result.error.message || 'Revocation was rejected by the Storacha service'
+      });
+    }
+
+    const revoked = registry.markRevoked(record.cid);
+    console.log(`✅ Delegation revoked: ${record.cid}`);
+
+    res.json({ success: true, delegation: revoked.cid, revokedAt: revoked.revokedAt });
+
+  } catch (error) {
+    console.error('Revocation error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to revoke delegation'
+    });
+  }
+});
+
+app.use('/api/admin', admin);
+
 // Simple test without Storacha
 app.get('/api/test', (req, res) => {
   res.json({ 
@@ -270,6 +760,7 @@ app.listen(PORT, async () => {
     console.error('❌ Missing Storacha credentials in .env file');
     console.error('   STORACHA_PRIVATE_KEY:', hasPrivateKey ? '✓ Set' : '✗ Missing');
     console.error('   STORACHA_PROOF:', hasProof ? '✓ Set' : '✗ Missing');
+    console.error('   (Not needed if the agent store already holds an agent from a previous run)');
     console.error('\nRun these commands to set up:');
     console.error('1. npm install -g @storacha/cli');
     console.error('2. storacha login your-email@example.com');
@@ -280,9 +771,9 @@ app.listen(PORT, async () => {
     console.log('   Attempting to initialize Storacha...');
     
     // Don't initialize automatically - let it happen on first request
-    // This gives you time to check /api/env-check first
-    console.log('   Visit http://localhost:' + PORT + '/api/env-check to verify credentials');
-    console.log('   Visit http://localhost:' + PORT + '/api/test-setup to initialize Storacha');
+    // This gives you time to check /api/admin/env first (admin token required)
+    console.log('   GET http://localhost:' + PORT + '/api/admin/env to verify credentials');
+    console.log('   POST http://localhost:' + PORT + '/api/admin/setup to initialize Storacha');
   }
   console.log('=====================================\n');
 });
@@ -0,0 +1,181 @@
+// server.test.js - server.js against the mock Storacha service
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CarBlockIterator } from '@ipld/car/iterator';
+import * as Link from 'multiformats/link';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { createTestAgent, startBackend } from './server/testing.js';
+import { createContract, loadContract } from './server/contract.js';
+
+const ADMIN_TOKEN = 'test-admin-token';
+
+describe('server', () => {
+  let backend;
+
+  beforeAll(async () => {
+    // Responses are checked here rather than rewritten by the middleware
+    backend = await startBackend({ CONTRACT_VALIDATION: 'off', ADMIN_TOKEN });
+  }, 60_000);
+
+  afterAll(async () => {
+    await backend?.stop();
+  });
+
+  const upload = async (body, headers) => {
+    const agent = await createTestAgent(backend.url);
+    const response = await fetch(`${backend.url}/api/upload`, {
+      method: 'POST',
+      headers: { ...await agent.challengeHeaders(), ...headers },
+      body
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  describe('GET /api/health/ready', () => {
+    it('initialises in the background, reporting initialising until it is ready', async () => {
+      const statuses = [];
+      for (let i = 0; i < 50 && statuses.at(-1) !== 'ready'; i++) {
+        if (i > 0) await new Promise(resolve => setTimeout(resolve, 100));
+        const response = await fetch(`${backend.url}/api/health/ready`);
+        const report = await response.json();
+        expect(response.status).toBe(report.ready ? 200 : 503);
+        statuses.push(report.status);
+      }
+
+      expect(statuses.at(-1)).toBe('ready');
+      expect(statuses.slice(0, -1).every(status => status === 'initialising')).toBe(true);
+    });
+  });
+
+  describe('POST /api/upload', () => {
+    it('stores a raw JSON body as uploaded', async () => {
+      const body = JSON.stringify({ hello: 'world' });
+      const { status, body: result } = await upload(body, {
+        'Content-Type': 'application/json',
+        'X-Filename': 'hello.json'
+      });
+
+      expect(status).toBe(200);
+      expect(result).toMatchObject({ success: true, name: 'hello.json', size: Buffer.byteLength(body) });
+    });
+  });
+
+  describe('mock gateway', () => {
+    it('serves uploads as trustless CARs', async () => {
+      // Over one chunk, so the root is a dag-pb file node with raw leaves
+      const content = Buffer.alloc(1536 * 1024, 'verified through the mock gateway ');
+      const { body: { root } } = await upload(content, { 'Content-Type': 'text/plain', 'X-Filename': 'note.txt' });
+
+      const response = await fetch(`${backend.mockUrl}/ipfs/${root}?format=car&dag-scope=entity`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('application/vnd.ipld.car; version=1; order=dfs; dups=y');
+
+      const blocks = await CarBlockIterator.fromBytes(new Uint8Array(await response.arrayBuffer()));
+      expect((await blocks.getRoots()).map(String)).toEqual([root]);
+
+      const cids = [];
+      for await (const { cid, bytes } of blocks) {
+        expect((await sha256.digest(bytes)).bytes).toEqual(cid.multihash.bytes);
+        cids.push(cid.toString());
+      }
+      expect(cids[0]).toBe(root);
+      expect(Link.parse(root).code).toBe(0x70);
+      expect(cids).toHaveLength(3);
+    });
+
+    it('answers an Accept header for CARs, with a status for bad requests', async () => {
+      const { body: { root } } = await upload('accept', { 'Content-Type': 'text/plain' });
+
+      const response = await fetch(`${backend.mockUrl}/ipfs/${root}`, { headers: { Accept: 'application/vnd.ipld.car' } });
+      expect(response.headers.get('Content-Type')).toMatch(/^application\/vnd\.ipld\.car/);
+      await response.arrayBuffer();
+
+      expect((await fetch(`${backend.mockUrl}/ipfs/${root}?format=car&dag-scope=everything`)).status).toBe(400);
+      expect((await fetch(`${backend.mockUrl}/ipfs/${root}/%E0%A4%A`)).status).toBe(400);
+      const missing = Link.create(0x55, await sha256.digest(new TextEncoder().encode('never uploaded')));
+      expect((await fetch(`${backend.mockUrl}/ipfs/${missing}?format=car`)).status).toBe(404);
+    });
+  });
+
+  describe('API contract', () => {
+    const contract = createContract(loadContract());
+    const covered = new Set();
+
+    // Call an operation and check the real response against openapi.json
+    const call = async (method, template, path, { headers, body } = {}) => {
+      const response = await fetch(`${backend.url}${path}`, {
+        method,
+        headers: body === undefined ? headers : { 'Content-Type': 'application/json', ...headers },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+      const json = await response.json();
+
+      expect(contract.validateResponse(method, new URL(path, backend.url).pathname, response.status, json)).toBeNull();
+      covered.add(`${method} ${template}`);
+      return { status: response.status, body: json };
+    };
+
+    const admin = { Authorization: `Bearer ${ADMIN_TOKEN}` };
+
+    it('health, test and spec endpoints', async () => {
+      expect((await call('GET', '/api/health', '/api/health')).status).toBe(200);
+      expect((await call('GET', '/api/health/live', '/api/health/live')).status).toBe(200);
+      await call('GET', '/api/health/ready', '/api/health/ready');
+      expect((await call('GET', '/api/test', '/api/test')).status).toBe(200);
+      expect((await call('GET', '/api/openapi.json', '/api/openapi.json')).status).toBe(200);
+    });
+
+    it('lists spaces only for an agent that signs a challenge', async () => {
+      const agent = await createTestAgent(backend.url);
+
+      expect((await call('GET', '/api/spaces', '/api/spaces')).status).toBe(401);
+      const spaces = await call('GET', '/api/spaces', '/api/spaces', { headers: await agent.challengeHeaders() });
+      expect(spaces.status).toBe(200);
+      expect(spaces.body.spaces.length).toBeGreaterThan(0);
+    });
+
+    it('delegation endpoints', async () => {
+      const agent = await createTestAgent(backend.url);
+
+      const challenge = await call('POST', '/api/delegation/challenge', '/api/delegation/challenge', { body: { did: agent.did } });
+      expect(challenge.status).toBe(200);
+      expect((await call('POST', '/api/delegation/challenge', '/api/delegation/challenge', { body: { did: 'nope' } })).status).toBe(400);
+
+      const unsigned = await call('GET', '/api/delegation/{did}', `/api/delegation/${agent.did}`);
+      expect(unsigned.status).toBe(401);
+
+      const issued = await call('GET', '/api/delegation/{did}', `/api/delegation/${agent.did}?ttl=600`, {
+        headers: await agent.challengeHeaders()
+      });
+      expect(issued.status).toBe(200);
+
+      const status = await call('GET', '/api/delegation/{cid}/status', `/api/delegation/${issued.body.cid}/status`);
+      expect(status.status).toBe(200);
+
+      expect((await call('POST', '/api/upload', '/api/upload', { body: {} })).status).toBe(401);
+
+      expect((await call('GET', '/api/admin/delegations', '/api/admin/delegations', { headers: admin })).status).toBe(200);
+      const revoked = await call('POST', '/api/admin/delegations/{cid}/revoke', `/api/admin/delegations/${issued.body.cid}/revoke`, {
+        headers: admin
+      });
+      expect(revoked.status).toBe(200);
+
+      const unknown = 'bafyreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy';
+      expect((await call('GET', '/api/delegation/{cid}/status', `/api/delegation/${unknown}/status`)).status).toBe(404);
+      expect((await call('POST', '/api/admin/delegations/{cid}/revoke', `/api/admin/delegations/${unknown}/revoke`, {
+        headers: admin
+      })).status).toBe(404);
+    });
+
+    it('admin endpoints', async () => {
+      expect((await call('GET', '/api/admin/env', '/api/admin/env')).status).toBe(401);
+      expect((await call('GET', '/api/admin/env', '/api/admin/env', { headers: admin })).status).toBe(200);
+      expect((await call('POST', '/api/admin/setup', '/api/admin/setup', { headers: admin })).status).toBe(200);
+    });
+
+    it('covers every operation in openapi.json', () => {
+      const operations = Object.entries(contract.spec.paths)
+        .flatMap(([path, item]) => Object.keys(item).map(method => `${method.toUpperCase()} ${path}`));
+      expect([...covered].sort()).toEqual(operations.sort());
+    });
+  });
+});
@@ -0,0 +1,132 @@
+// server/admin.js - Authentication for operational endpoints
+import { createHash, timingSafeEqual } from 'crypto';
+import * as Proof from '@storacha/client/proof';
+import { Verifier } from '@storacha/client/principal';
+import * as UCAN from '@ipld/dag-ucan';
+import { abilityCovers } from './policy.js';
+
+const digest = value => createHash('sha256').update(value).digest();
+
+export class AdminAuthError extends Error {
+  constructor(message, status = 401) {
+    super(message);
+    this.name = 'AdminAuthError';
+    this.status = status;
+  }
+}
+
+/**
+ * Ability an admin UCAN must grant for a request: reads need
+ * "admin/read", anything else "admin/write" ("admin/*" covers both)
+ */
+export function adminAbility(req) {
+  return req.method === 'GET' || req.method === 'HEAD' ? 'admin/read' : 'admin/write';
+}
+
+/**
+ * Verify an admin UCAN, base64 encoded like a space proof. It must be
+ * issued directly by one of `adminDids` to the audience (the server's agent
+ * DID), carry a finite expiry and grant `ability` on the audience.
+ * `getAudience` is only called once the token is signed by an admin, so
+ * anonymous tokens never make the server initialise its agent.
+ * Returns the admin DID.
+ */
+export async function verifyAdminUcan(encoded, { adminDids, getAudience, ability }) {
+  let delegation;
+  try {
+    delegation = await Proof.parse(encoded);
+  } catch {
+    throw new AdminAuthError('Admin authentication required');
+  }
+
+  const issuer = delegation.issuer.did();
+  if (!adminDids.includes(issuer)) {
+    throw new AdminAuthError(`${issuer} is not an admin DID`, 403);
+  }
+
+  const valid = await UCAN.verifySignature(delegation.data, Verifier.parse(issuer));
+  if (!valid) {
+    throw new AdminAuthError('Admin UCAN signature is invalid');
+  }
+  if (!Number.isFinite(delegation.expiration) || UCAN.isExpired(delegation.data) || UCAN.isTooEarly(delegation.data)) {
+    throw new AdminAuthError('Admin UCAN is expired, not yet valid or has no expiry');
+  }
+
+  const audience = await getAudience();
+  if (!audience) {
+    throw new AdminAuthError('Server agent is not initialised, so admin UCANs cannot be checked. Use ADMIN_TOKEN', 503);
+  }
+  if (delegation.audience.did() !== audience) {
+    throw new AdminAuthError(`Admin UCAN must be addressed to ${audience}`);
+  }
+
+  const granted = delegation.capabilities.some(capability =>
+    capability.with === audience && abilityCovers(capability.can, ability)
+  );
+  if (!granted) {
+    throw new AdminAuthError(`Admin UCAN does not grant ${ability}`, 403);
+  }
+
+  return issuer;
+}
+
+/**
+ * Express middleware requiring either `Authorization: Bearer <ADMIN_TOKEN>`
+ * or a bearer admin UCAN issued by one of ADMIN_DIDS (comma separated) to
+ * the DID returned by `getAudience()`. Sets `req.admin` to "token" or the
+ * admin DID. Admin endpoints are disabled entirely when neither is
+ * configured.
+ */
+export function requireAdmin({
+  token = process.env.ADMIN_TOKEN,
+  adminDids = (process.env.ADMIN_DIDS || '').split(',').map(did => did.trim()).filter(Boolean),
+  getAudience = async () => undefined
+} = {}) {
+  return async (req, res, next) => {
+    if (!token && adminDids.length === 0) {
+      return res.status(503).json({
+        success: false,
+        error: 'Admin API disabled. Set ADMIN_TOKEN or ADMIN_DIDS to enable it.'
+      });
+    }
+
+    const [scheme, presented] = (req.get('authorization') || '').split(' ');
+
+    if (scheme !== 'Bearer' || !presented) {
+      return res.status(401).json({
+        success: false,
+        error: 'Admin authentication required'
+      });
+    }
+
+    // Compare digests so the comparison is constant-time regardless of length
+    if (token && timingSafeEqual(digest(presented), digest(token))) {
+      req.admin = 'token';
+      return next();
+    }
+
+    if (adminDids.length === 0) {
+      return res.status(401).json({
+        success: false,
+        error: 'Admin authentication required'
+      });
+    }
+
+    try {
+      req.admin = await verifyAdminUcan(presented, {
+        adminDids,
+        getAudience,
+        ability: adminAbility(req)
+      });
+      next();
+    } catch (error) {
+      if (error instanceof AdminAuthError) {
+        return res.status(error.status).json({
+          success: false,
+          error: error.message
+        });
+      }
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,156 @@
+// server/admin.test.js
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { Signer } from '@storacha/client/principal/ed25519';
+import { delegate } from '@storacha/client/delegation';
+import { encodeDelegation } from './spaces.js';
+import { AdminAuthError, requireAdmin, verifyAdminUcan } from './admin.js';
+
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('verifyAdminUcan', () => {
+  let admin;
+  let server;
+
+  const issue = async ({ issuer = admin, can = 'admin/read', expiration = now() + 300 } = {}) =>
+    encodeDelegation(await delegate({
+      issuer,
+      audience: server,
+      capabilities: [{ with: server.did(), can }],
+      expiration
+    }));
+
+  const verify = (encoded, { ability = 'admin/read', getAudience = vi.fn(async () => server.did()) } = {}) =>
+    verifyAdminUcan(encoded, { adminDids: [admin.did()], getAudience, ability });
+
+  const rejection = promise => promise.then(
+    () => { throw new Error('expected a rejection'); },
+    error => {
+      expect(error).toBeInstanceOf(AdminAuthError);
+      return error;
+    }
+  );
+
+  beforeAll(async () => {
+    admin = await Signer.generate();
+    server = await Signer.generate();
+  });
+
+  it('returns the admin DID for a valid UCAN', async () => {
+    const getAudience = vi.fn(async () => server.did());
+    expect(await verify(await issue(), { getAudience })).toBe(admin.did());
+    expect(getAudience).toHaveBeenCalledOnce();
+  });
+
+  it('accepts admin/* for writes', async () => {
+    expect(await verify(await issue({ can: 'admin/*' }), { ability: 'admin/write' })).toBe(admin.did());
+  });
+
+  it('rejects a malformed token without resolving the audience', async () => {
+    const getAudience = vi.fn(async () => server.did());
+    const error = await rejection(verify('not-a-ucan', { getAudience }));
+    expect(error.status).toBe(401);
+    expect(getAudience).not.toHaveBeenCalled();
+  });
+
+  it('rejects an issuer outside adminDids without resolving the audience', async () => {
+    const getAudience = vi.fn(async () => server.did());
+    const error = await rejection(verify(await issue({ issuer: await Signer.generate() }), { getAudience }));
+    expect(error.status).toBe(403);
+    expect(getAudience).not.toHaveBeenCalled();
+  });
+
+  it('rejects a token claiming an admin issuer it was not signed by', async () => {
+    const forger = await Signer.generate();
+    const impostor = {
+      did: () => admin.did(),
+      signatureAlgorithm: forger.signatureAlgorithm,
+      signatureCode: forger.signatureCode,
+      sign: payload => forger.sign(payload)
+    };
+    const getAudience = vi.fn(async () => server.did());
+
+    const error = await rejection(verify(await issue({ issuer: impostor }), { getAudience }));
+    expect(error.message).toMatch(/signature/);
+    expect(getAudience).not.toHaveBeenCalled();
+  });
+
+  it('rejects an expired token without resolving the audience', async () => {
+    const getAudience = vi.fn(async () => server.did());
+    const error = await rejection(verify(await issue({ expiration: now() - 60 }), { getAudience }));
+    expect(error.status).toBe(401);
+    expect(getAudience).not.toHaveBeenCalled();
+  });
+
+  it('rejects a token addressed to another agent', async () => {
+    const other = await Signer.generate();
+    const error = await rejection(verify(await issue(), { getAudience: async () => other.did() }));
+    expect(error.message).toMatch(other.did());
+  });
+
+  it('rejects a token that does not grant the ability', async () => {
+    const error = await rejection(verify(await issue({ can: 'admin/read' }), { ability: 'admin/write' }));
+    expect(error.status).toBe(403);
+  });
+
+  it('reports 503 when the server agent is unavailable', async () => {
+    const error = await rejection(verify(await issue(), { getAudience: async () => undefined }));
+    expect(error.status).toBe(503);
+  });
+});
+
+describe('requireAdmin', () => {
+  const request = (authorization, method = 'GET') => ({
+    method,
+    get: name => name.toLowerCase() === 'authorization' ? authorization : undefined
+  });
+
+  const response = () => {
+    const res = { statusCode: 200, body: undefined };
+    res.status = code => { res.statusCode = code; return res; };
+    res.json = body => { res.body = body; return res; };
+    return res;
+  };
+
+  const run = async (middleware, req) => {
+    const res = response();
+    const next = vi.fn();
+    await middleware(req, res, next);
+    return { res, next };
+  };
+
+  it('is disabled without a token or admin DIDs', async () => {
+    const { res, next } = await run(requireAdmin({ token: undefined, adminDids: [] }), request('Bearer x'));
+    expect(res.statusCode).toBe(503);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('accepts the configured token', async () => {
+    const req = request('Bearer secret');
+    const { next } = await run(requireAdmin({ token: 'secret', adminDids: [] }), req);
+    expect(next).toHaveBeenCalledWith();
+    expect(req.admin).toBe('token');
+  });
+
+  it('rejects a missing or wrong token', async () => {
+    const middleware = requireAdmin({ token: 'secret', adminDids: [] });
+    expect((await run(middleware, request(undefined))).res.statusCode).toBe(401);
+    expect((await run(middleware, request('Bearer nope'))).res.statusCode).toBe(401);
+  });
+
+  it('does not resolve the audience for an unknown issuer', async () => {
+    const stranger = await Signer.generate();
+    const server = await Signer.generate();
+    const encoded = await encodeDelegation(await delegate({
+      issuer: stranger,
+      audience: server,
+      capabilities: [{ with: server.did(), can: 'admin/read' }],
+      expiration: now() + 300
+    }));
+    const getAudience = vi.fn(async () => server.did());
+    const admin = await Signer.generate();
+
+    const { res } = await run(requireAdmin({ adminDids: [admin.did()], getAudience }), request(`Bearer ${encoded}`));
+    expect(res.statusCode).toBe(403);
+    expect(getAudience).not.toHaveBeenCalled();
+  });
+});
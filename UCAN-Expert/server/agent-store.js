@@ -0,0 +1,154 @@
+// server/agent-store.js - Persistent storage for the backend's agent state
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { existsSync, rmSync } from 'fs';
+import { StoreMemory } from '@storacha/client/stores/memory';
+import { readJsonFile, writeJsonFileAtomic } from './json-file.js';
+
+const FORMAT_VERSION = 1;
+const ALGORITHM = 'aes-256-gcm';
+
+// Agent data holds Maps, byte arrays and URLs, none of which survive
+// plain JSON, so tag them on the way out and rebuild them on the way in.
+// URLs are read from the holder, as toJSON() has already made them strings.
+function replacer(key, value) {
+  if (this[key] instanceof URL) return { $url: this[key].toString() };
+  if (value instanceof Map) return { $map: [...value.entries()] };
+  if (value instanceof Uint8Array) return { $bytes: Buffer.from(value).toString('base64') };
+  if (value instanceof ArrayBuffer) return { $bytes: Buffer.from(value).toString('base64') };
+  if (value?.type === 'Buffer' && Array.isArray(value.data)) {
+    return { $bytes: Buffer.from(value.data).toString('base64') };
+  }
+  return value;
+}
+
+const reviver = (key, value) => {
+  if (!value || typeof value !== 'object') return value;
+  if (value.$map) return new Map(value.$map);
+  if (typeof value.$bytes === 'string') return new Uint8Array(Buffer.from(value.$bytes, 'base64'));
+  if (value.$url) return new URL(value.$url);
+  return value;
+};
+
+/**
+ * Agent store driver that keeps the agent's principal, spaces and proofs in
+ * a JSON file. Writes are atomic; with a passphrase the payload is
+ * encrypted with AES-256-GCM under a scrypt-derived key.
+ */
+export class StoreFile {
+  #path;
+  #passphrase;
+  #salt = null;
+  #key = null;
+
+  constructor({ path, passphrase }) {
+    this.#path = path;
+    this.#passphrase = passphrase || null;
+    this.path = path;
+  }
+
+  get encrypted() {
+    return !!this.#passphrase;
+  }
+
+  async open() {}
+
+  async close() {}
+
+  async reset() {
+    if (existsSync(this.#path)) {
+      rmSync(this.#path);
+    }
+    this.#salt = null;
+    this.#key = null;
+  }
+
+  async load() {
+    const file = readJsonFile(this.#path, null);
+    if (!file) return undefined;
+
+    if (file.version !== FORMAT_VERSION) {
+      throw new Error(`Unsupported agent store version ${file.version} in ${this.#path}`);
+    }
+
+    if (!file.encryption) {
+      // A plaintext store is re-encrypted on the next save if a passphrase is set
+      return JSON.parse(JSON.stringify(file.data), reviver);
+    }
+
+    if (!this.#passphrase) {
+      throw new Error(`Agent store ${this.#path} is encrypted. Set STORACHA_STORE_PASSPHRASE to open it.`);
+    }
+
+    const { salt, iv, tag } = file.encryption;
+    const decipher = createDecipheriv(ALGORITHM, this.#deriveKey(salt), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+    let plaintext;
+    try {
+      plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final()
+      ]).toString('utf8');
+    } catch {
+      throw new Error(`Failed to decrypt agent store ${this.#path}. Wrong passphrase?`);
+    }
+
+    return JSON.parse(plaintext, reviver);
+  }
+
+  async save(data) {
+    if (!this.#passphrase) {
+      writeJsonFileAtomic(this.#path, { version: FORMAT_VERSION, encryption: null, data }, replacer);
+      return;
+    }
+
+    const salt = this.#salt ?? randomBytes(16).toString('base64');
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, this.#deriveKey(salt), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(data, replacer), 'utf8'),
+      cipher.final()
+    ]);
+
+    writeJsonFileAtomic(this.#path, {
+      version: FORMAT_VERSION,
+      encryption: {
+        algorithm: ALGORITHM,
+        kdf: 'scrypt',
+        salt,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64')
+      },
+      data: ciphertext.toString('base64')
+    });
+  }
+
+  // scrypt is deliberately slow, so derive once per salt
+  #deriveKey(salt) {
+    if (this.#salt !== salt || !this.#key) {
+      this.#key = scryptSync(this.#passphrase, Buffer.from(salt, 'base64'), 32);
+      this.#salt = salt;
+    }
+    return this.#key;
+  }
+}
+
+/**
+ * Build the agent store selected by configuration:
+ * STORACHA_STORE=file (default) or memory, STORACHA_STORE_PATH and
+ * STORACHA_STORE_PASSPHRASE for the file store.
+ */
+export function createAgentStore({
+  type = process.env.STORACHA_STORE || 'file',
+  path = process.env.STORACHA_STORE_PATH || 'data/agent-store.json',
+  passphrase = process.env.STORACHA_STORE_PASSPHRASE
+} = {}) {
+  switch (type) {
+    case 'memory':
+      return new StoreMemory();
+    case 'file':
+      return new StoreFile({ path, passphrase });
+    default:
+      throw new Error(`Unknown STORACHA_STORE "${type}". Use "file" or "memory".`);
+  }
+}
@@ -0,0 +1,124 @@
+// server/agent-store.test.js
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { scryptSync } from 'crypto';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as Client from '@storacha/client';
+import { StoreMemory } from '@storacha/client/stores/memory';
+import { StoreFile, createAgentStore } from './agent-store.js';
+
+// Count key derivations, which block the event loop
+vi.mock('crypto', async importOriginal => {
+  const crypto = await importOriginal();
+  return { ...crypto, scryptSync: vi.fn(crypto.scryptSync) };
+});
+
+const sample = () => ({
+  principal: { id: 'did:key:z6Mkexample', keys: { 'did:key:z6Mkexample': new Uint8Array([1, 2, 3]) } },
+  delegations: new Map([['bafy', { delegation: [{ cid: 'bafy', bytes: new Uint8Array([4, 5]) }] }]]),
+  meta: { name: 'agent', type: 'device' },
+  url: new URL('https://up.storacha.network')
+});
+
+describe('StoreFile', () => {
+  let dir;
+  let path;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'agent-store-'));
+    path = join(dir, 'agent.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads nothing before the first save', async () => {
+    expect(await new StoreFile({ path }).load()).toBeUndefined();
+  });
+
+  it('round-trips maps, bytes and URLs in plaintext', async () => {
+    await new StoreFile({ path }).save(sample());
+
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toMatchObject({ version: 1, encryption: null });
+    expect(await new StoreFile({ path }).load()).toEqual(sample());
+  });
+
+  it('encrypts with a passphrase and decrypts with the same one', async () => {
+    await new StoreFile({ path, passphrase: 'correct horse' }).save(sample());
+
+    const file = JSON.parse(readFileSync(path, 'utf8'));
+    expect(file.encryption).toMatchObject({ algorithm: 'aes-256-gcm', kdf: 'scrypt' });
+    expect(readFileSync(path, 'utf8')).not.toContain('z6Mkexample');
+
+    expect(await new StoreFile({ path, passphrase: 'correct horse' }).load()).toEqual(sample());
+  });
+
+  it('derives the key once per store, however often it loads', async () => {
+    await new StoreFile({ path, passphrase: 'correct horse' }).save(sample());
+    scryptSync.mockClear();
+
+    const store = new StoreFile({ path, passphrase: 'correct horse' });
+    for (let i = 0; i < 3; i++) await store.load();
+
+    expect(scryptSync).toHaveBeenCalledOnce();
+  });
+
+  it('refuses a wrong or missing passphrase', async () => {
+    await new StoreFile({ path, passphrase: 'correct horse' }).save(sample());
+
+    await expect(new StoreFile({ path, passphrase: 'battery staple' }).load()).rejects.toThrow(/Wrong passphrase/);
+    await expect(new StoreFile({ path }).load()).rejects.toThrow(/STORACHA_STORE_PASSPHRASE/);
+  });
+
+  it('detects tampered ciphertext', async () => {
+    await new StoreFile({ path, passphrase: 'correct horse' }).save(sample());
+
+    const file = JSON.parse(readFileSync(path, 'utf8'));
+    const data = Buffer.from(file.data, 'base64');
+    data[0] ^= 1;
+    writeFileSync(path, JSON.stringify({ ...file, data: data.toString('base64') }));
+
+    await expect(new StoreFile({ path, passphrase: 'correct horse' }).load()).rejects.toThrow(/Failed to decrypt/);
+  });
+
+  it('encrypts a plaintext store on the next save once a passphrase is set', async () => {
+    await new StoreFile({ path }).save(sample());
+
+    const store = new StoreFile({ path, passphrase: 'correct horse' });
+    await store.save(await store.load());
+
+    expect(JSON.parse(readFileSync(path, 'utf8')).encryption).not.toBeNull();
+    expect(await new StoreFile({ path, passphrase: 'correct horse' }).load()).toEqual(sample());
+  });
+
+  it('rejects an unknown format version', async () => {
+    writeFileSync(path, JSON.stringify({ version: 99, encryption: null, data: {} }));
+    await expect(new StoreFile({ path }).load()).rejects.toThrow(/Unsupported agent store version 99/);
+  });
+
+  it('deletes the file on reset', async () => {
+    const store = new StoreFile({ path });
+    await store.save(sample());
+    await store.reset();
+
+    expect(existsSync(path)).toBe(false);
+    expect(await store.load()).toBeUndefined();
+  });
+
+  it('restores the same agent into a new client', async () => {
+    const first = await Client.create({ store: new StoreFile({ path, passphrase: 'correct horse' }) });
+    const second = await Client.create({ store: new StoreFile({ path, passphrase: 'correct horse' }) });
+
+    expect(second.agent.did()).toBe(first.agent.did());
+  });
+});
+
+describe('createAgentStore', () => {
+  it('selects the store from configuration', () => {
+    expect(createAgentStore({ type: 'memory' })).toBeInstanceOf(StoreMemory);
+    expect(createAgentStore({ type: 'file', path: 'x.json', passphrase: 'p' })).toMatchObject({ path: 'x.json', encrypted: true });
+    expect(() => createAgentStore({ type: 'redis' })).toThrow(/Unknown STORACHA_STORE/);
+  });
+});
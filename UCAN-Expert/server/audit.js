@@ -0,0 +1,48 @@
+// server/audit.js - Append-only audit log of admin endpoint access
+import { appendFile } from 'fs/promises';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Audit log writing one JSON object per line to ADMIN_AUDIT_LOG
+ */
+export function createAuditLog(path = process.env.ADMIN_AUDIT_LOG || 'data/admin-audit.log') {
+  mkdirSync(dirname(path), { recursive: true });
+
+  // Chain writes so lines land in the order requests finished
+  let pending = Promise.resolve();
+
+  return {
+    path,
+
+    record(entry) {
+      const line = JSON.stringify({ time: new Date().toISOString(), ...entry }) + '\n';
+
+      pending = pending
+        .then(() => appendFile(path, line, { mode: 0o600 }))
+        .catch(error => console.error('❌ Failed to write audit log:', error.message));
+
+      return pending;
+    }
+  };
+}
+
+/**
+ * Express middleware recording every request it sees, including rejected
+ * ones, once the response has been sent. `req.admin` (set by requireAdmin)
+ * identifies who was authenticated.
+ */
+export function auditAccess(log) {
+  return (req, res, next) => {
+    res.on('finish', () => {
+      log.record({
+        ip: req.ip,
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        admin: req.admin ?? null,
+        status: res.statusCode
+      });
+    });
+    next();
+  };
+}
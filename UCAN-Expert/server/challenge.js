@@ -0,0 +1,121 @@
+// server/challenge.js - Proof-of-possession challenges for agent DIDs
+import { randomBytes } from 'crypto';
+import { Verifier } from '@storacha/client/principal';
+import * as Signature from '@ipld/dag-ucan/signature';
+
+export const NONCE_HEADER = 'x-challenge-nonce';
+export const SIGNATURE_HEADER = 'x-challenge-signature';
+// Identifies the caller on endpoints without a DID in the path
+export const AGENT_HEADER = 'x-agent-did';
+
+export class ChallengeError extends Error {
+  constructor(message, status = 401) {
+    super(message);
+    this.name = 'ChallengeError';
+    this.status = status;
+  }
+}
+
+/**
+ * Bytes the agent must sign. Binding the DID into the payload stops a
+ * signature for one DID being replayed as another.
+ */
+export function challengePayload(did, nonce) {
+  return new TextEncoder().encode(`storacha-delegation:${did}:${nonce}`);
+}
+
+/**
+ * In-memory store of outstanding nonces. Each nonce is bound to one DID,
+ * expires after `ttl` seconds and can only be used once.
+ */
+export function createChallengeStore({ ttl = 5 * 60 } = {}) {
+  const pending = new Map();
+
+  const prune = () => {
+    const now = Date.now();
+    for (const [nonce, entry] of pending) {
+      if (entry.expiresAt <= now) {
+        pending.delete(nonce);
+      }
+    }
+  };
+
+  return {
+    /**
+     * Issue a fresh nonce for the given DID
+     */
+    issue(did) {
+      prune();
+
+      const nonce = randomBytes(32).toString('base64url');
+      const expiresAt = Date.now() + ttl * 1000;
+      pending.set(nonce, { did, expiresAt });
+
+      return { nonce, expiresAt: Math.floor(expiresAt / 1000) };
+    },
+
+    /**
+     * Check that `signature` (base64) is the DID's signature over the
+     * nonce's challenge payload. The nonce is consumed either way.
+     */
+    async verify(did, nonce, signature) {
+      if (!nonce || !signature) {
+        throw new ChallengeError('Missing challenge nonce or signature');
+      }
+
+      const entry = pending.get(nonce);
+      pending.delete(nonce);
+
+      if (!entry || entry.expiresAt <= Date.now()) {
+        throw new ChallengeError('Unknown or expired challenge nonce');
+      }
+      if (entry.did !== did) {
+        throw new ChallengeError('Challenge nonce was issued to a different DID');
+      }
+
+      let valid = false;
+      try {
+        const verifier = Verifier.parse(did);
+        const decoded = Signature.decode(Buffer.from(signature, 'base64'));
+        valid = await verifier.verify(challengePayload(did, nonce), decoded);
+      } catch (error) {
+        throw new ChallengeError(`Could not verify signature: ${error.message}`);
+      }
+
+      if (!valid) {
+        throw new ChallengeError('Challenge signature does not match DID');
+      }
+    }
+  };
+}
+
+/**
+ * Express middleware requiring a signed challenge from the agent DID taken
+ * from `getDid(req)`. The verified DID is exposed as `req.agentDid`.
+ */
+export function requireChallenge(challenges, getDid = req => req.params.did) {
+  return async (req, res, next) => {
+    const did = getDid(req);
+
+    if (!did) {
+      return res.status(401).json({
+        success: false,
+        error: 'Missing agent DID'
+      });
+    }
+
+    try {
+      await challenges.verify(did, req.get(NONCE_HEADER), req.get(SIGNATURE_HEADER));
+      req.agentDid = did;
+      next();
+    } catch (error) {
+      if (error instanceof ChallengeError) {
+        return res.status(error.status).json({
+          success: false,
+          error: error.message
+        });
+      }
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,134 @@
+// server/challenge.test.js
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Signer } from '@storacha/client/principal/ed25519';
+import { ChallengeError, challengePayload, createChallengeStore, requireChallenge } from './challenge.js';
+
+const sign = async (signer, did, nonce) =>
+  Buffer.from(await signer.sign(challengePayload(did, nonce))).toString('base64');
+
+const rejection = promise => promise.then(
+  () => { throw new Error('expected a rejection'); },
+  error => {
+    expect(error).toBeInstanceOf(ChallengeError);
+    return error;
+  }
+);
+
+describe('createChallengeStore', () => {
+  let agent;
+
+  beforeAll(async () => {
+    agent = await Signer.generate();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts the agent signature over an issued nonce', async () => {
+    const challenges = createChallengeStore();
+    const { nonce } = challenges.issue(agent.did());
+
+    await expect(challenges.verify(agent.did(), nonce, await sign(agent, agent.did(), nonce))).resolves.toBeUndefined();
+  });
+
+  it('accepts each nonce only once', async () => {
+    const challenges = createChallengeStore();
+    const { nonce } = challenges.issue(agent.did());
+    const signature = await sign(agent, agent.did(), nonce);
+
+    await challenges.verify(agent.did(), nonce, signature);
+    const error = await rejection(challenges.verify(agent.did(), nonce, signature));
+    expect(error.message).toMatch(/Unknown or expired/);
+  });
+
+  it('rejects an expired nonce', async () => {
+    vi.useFakeTimers();
+    const challenges = createChallengeStore({ ttl: 60 });
+    const { nonce } = challenges.issue(agent.did());
+    const signature = await sign(agent, agent.did(), nonce);
+
+    vi.advanceTimersByTime(60 * 1000);
+    const error = await rejection(challenges.verify(agent.did(), nonce, signature));
+    expect(error.message).toMatch(/Unknown or expired/);
+  });
+
+  it('rejects a nonce presented for another DID', async () => {
+    const other = await Signer.generate();
+    const challenges = createChallengeStore();
+    const { nonce } = challenges.issue(agent.did());
+
+    const error = await rejection(challenges.verify(other.did(), nonce, await sign(other, other.did(), nonce)));
+    expect(error.message).toMatch(/different DID/);
+  });
+
+  it('rejects a signature by another key', async () => {
+    const other = await Signer.generate();
+    const challenges = createChallengeStore();
+    const { nonce } = challenges.issue(agent.did());
+
+    const error = await rejection(challenges.verify(agent.did(), nonce, await sign(other, agent.did(), nonce)));
+    expect(error.message).toMatch(/does not match/);
+  });
+
+  it('rejects a signature over a payload for another DID', async () => {
+    const other = await Signer.generate();
+    const challenges = createChallengeStore();
+    const { nonce } = challenges.issue(agent.did());
+
+    await rejection(challenges.verify(agent.did(), nonce, await sign(agent, other.did(), nonce)));
+  });
+
+  it('rejects missing or undecodable signatures', async () => {
+    const challenges = createChallengeStore();
+    const { nonce } = challenges.issue(agent.did());
+
+    expect((await rejection(challenges.verify(agent.did(), nonce, undefined))).message).toMatch(/Missing/);
+
+    const second = challenges.issue(agent.did());
+    expect((await rejection(challenges.verify(agent.did(), second.nonce, 'AAAA'))).message).toMatch(/Could not verify/);
+  });
+});
+
+describe('requireChallenge', () => {
+  const response = () => {
+    const res = { statusCode: 200, body: undefined };
+    res.status = code => { res.statusCode = code; return res; };
+    res.json = body => { res.body = body; return res; };
+    return res;
+  };
+
+  const request = (params, headers = {}) => ({
+    params,
+    get: name => headers[name.toLowerCase()]
+  });
+
+  it('sets req.agentDid for a valid challenge', async () => {
+    const agent = await Signer.generate();
+    const challenges = createChallengeStore();
+    const { nonce } = challenges.issue(agent.did());
+    const req = request({ did: agent.did() }, {
+      'x-challenge-nonce': nonce,
+      'x-challenge-signature': await sign(agent, agent.did(), nonce)
+    });
+    const next = vi.fn();
+
+    await requireChallenge(challenges)(req, response(), next);
+    expect(next).toHaveBeenCalledWith();
+    expect(req.agentDid).toBe(agent.did());
+  });
+
+  it('answers 401 without a DID or a valid challenge', async () => {
+    const challenges = createChallengeStore();
+    const next = vi.fn();
+
+    const missing = response();
+    await requireChallenge(challenges)(request({}), missing, next);
+    expect(missing.statusCode).toBe(401);
+
+    const unsigned = response();
+    await requireChallenge(challenges)(request({ did: 'did:key:z6Mk' }), unsigned, next);
+    expect(unsigned.statusCode).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,200 @@
+// server/contract.js - Runtime request/response validation against openapi.json
+import { readFileSync } from 'fs';
+import Ajv from 'ajv/dist/2020.js';
+
+const SPEC_ID = 'openapi';
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/**
+ * Read the OpenAPI document shared with the client (src/lib/api-schema.d.ts
+ * is generated from the same file)
+ */
+export function loadContract(path = new URL('../openapi.json', import.meta.url)) {
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+// JSON pointer into the spec, so fragments resolve their own "#/..." refs
+const pointer = segments =>
+  `${SPEC_ID}#/` + segments.map(s => String(s).replace(/~/g, '~0').replace(/\//g, '~1')).join('/');
+
+/**
+ * Compile validators for every operation in `spec`. `mode` controls
+ * response checks: "strict" replaces a non-conforming response with a 500,
+ * "warn" only logs it, "off" disables validation entirely.
+ */
+export function createContract(spec, { mode = 'strict' } = {}) {
+  const ajv = new Ajv({ strict: false, allErrors: true, validateFormats: false });
+  ajv.addSchema(spec, SPEC_ID);
+
+  // Path and query values arrive as strings; coerce copies of them
+  const coercing = new Ajv({ strict: false, allErrors: true, validateFormats: false, coerceTypes: true });
+  coercing.addSchema(spec, SPEC_ID);
+
+  const parameterValidator = (path, method, parameters, location) => {
+    const properties = {};
+    const required = [];
+
+    parameters.forEach((parameter, index) => {
+      if (parameter.in !== location) return;
+      properties[parameter.name] = { $ref: pointer(['paths', path, method, 'parameters', index, 'schema']) };
+      if (parameter.required) required.push(parameter.name);
+    });
+
+    return coercing.compile({ type: 'object', properties, required });
+  };
+
+  const operations = [];
+  for (const [path, item] of Object.entries(spec.paths)) {
+    const names = [];
+    const pattern = new RegExp('^' + path.replace(/\{(\w+)\}/g, (_, name) => {
+      names.push(name);
+      return '([^/]+)';
+    }) + '$');
+
+    for (const method of METHODS) {
+      const operation = item[method];
+      if (!operation) continue;
+
+      const parameters = operation.parameters ?? [];
+      const jsonBody = operation.requestBody?.content?.['application/json'];
+
+      operations.push({
+        path,
+        method: method.toUpperCase(),
+        pattern,
+        names,
+        templated: names.length > 0,
+        params: parameterValidator(path, method, parameters, 'path'),
+        query: parameterValidator(path, method, parameters, 'query'),
+        body: jsonBody && ajv.compile({ $ref: pointer(['paths', path, method, 'requestBody', 'content', 'application/json', 'schema']) }),
+        bodyRequired: !!operation.requestBody?.required,
+        responses: operation.responses
+      });
+    }
+  }
+
+  // Literal paths win over templates, as with Express route order
+  operations.sort((a, b) => a.templated - b.templated);
+
+  const responseValidators = new Map();
+  const responseValidator = (operation, status) => {
+    const key = `${operation.method} ${operation.path} ${status}`;
+    if (!responseValidators.has(key)) {
+      let response = operation.responses[status];
+      let ref = ['paths', operation.path, operation.method.toLowerCase(), 'responses', status];
+      if (response?.$ref) {
+        ref = response.$ref.slice(2).split('/');
+        response = ref.reduce((node, segment) => node[segment], spec);
+      }
+
+      responseValidators.set(key, response?.content?.['application/json']
+        ? ajv.compile({ $ref: pointer([...ref, 'content', 'application/json', 'schema']) })
+        : null);
+    }
+    return responseValidators.get(key);
+  };
+
+  const find = (method, path) => {
+    for (const operation of operations) {
+      const match = operation.method === method && operation.pattern.exec(path);
+      if (match) {
+        const params = Object.fromEntries(
+          operation.names.map((name, i) => [name, decodeURIComponent(match[i + 1])])
+        );
+        return { operation, params };
+      }
+    }
+    return null;
+  };
+
+  const checkRequest = ({ operation, params }, req) => {
+    if (!operation.params({ ...params })) {
+      return ajv.errorsText(operation.params.errors, { dataVar: 'path' });
+    }
+    if (!operation.query({ ...req.query })) {
+      return ajv.errorsText(operation.query.errors, { dataVar: 'query' });
+    }
+    if (operation.body) {
+      if (req.body === undefined || !req.is('application/json')) {
+        return operation.bodyRequired ? 'a JSON request body is required' : null;
+      }
+      if (!operation.body(req.body)) {
+        return ajv.errorsText(operation.body.errors, { dataVar: 'body' });
+      }
+    }
+    return null;
+  };
+
+  const checkResponse = (found, status, body) => {
+    if (!found) {
+      return 'endpoint is not described in openapi.json';
+    }
+    if (!(status in found.operation.responses)) {
+      return `status ${status} is not documented`;
+    }
+
+    const validate = responseValidator(found.operation, String(status));
+    if (validate && !validate(body)) {
+      return ajv.errorsText(validate.errors, { dataVar: 'response' });
+    }
+    return null;
+  };
+
+  return {
+    spec,
+
+    /**
+     * Why a `status` response with `body` to `method path` breaks the
+     * contract, or null when it conforms
+     */
+    validateResponse(method, path, status, body) {
+      return checkResponse(find(method, path), status, body);
+    },
+
+    /**
+     * Express middleware validating /api requests against the contract
+     * (400 on mismatch) and checking each JSON response on its way out
+     */
+    middleware() {
+      return (req, res, next) => {
+        if (mode === 'off' || !req.path.startsWith('/api/')) {
+          return next();
+        }
+
+        // Express answers HEAD with the GET handler
+        const found = find(req.method === 'HEAD' ? 'GET' : req.method, req.path);
+
+        if (found) {
+          const problem = checkRequest(found, req);
+          if (problem) {
+            return res.status(400).json({
+              success: false,
+              error: `Invalid request: ${problem}`
+            });
+          }
+        }
+
+        const json = res.json.bind(res);
+        res.json = body => {
+          const problem = checkResponse(found, res.statusCode, body);
+          if (!problem) {
+            return json(body);
+          }
+
+          console.error(`❌ Contract violation: ${req.method} ${req.path} -> ${res.statusCode}: ${problem}`);
+          if (mode !== 'strict') {
+            return json(body);
+          }
+
+          res.status(500);
+          return json({
+            success: false,
+            error: `Response does not match the API contract: ${problem}`
+          });
+        };
+
+        next();
+      };
+    }
+  };
+}
@@ -0,0 +1,190 @@
+// server/health.js - Readiness checks: credentials, proofs and upstream reachability
+import * as Proof from '@storacha/client/proof';
+import { Signer } from '@storacha/client/principal/ed25519';
+
+export const DEFAULT_SERVICE_URL = 'https://up.storacha.network';
+
+/**
+ * Probe the upstream Storacha service. Any HTTP response below 500 counts
+ * as reachable. Results are cached for `ttl` seconds so frequent readiness
+ * checks do not hammer the service.
+ */
+export function createUpstreamProbe({
+  url = process.env.STORACHA_SERVICE_URL || DEFAULT_SERVICE_URL,
+  ttl = 30,
+  timeout = 3000
+} = {}) {
+  let cached = null;
+  let pending = null;
+
+  const probe = async () => {
+    const started = Date.now();
+    try {
+      const response = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(timeout) });
+      const ok = response.status < 500;
+      return {
+        ok,
+        url,
+        latencyMs: Date.now() - started,
+        error: ok ? null : `HTTP ${response.status}`
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        url,
+        latencyMs: null,
+        error: error.cause?.code || error.message
+      };
+    }
+  };
+
+  return {
+    async check() {
+      if (cached && Date.now() - cached.at < ttl * 1000) {
+        return cached.result;
+      }
+
+      pending ??= probe().then(result => {
+        cached = { at: Date.now(), result: { ...result, checkedAt: new Date().toISOString() } };
+        pending = null;
+        return cached.result;
+      });
+      return pending;
+    }
+  };
+}
+
+/**
+ * Share one run of `initialize` (resolving true on success) between
+ * concurrent callers, so several first requests do not each build a client
+ * over the same agent store. `isReady` skips it once the client is up;
+ * `reinitialize` runs it again anyway, still joining one in progress.
+ */
+export function createInitializer(initialize, isReady) {
+  let pending = null;
+
+  return {
+    ensure({ reinitialize = false } = {}) {
+      if (isReady() && !reinitialize) return Promise.resolve(true);
+      pending ??= Promise.resolve()
+        .then(initialize)
+        .finally(() => {
+          pending = null;
+        });
+      return pending;
+    }
+  };
+}
+
+/**
+ * Run `initialize` (resolving true on success) in the background until it
+ * succeeds, doubling the delay after each failure up to `maxDelay`, so
+ * readiness checks can report on the client without initialising it
+ * themselves
+ */
+export function createInitRetry(initialize, { minDelay = 1000, maxDelay = 60_000 } = {}) {
+  let started = false;
+  let succeeded = false;
+  let delay = minDelay;
+  let failure = null;
+
+  const attempt = async () => {
+    let ok = false;
+    try {
+      ok = await initialize();
+    } catch (error) {
+      console.error('Initialisation attempt failed:', error.message);
+    }
+
+    if (ok) {
+      succeeded = true;
+      failure = null;
+      return;
+    }
+
+    failure = { retryAt: new Date(Date.now() + delay).toISOString() };
+    setTimeout(attempt, delay).unref();
+    delay = Math.min(delay * 2, maxDelay);
+  };
+
+  return {
+    /** Begin attempting, once; later calls do nothing */
+    start() {
+      if (started) return;
+      started = true;
+      attempt();
+    },
+
+    /** When the last attempt failed, when the next one is due; null otherwise */
+    get failure() {
+      return succeeded ? null : failure;
+    }
+  };
+}
+
+/**
+ * Check the configured credentials without creating a client: a stored
+ * agent, or an env key that parses plus at least one proof, all of which
+ * must parse too
+ */
+export async function inspectCredentials({ privateKey, proofs, store }) {
+  let storedAgent = false;
+  try {
+    storedAgent = !!(await store.load());
+  } catch (error) {
+    return { configured: true, ok: false, error: `Agent store: ${error.message}` };
+  }
+
+  if (!storedAgent && !privateKey && proofs.length === 0) {
+    return { configured: false, ok: false, error: null };
+  }
+
+  if (privateKey) {
+    try {
+      Signer.parse(privateKey);
+    } catch (error) {
+      return { configured: true, ok: false, error: `STORACHA_PRIVATE_KEY: ${error.message}` };
+    }
+  } else if (!storedAgent) {
+    return { configured: true, ok: false, error: 'STORACHA_PRIVATE_KEY is not set' };
+  }
+
+  if (!storedAgent && proofs.length === 0) {
+    return { configured: true, ok: false, error: 'STORACHA_PROOF is not set' };
+  }
+
+  for (const [index, proof] of proofs.entries()) {
+    try {
+      await Proof.parse(proof);
+    } catch (error) {
+      return { configured: true, ok: false, error: `Proof ${index + 1}: ${error.message}` };
+    }
+  }
+
+  return { configured: true, ok: true, error: null };
+}
+
+/**
+ * Overall readiness from the individual checks. The first failing check,
+ * in order of how fundamental it is, names the status.
+ */
+export function readinessStatus({ credentials, initialised = true, spaces, upstream }) {
+  if (!credentials.configured) return 'not-configured';
+  if (!credentials.ok) return 'credentials-invalid';
+  if (!initialised) return 'initialising';
+  if (!spaces.some(space => space.abilities.length > 0)) return 'proofs-expired';
+  if (!upstream.ok) return 'upstream-unreachable';
+  return 'ready';
+}
+
+/**
+ * Earliest expiry among spaces the agent can still use, or null when none
+ * of them expire
+ */
+export function earliestProofExpiry(spaces) {
+  const expiries = spaces
+    .filter(space => space.abilities.length > 0 && space.expiresAt !== null)
+    .map(space => space.expiresAt);
+
+  return expiries.length > 0 ? Math.min(...expiries) : null;
+}
@@ -0,0 +1,116 @@
+// server/health.test.js
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInitializer, createInitRetry, readinessStatus } from './health.js';
+
+describe('createInitializer', () => {
+  const deferred = () => {
+    let resolve;
+    const promise = new Promise(r => { resolve = r; });
+    return { promise, resolve };
+  };
+
+  it('runs once for concurrent callers, then not at all once ready', async () => {
+    let ready = false;
+    const run = deferred();
+    const initialize = vi.fn(() => run.promise.then(ok => (ready = ok)));
+    const initializer = createInitializer(initialize, () => ready);
+
+    const results = Promise.all([initializer.ensure(), initializer.ensure(), initializer.ensure()]);
+    run.resolve(true);
+
+    expect(await results).toEqual([true, true, true]);
+    expect(await initializer.ensure()).toBe(true);
+    expect(initialize).toHaveBeenCalledOnce();
+  });
+
+  it('tries again after a failure', async () => {
+    const initialize = vi.fn(async () => false);
+    const initializer = createInitializer(initialize, () => false);
+
+    expect(await initializer.ensure()).toBe(false);
+    expect(await initializer.ensure()).toBe(false);
+    expect(initialize).toHaveBeenCalledTimes(2);
+  });
+
+  it('reinitialises on request, joining a run in progress', async () => {
+    const initialize = vi.fn(async () => true);
+    const initializer = createInitializer(initialize, () => true);
+
+    await Promise.all([initializer.ensure({ reinitialize: true }), initializer.ensure({ reinitialize: true })]);
+    expect(initialize).toHaveBeenCalledOnce();
+  });
+});
+
+describe('createInitRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('does nothing until started, then attempts once per start', async () => {
+    const initialize = vi.fn(async () => true);
+    const retry = createInitRetry(initialize);
+    expect(initialize).not.toHaveBeenCalled();
+
+    retry.start();
+    retry.start();
+    await vi.runAllTimersAsync();
+
+    expect(initialize).toHaveBeenCalledOnce();
+    expect(retry.failure).toBeNull();
+  });
+
+  it('retries failures with a doubling delay up to the maximum', async () => {
+    const initialize = vi.fn(async () => false);
+    const retry = createInitRetry(initialize, { minDelay: 1000, maxDelay: 3000 });
+
+    retry.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(initialize).toHaveBeenCalledTimes(1);
+    expect(retry.failure).toEqual({ retryAt: new Date(Date.now() + 1000).toISOString() });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(initialize).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(initialize).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(initialize).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(initialize).toHaveBeenCalledTimes(4);
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(initialize).toHaveBeenCalledTimes(5);
+  });
+
+  it('treats a thrown error as a failure and stops once it succeeds', async () => {
+    const initialize = vi.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue(true);
+    const retry = createInitRetry(initialize, { minDelay: 10 });
+
+    retry.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(retry.failure).not.toBeNull();
+
+    await vi.runAllTimersAsync();
+    expect(initialize).toHaveBeenCalledTimes(2);
+    expect(retry.failure).toBeNull();
+  });
+});
+
+describe('readinessStatus', () => {
+  const credentials = { configured: true, ok: true, error: null };
+  const spaces = [{ abilities: ['upload/add'] }];
+  const upstream = { ok: true };
+
+  it('reports initialising between valid credentials and the proof checks', () => {
+    expect(readinessStatus({ credentials, initialised: false, spaces: [], upstream })).toBe('initialising');
+    expect(readinessStatus({ credentials: { ...credentials, ok: false }, initialised: false, spaces: [], upstream }))
+      .toBe('credentials-invalid');
+    expect(readinessStatus({ credentials, spaces, upstream })).toBe('ready');
+  });
+});
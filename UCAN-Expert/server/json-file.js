@@ -0,0 +1,25 @@
+// server/json-file.js - Small JSON persistence helpers
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Read and parse a JSON file, returning `fallback` when it does not exist
+ */
+export function readJsonFile(path, fallback, reviver) {
+  if (!existsSync(path)) {
+    return fallback;
+  }
+  return JSON.parse(readFileSync(path, 'utf8'), reviver);
+}
+
+/**
+ * Write JSON atomically: write a temp file next to the target, then rename
+ * it over the target so readers never see a half-written file
+ */
+export function writeJsonFileAtomic(path, data, replacer) {
+  mkdirSync(dirname(path), { recursive: true });
+
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(data, replacer, 2), { mode: 0o600 });
+  renameSync(tmpPath, path);
+}
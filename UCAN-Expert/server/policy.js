@@ -0,0 +1,156 @@
+// server/policy.js - Delegation policy (which abilities each audience may receive)
+import { existsSync, readFileSync } from 'fs';
+
+const DAY = 24 * 60 * 60;
+
+// Abilities a caller must be allowed before the server uploads on its behalf
+export const UPLOAD_ABILITIES = ['space/blob/add', 'space/index/add', 'upload/add'];
+
+// Used when no policy file is configured: the same upload abilities the
+// server always handed out, plus the read-only listing abilities.
+export const DEFAULT_POLICY = {
+  maxTtl: DAY,
+  defaultTtl: DAY,
+  maxUploadSize: 100 * 1024 * 1024,
+  defaultAbilities: [
+    'space/blob/add',
+    'space/index/add',
+    'filecoin/offer',
+    'upload/add'
+  ],
+  rules: [
+    {
+      audience: 'did:key:*',
+      abilities: [
+        'space/blob/add',
+        'space/index/add',
+        'filecoin/offer',
+        'upload/add',
+        'upload/list',
+        'upload/get',
+        'space/blob/list',
+        'space/info'
+      ]
+    }
+  ]
+};
+
+export class PolicyError extends Error {
+  constructor(message, status = 403) {
+    super(message);
+    this.name = 'PolicyError';
+    this.status = status;
+  }
+}
+
+/**
+ * Load the delegation policy from DELEGATION_POLICY_FILE (JSON), falling
+ * back to DEFAULT_POLICY when no file is configured.
+ */
+export function loadDelegationPolicy(path = process.env.DELEGATION_POLICY_FILE) {
+  if (!path) {
+    return DEFAULT_POLICY;
+  }
+
+  if (!existsSync(path)) {
+    throw new Error(`Delegation policy file not found: ${path}`);
+  }
+
+  const policy = { ...DEFAULT_POLICY, ...JSON.parse(readFileSync(path, 'utf8')) };
+
+  if (!Array.isArray(policy.rules)) {
+    throw new Error('Delegation policy must contain a "rules" array');
+  }
+
+  return policy;
+}
+
+/**
+ * Match a DID against a pattern where "*" matches any run of characters
+ */
+export function matchesPattern(pattern, value) {
+  const escaped = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`).test(value);
+}
+
+/**
+ * Check whether a granted ability (possibly a wildcard such as "upload/*"
+ * or "*") covers the requested ability
+ */
+export function abilityCovers(granted, requested) {
+  if (granted === '*' || granted === requested) {
+    return true;
+  }
+  return granted.endsWith('/*') && requested.startsWith(granted.slice(0, -1));
+}
+
+/**
+ * First rule matching the audience and space. Rules apply to every space
+ * unless they list `spaces` (DID patterns).
+ */
+function findRule(policy, audienceDid, spaceDid) {
+  const rule = policy.rules.find(r =>
+    matchesPattern(r.audience, audienceDid) &&
+    (!r.spaces || r.spaces.some(pattern => matchesPattern(pattern, spaceDid)))
+  );
+
+  if (!rule) {
+    throw new PolicyError(`No delegation policy allows audience ${audienceDid} for space ${spaceDid}`);
+  }
+  return rule;
+}
+
+/**
+ * Work out what a delegation request is actually allowed to receive.
+ * Returns the granted abilities (requested ∩ allowed) and the TTL clamped
+ * to the rule's maximum. Throws PolicyError when nothing can be granted.
+ */
+export function resolveDelegationRequest(policy, audienceDid, request = {}) {
+  const rule = findRule(policy, audienceDid, request.space);
+
+  const requested = request.abilities?.length
+    ? request.abilities
+    : policy.defaultAbilities;
+
+  const abilities = [...new Set(requested)].filter(ability =>
+    rule.abilities.some(allowed => abilityCovers(allowed, ability))
+  );
+  const denied = requested.filter(ability => !abilities.includes(ability));
+
+  if (abilities.length === 0) {
+    throw new PolicyError(`None of the requested abilities are allowed: ${denied.join(', ')}`);
+  }
+
+  const maxTtl = rule.maxTtl ?? policy.maxTtl;
+  const requestedTtl = request.ttl ?? policy.defaultTtl;
+
+  if (!Number.isInteger(requestedTtl) || requestedTtl <= 0) {
+    throw new PolicyError('TTL must be a positive number of seconds', 400);
+  }
+
+  return {
+    abilities,
+    denied,
+    ttl: Math.min(requestedTtl, maxTtl)
+  };
+}
+
+/**
+ * Check that a caller may upload to a space through the server, and return
+ * its per-request size limit in bytes
+ */
+export function resolveUploadRequest(policy, audienceDid, spaceDid) {
+  const rule = findRule(policy, audienceDid, spaceDid);
+
+  const missing = UPLOAD_ABILITIES.filter(ability =>
+    !rule.abilities.some(allowed => abilityCovers(allowed, ability))
+  );
+  if (missing.length > 0) {
+    throw new PolicyError(`Uploads not allowed for ${audienceDid}: missing ${missing.join(', ')}`);
+  }
+
+  return { maxBytes: rule.maxUploadSize ?? policy.maxUploadSize };
+}
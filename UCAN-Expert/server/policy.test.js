@@ -0,0 +1,146 @@
+// server/policy.test.js
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  DEFAULT_POLICY,
+  PolicyError,
+  abilityCovers,
+  loadDelegationPolicy,
+  matchesPattern,
+  resolveDelegationRequest,
+  resolveUploadRequest
+} from './policy.js';
+
+const DAY = 24 * 60 * 60;
+const ARCHIVE = 'did:key:z6MkArchiveSpace1';
+const SPACE = 'did:key:z6MkOtherSpace';
+const CI_AGENT = 'did:key:z6MkCiAgent1';
+const AGENT = 'did:key:z6MkAgent';
+
+// The shape of delegation-policy.example.json
+const policy = {
+  ...DEFAULT_POLICY,
+  defaultTtl: 3600,
+  rules: [
+    { audience: 'did:key:*', spaces: ['did:key:z6MkArchiveSpace*'], abilities: ['upload/list', 'upload/get'] },
+    { audience: 'did:key:z6MkCiAgent*', abilities: ['space/*', 'upload/*', 'filecoin/offer'], maxTtl: 7 * DAY, maxUploadSize: 1024 },
+    { audience: 'did:key:*', abilities: ['space/blob/add', 'space/index/add', 'upload/add', 'upload/list'] }
+  ]
+};
+
+const rejection = fn => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(PolicyError);
+    return error;
+  }
+  throw new Error('expected a PolicyError');
+};
+
+describe('matchesPattern and abilityCovers', () => {
+  it('treats * as any run of characters and everything else literally', () => {
+    expect(matchesPattern('did:key:*', AGENT)).toBe(true);
+    expect(matchesPattern('did:key:z6Mk.gent', AGENT)).toBe(false);
+    expect(matchesPattern('did:web:*', AGENT)).toBe(false);
+  });
+
+  it('covers an ability exactly, by namespace or by "*"', () => {
+    expect(abilityCovers('upload/add', 'upload/add')).toBe(true);
+    expect(abilityCovers('upload/*', 'upload/list')).toBe(true);
+    expect(abilityCovers('upload/*', 'space/info')).toBe(false);
+    expect(abilityCovers('*', 'space/info')).toBe(true);
+  });
+});
+
+describe('resolveDelegationRequest', () => {
+  it('grants the default abilities the first matching rule allows', () => {
+    const grant = resolveDelegationRequest(policy, AGENT, { space: SPACE });
+
+    expect(grant).toEqual({
+      abilities: ['space/blob/add', 'space/index/add', 'upload/add'],
+      denied: ['filecoin/offer'],
+      ttl: 3600
+    });
+  });
+
+  it('applies the first rule for the space, not the broadest one', () => {
+    const grant = resolveDelegationRequest(policy, AGENT, { space: ARCHIVE, abilities: ['upload/list', 'upload/add'] });
+
+    expect(grant.abilities).toEqual(['upload/list']);
+    expect(grant.denied).toEqual(['upload/add']);
+  });
+
+  it('expands wildcard abilities for a matching audience', () => {
+    const grant = resolveDelegationRequest(policy, CI_AGENT, { space: SPACE, abilities: ['upload/remove', 'space/info'] });
+
+    expect(grant.abilities).toEqual(['upload/remove', 'space/info']);
+  });
+
+  it('clamps the TTL to the rule maximum, falling back to the policy maximum', () => {
+    expect(resolveDelegationRequest(policy, CI_AGENT, { space: SPACE, ttl: 30 * DAY }).ttl).toBe(7 * DAY);
+    expect(resolveDelegationRequest(policy, AGENT, { space: SPACE, ttl: 30 * DAY }).ttl).toBe(DAY);
+    expect(resolveDelegationRequest(policy, AGENT, { space: SPACE, ttl: 60 }).ttl).toBe(60);
+  });
+
+  it.each([0, -5, 1.5, NaN])('rejects a TTL of %s with 400', ttl => {
+    expect(rejection(() => resolveDelegationRequest(policy, AGENT, { space: SPACE, ttl })).status).toBe(400);
+  });
+
+  it('refuses with 403 when no requested ability is allowed', () => {
+    const error = rejection(() => resolveDelegationRequest(policy, AGENT, { space: SPACE, abilities: ['space/info'] }));
+
+    expect(error.status).toBe(403);
+    expect(error.message).toMatch(/space\/info/);
+  });
+
+  it('refuses an audience no rule matches', () => {
+    expect(rejection(() => resolveDelegationRequest(policy, 'did:web:example.com', { space: SPACE })).message)
+      .toMatch(/No delegation policy allows audience did:web:example.com/);
+  });
+});
+
+describe('resolveUploadRequest', () => {
+  it('returns the rule size limit, or the policy one', () => {
+    expect(resolveUploadRequest(policy, CI_AGENT, SPACE)).toEqual({ maxBytes: 1024 });
+    expect(resolveUploadRequest(policy, AGENT, SPACE)).toEqual({ maxBytes: DEFAULT_POLICY.maxUploadSize });
+  });
+
+  it('refuses a rule without every upload ability', () => {
+    expect(rejection(() => resolveUploadRequest(policy, AGENT, ARCHIVE)).message)
+      .toMatch(/missing space\/blob\/add, space\/index\/add, upload\/add/);
+  });
+});
+
+describe('loadDelegationPolicy', () => {
+  let dir;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  const writePolicy = contents => {
+    dir = mkdtempSync(join(tmpdir(), 'policy-'));
+    const path = join(dir, 'policy.json');
+    writeFileSync(path, JSON.stringify(contents));
+    return path;
+  };
+
+  it('uses the default policy without a file', () => {
+    expect(loadDelegationPolicy('')).toBe(DEFAULT_POLICY);
+  });
+
+  it('fills unset fields from the default policy', () => {
+    const loaded = loadDelegationPolicy(writePolicy({ maxTtl: 60, rules: [] }));
+
+    expect(loaded).toMatchObject({ maxTtl: 60, defaultTtl: DEFAULT_POLICY.defaultTtl, rules: [] });
+  });
+
+  it('rejects a missing file or one without rules', () => {
+    expect(() => loadDelegationPolicy('/nonexistent/policy.json')).toThrow(/not found/);
+    expect(() => loadDelegationPolicy(writePolicy({ rules: {} }))).toThrow(/"rules" array/);
+  });
+});
@@ -0,0 +1,124 @@
+// server/rate-limit.js - Token-bucket rate limits per client IP and agent DID
+
+// Buckets idle for this long have refilled completely and are dropped
+const PRUNE_INTERVAL = 60 * 1000;
+
+// "<requests>/<seconds>", e.g. "10/60" allows bursts of 10 and refills
+// 10 tokens per minute. "off" disables the limit.
+export const DEFAULT_RATE_LIMITS = {
+  RATE_LIMIT_DELEGATION_IP: '30/60',
+  RATE_LIMIT_DELEGATION_DID: '10/60',
+  RATE_LIMIT_UPLOAD_IP: '60/60',
+  RATE_LIMIT_UPLOAD_DID: '30/60'
+};
+
+/**
+ * Parse a "<requests>/<seconds>" limit. Returns null for "off".
+ */
+export function parseRateLimit(value) {
+  if (value === 'off') {
+    return null;
+  }
+
+  const match = /^(\d+)\/(\d+)$/.exec(value ?? '');
+  const burst = Number(match?.[1]);
+  const seconds = Number(match?.[2]);
+
+  if (!match || burst <= 0 || seconds <= 0) {
+    throw new Error(`Invalid rate limit "${value}". Expected "<requests>/<seconds>" or "off"`);
+  }
+
+  return { burst, refillPerSecond: burst / seconds };
+}
+
+/**
+ * Read each limit from the environment, falling back to DEFAULT_RATE_LIMITS
+ */
+export function loadRateLimits(env = process.env) {
+  const limit = name => parseRateLimit(env[name] || DEFAULT_RATE_LIMITS[name]);
+
+  return {
+    delegationIp: limit('RATE_LIMIT_DELEGATION_IP'),
+    delegationDid: limit('RATE_LIMIT_DELEGATION_DID'),
+    uploadIp: limit('RATE_LIMIT_UPLOAD_IP'),
+    uploadDid: limit('RATE_LIMIT_UPLOAD_DID')
+  };
+}
+
+/**
+ * In-memory token buckets, one per key. `take(key)` spends a token and
+ * returns 0, or returns the seconds until a token will be available.
+ * A null config never limits.
+ */
+export function createRateLimiter(config) {
+  const buckets = new Map();
+  let prunedAt = Date.now();
+
+  const refill = (bucket, now) => {
+    const elapsed = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(config.burst, bucket.tokens + elapsed * config.refillPerSecond);
+    bucket.updatedAt = now;
+  };
+
+  const prune = now => {
+    if (now - prunedAt < PRUNE_INTERVAL) {
+      return;
+    }
+    prunedAt = now;
+
+    for (const [key, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= config.burst) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  return {
+    take(key) {
+      if (!config) {
+        return 0;
+      }
+
+      const now = Date.now();
+      prune(now);
+
+      let bucket = buckets.get(key);
+      if (bucket) {
+        refill(bucket, now);
+      } else {
+        bucket = { tokens: config.burst, updatedAt: now };
+        buckets.set(key, bucket);
+      }
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return 0;
+      }
+
+      return Math.ceil((1 - bucket.tokens) / config.refillPerSecond);
+    }
+  };
+}
+
+/**
+ * Express middleware spending a token from `limiter` for the key returned
+ * by `getKey(req)`. Requests without a key are not limited here.
+ */
+export function rateLimit(limiter, getKey) {
+  return (req, res, next) => {
+    const key = getKey(req);
+    const retryAfter = key ? limiter.take(key) : 0;
+
+    if (retryAfter > 0) {
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({
+        success: false,
+        error: `Too many requests. Retry after ${retryAfter} seconds`,
+        retryAfter
+      });
+    }
+
+    next();
+  };
+}
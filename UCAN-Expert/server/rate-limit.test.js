@@ -0,0 +1,102 @@
+// server/rate-limit.test.js
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RATE_LIMITS, createRateLimiter, loadRateLimits, parseRateLimit, rateLimit } from './rate-limit.js';
+
+describe('parseRateLimit', () => {
+  it('parses "<requests>/<seconds>" and "off"', () => {
+    expect(parseRateLimit('10/60')).toEqual({ burst: 10, refillPerSecond: 10 / 60 });
+    expect(parseRateLimit('off')).toBeNull();
+  });
+
+  it.each(['', '10', '0/60', '10/0', 'ten/60', '-1/60'])('rejects %j', value => {
+    expect(() => parseRateLimit(value)).toThrow(/Invalid rate limit/);
+  });
+});
+
+describe('loadRateLimits', () => {
+  it('falls back to the defaults for unset limits', () => {
+    const limits = loadRateLimits({ RATE_LIMIT_UPLOAD_DID: 'off' });
+
+    expect(limits.uploadDid).toBeNull();
+    expect(limits.delegationIp).toEqual(parseRateLimit(DEFAULT_RATE_LIMITS.RATE_LIMIT_DELEGATION_IP));
+  });
+});
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows a burst, then reports the seconds until the next token', () => {
+    const limiter = createRateLimiter(parseRateLimit('3/60'));
+
+    expect([limiter.take('a'), limiter.take('a'), limiter.take('a')]).toEqual([0, 0, 0]);
+    expect(limiter.take('a')).toBe(20);
+  });
+
+  it('refills over time up to the burst', () => {
+    const limiter = createRateLimiter(parseRateLimit('2/10'));
+    limiter.take('a');
+    limiter.take('a');
+
+    vi.advanceTimersByTime(5000);
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBeGreaterThan(0);
+
+    vi.advanceTimersByTime(60_000);
+    expect([limiter.take('a'), limiter.take('a'), limiter.take('a')]).toEqual([0, 0, 5]);
+  });
+
+  it('keeps a bucket per key', () => {
+    const limiter = createRateLimiter(parseRateLimit('1/60'));
+
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBeGreaterThan(0);
+    expect(limiter.take('b')).toBe(0);
+  });
+
+  it('never limits without a config', () => {
+    const limiter = createRateLimiter(null);
+    for (let i = 0; i < 100; i++) {
+      expect(limiter.take('a')).toBe(0);
+    }
+  });
+});
+
+describe('rateLimit', () => {
+  const response = () => {
+    const res = { statusCode: 200, headers: {}, body: undefined };
+    res.set = (name, value) => { res.headers[name] = value; return res; };
+    res.status = code => { res.statusCode = code; return res; };
+    res.json = body => { res.body = body; return res; };
+    return res;
+  };
+
+  it('answers 429 with Retry-After once the bucket is empty', () => {
+    const middleware = rateLimit(createRateLimiter(parseRateLimit('1/30')), req => req.ip);
+    const next = vi.fn();
+
+    middleware({ ip: '10.0.0.1' }, response(), next);
+    expect(next).toHaveBeenCalledOnce();
+
+    const res = response();
+    middleware({ ip: '10.0.0.1' }, res, next);
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe('30');
+    expect(res.body).toMatchObject({ success: false, retryAfter: 30 });
+    expect(next).toHaveBeenCalledOnce();
+  });
+
+  it('passes requests without a key', () => {
+    const middleware = rateLimit(createRateLimiter(parseRateLimit('1/30')), () => undefined);
+    const next = vi.fn();
+
+    middleware({}, response(), next);
+    middleware({}, response(), next);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,77 @@
+// server/registry.js - Persistent record of every delegation the server issues
+import { readJsonFile, writeJsonFileAtomic } from './json-file.js';
+
+/**
+ * Status of an issued delegation at time `now` (unix seconds)
+ */
+export function delegationStatus(record, now = Math.floor(Date.now() / 1000)) {
+  if (record.revokedAt) return 'revoked';
+  if (record.expiresAt <= now) return 'expired';
+  return 'live';
+}
+
+/**
+ * File-backed registry of issued delegations, keyed by delegation CID.
+ * Each record keeps the encoded delegation so it can be revoked after a
+ * restart, when the agent no longer holds it in memory.
+ */
+export function createDelegationRegistry(path = process.env.DELEGATION_REGISTRY_FILE || 'data/delegations.json') {
+  const records = new Map(
+    readJsonFile(path, []).map(record => [record.cid, record])
+  );
+
+  const persist = () => writeJsonFileAtomic(path, [...records.values()]);
+
+  const withStatus = record => ({ ...record, status: delegationStatus(record) });
+
+  return {
+    /**
+     * Record a newly issued delegation
+     */
+    record({ cid, audience, abilities, expiresAt, spaceDid, delegation }) {
+      const record = {
+        cid,
+        audience,
+        abilities,
+        expiresAt,
+        spaceDid,
+        issuedAt: Math.floor(Date.now() / 1000),
+        revokedAt: null,
+        delegation
+      };
+      records.set(cid, record);
+      persist();
+      return withStatus(record);
+    },
+
+    /**
+     * Look up a delegation by CID
+     */
+    get(cid) {
+      const record = records.get(cid);
+      return record ? withStatus(record) : null;
+    },
+
+    /**
+     * List issued delegations, newest first, optionally filtered by status
+     */
+    list({ status } = {}) {
+      return [...records.values()]
+        .map(withStatus)
+        .filter(record => !status || record.status === status)
+        .sort((a, b) => b.issuedAt - a.issuedAt);
+    },
+
+    /**
+     * Mark a delegation as revoked
+     */
+    markRevoked(cid) {
+      const record = records.get(cid);
+      if (!record) return null;
+
+      record.revokedAt = Math.floor(Date.now() / 1000);
+      persist();
+      return withStatus(record);
+    }
+  };
+}
@@ -0,0 +1,95 @@
+// server/registry.test.js
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createDelegationRegistry, delegationStatus } from './registry.js';
+
+const NOW = 1_700_000_000;
+
+describe('delegationStatus', () => {
+  it('reports revoked before expired, and live until the expiry second', () => {
+    expect(delegationStatus({ expiresAt: NOW + 1, revokedAt: null }, NOW)).toBe('live');
+    expect(delegationStatus({ expiresAt: NOW, revokedAt: null }, NOW)).toBe('expired');
+    expect(delegationStatus({ expiresAt: NOW - 1, revokedAt: NOW - 5 }, NOW)).toBe('revoked');
+  });
+});
+
+describe('createDelegationRegistry', () => {
+  let dir;
+  let path;
+
+  const issue = (registry, cid, ttl = 60) => registry.record({
+    cid,
+    audience: 'did:key:z6MkAgent',
+    abilities: ['upload/add'],
+    expiresAt: Math.floor(Date.now() / 1000) + ttl,
+    spaceDid: 'did:key:z6MkSpace',
+    delegation: `encoded-${cid}`
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW * 1000);
+    dir = mkdtempSync(join(tmpdir(), 'registry-'));
+    path = join(dir, 'delegations.json');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records delegations as live and looks them up by CID', () => {
+    const registry = createDelegationRegistry(path);
+
+    expect(issue(registry, 'bafy1')).toMatchObject({ cid: 'bafy1', issuedAt: NOW, revokedAt: null, status: 'live' });
+    expect(registry.get('bafy1')).toMatchObject({ delegation: 'encoded-bafy1', status: 'live' });
+    expect(registry.get('bafy-unknown')).toBeNull();
+  });
+
+  it('revokes a delegation and reports it as revoked', () => {
+    const registry = createDelegationRegistry(path);
+    issue(registry, 'bafy1');
+
+    vi.advanceTimersByTime(5000);
+    expect(registry.markRevoked('bafy1')).toMatchObject({ revokedAt: NOW + 5, status: 'revoked' });
+    expect(registry.get('bafy1').status).toBe('revoked');
+    expect(registry.markRevoked('bafy-unknown')).toBeNull();
+  });
+
+  it('reports a delegation as expired once its expiry passes', () => {
+    const registry = createDelegationRegistry(path);
+    issue(registry, 'bafy1', 60);
+
+    vi.advanceTimersByTime(60_000);
+    expect(registry.get('bafy1').status).toBe('expired');
+  });
+
+  it('lists newest first, filtered by status', () => {
+    const registry = createDelegationRegistry(path);
+    issue(registry, 'bafy1', 10);
+    vi.advanceTimersByTime(1000);
+    issue(registry, 'bafy2');
+    vi.advanceTimersByTime(1000);
+    issue(registry, 'bafy3');
+    registry.markRevoked('bafy3');
+    vi.advanceTimersByTime(10_000);
+
+    expect(registry.list().map(record => record.cid)).toEqual(['bafy3', 'bafy2', 'bafy1']);
+    expect(registry.list({ status: 'live' }).map(record => record.cid)).toEqual(['bafy2']);
+    expect(registry.list({ status: 'expired' }).map(record => record.cid)).toEqual(['bafy1']);
+    expect(registry.list({ status: 'revoked' }).map(record => record.cid)).toEqual(['bafy3']);
+  });
+
+  it('keeps records and revocations across a restart', () => {
+    const registry = createDelegationRegistry(path);
+    issue(registry, 'bafy1');
+    issue(registry, 'bafy2');
+    registry.markRevoked('bafy1');
+
+    const reloaded = createDelegationRegistry(path);
+    expect(reloaded.get('bafy1')).toMatchObject({ status: 'revoked', delegation: 'encoded-bafy1' });
+    expect(reloaded.get('bafy2').status).toBe('live');
+  });
+});
@@ -0,0 +1,38 @@
+// server/service.js - Which Storacha service the backend's clients talk to
+import {
+  accessServiceConnection,
+  uploadServiceConnection,
+  filecoinServiceConnection,
+  gatewayServiceConnection
+} from '@storacha/client/service';
+import * as DID from '@ipld/dag-ucan/did';
+
+export const DEFAULT_SERVICE_DID = 'did:web:localhost';
+
+/**
+ * Options for `Client.create` pointing at a Storacha-compatible service
+ * other than the public one, such as the mock in mock/. STORACHA_SERVICE_URL
+ * selects it and STORACHA_SERVICE_DID names its identity. Without a URL
+ * the options are empty and the client uses up.storacha.network.
+ */
+export function serviceOptions({
+  url = process.env.STORACHA_SERVICE_URL,
+  did = process.env.STORACHA_SERVICE_DID || DEFAULT_SERVICE_DID
+} = {}) {
+  if (!url) {
+    return {};
+  }
+
+  const id = DID.parse(did);
+  const endpoint = new URL(url);
+
+  return {
+    serviceConf: {
+      access: accessServiceConnection({ id, url: endpoint }),
+      upload: uploadServiceConnection({ id, url: endpoint }),
+      filecoin: filecoinServiceConnection({ id, url: endpoint }),
+      gateway: gatewayServiceConnection({ id, url: endpoint })
+    },
+    receiptsEndpoint: new URL('/receipt/', endpoint)
+  };
+}
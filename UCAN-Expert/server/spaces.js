@@ -0,0 +1,146 @@
+// server/spaces.js - Spaces the backend holds proofs for, and delegating from them
+import * as Client from '@storacha/client';
+import { StoreMemory } from '@storacha/client/stores/memory';
+import { delegate } from '@storacha/client/delegation';
+import * as Link from 'multiformats/link';
+import { identity } from 'multiformats/hashes/identity';
+import { base64 } from 'multiformats/bases/base64';
+import { PolicyError } from './policy.js';
+import { serviceOptions } from './service.js';
+
+// CAR codec code, used to wrap delegation archives as a CID
+const CAR_CODE = 0x0202;
+
+/**
+ * Encode a delegation the same way `storacha delegation create --base64`
+ * does (a base64 identity CID of the archive), so Proof.parse can read it
+ */
+export async function encodeDelegation(delegation) {
+  const archive = await delegation.archive();
+  if (!archive.ok) {
+    throw new Error('Failed to create delegation archive');
+  }
+
+  const link = Link.create(CAR_CODE, identity.digest(archive.ok));
+  return link.toString(base64);
+}
+
+/**
+ * Abilities the agent's proofs grant on the given space
+ */
+export function heldAbilities(client, spaceDid) {
+  const abilities = new Set();
+
+  for (const proof of client.proofs()) {
+    for (const capability of proof.capabilities) {
+      if (capability.with === spaceDid || capability.with === 'ucan:*') {
+        abilities.add(capability.can);
+      }
+    }
+  }
+
+  return [...abilities].sort();
+}
+
+/**
+ * When the agent's access to a space ends: the latest expiry among its
+ * unexpired proofs for the space, or null if one never expires. Spaces
+ * without a live proof also report null, with no abilities held.
+ */
+export function proofExpiry(client, spaceDid) {
+  let latest = null;
+
+  for (const proof of client.proofs()) {
+    const forSpace = proof.capabilities.some(capability =>
+      capability.with === spaceDid || capability.with === 'ucan:*'
+    );
+    if (!forSpace) continue;
+
+    if (!Number.isFinite(proof.expiration)) {
+      return null;
+    }
+    latest = Math.max(latest ?? 0, proof.expiration);
+  }
+
+  return latest;
+}
+
+/**
+ * Summaries of every space the client holds proofs for
+ */
+export function describeSpaces(client) {
+  const current = client.currentSpace()?.did();
+
+  return client.spaces().map(space => ({
+    did: space.did(),
+    name: space.name || null,
+    current: space.did() === current,
+    abilities: heldAbilities(client, space.did()),
+    expiresAt: proofExpiry(client, space.did())
+  }));
+}
+
+/**
+ * Find a space by DID or by name, defaulting to the current space
+ */
+export function findSpace(client, didOrName) {
+  if (!didOrName) {
+    return client.currentSpace() ?? null;
+  }
+
+  const spaces = client.spaces();
+  return spaces.find(space => space.did() === didOrName)
+    ?? spaces.find(space => space.name === didOrName)
+    ?? null;
+}
+
+/**
+ * Delegate `abilities` on `space` to `audience`. Unlike
+ * client.createDelegation this does not depend on (or change) the
+ * client's current space, so concurrent requests for different spaces
+ * cannot interfere.
+ */
+export async function createSpaceDelegation(client, space, audience, abilities, { expiration }) {
+  const capabilities = abilities.map(can => ({ with: space.did(), can }));
+
+  for (const capability of capabilities) {
+    if (client.proofs([capability]).length === 0) {
+      throw new PolicyError(`Server holds no proof for ${capability.can} on ${capability.with}`);
+    }
+  }
+
+  return delegate({
+    issuer: client.agent.issuer,
+    audience,
+    capabilities,
+    proofs: client.proofs(capabilities),
+    expiration,
+    facts: [{ space: space.meta() ?? {} }]
+  });
+}
+
+/**
+ * A client sharing `client`'s key and proofs whose current space is fixed
+ * to `space`. Invocations such as uploads always target the client's
+ * current space, so each space gets its own client rather than switching
+ * the shared one under concurrent requests.
+ */
+export async function createSpaceClient(client, space) {
+  const scoped = await Client.create({
+    principal: client.agent.issuer,
+    store: new StoreMemory(),
+    ...serviceOptions()
+  });
+
+  for (const proof of client.proofs()) {
+    const forSpace = proof.capabilities.some(capability => capability.with === space.did());
+    if (forSpace) {
+      await scoped.addSpace(proof);
+    } else {
+      await scoped.addProof(proof);
+    }
+  }
+
+  await scoped.setCurrentSpace(space.did());
+  return scoped;
+}
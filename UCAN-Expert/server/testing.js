@@ -0,0 +1,124 @@
+// server/testing.js - Run the backend against the mock service for integration tests
+import { spawn } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { createServer } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { Signer } from '@storacha/client/principal/ed25519';
+import { challengePayload } from './challenge.js';
+
+const ROOT = fileURLToPath(new URL('..', import.meta.url));
+const STARTUP_TIMEOUT = 30_000;
+
+const freePort = () => new Promise((resolve, reject) => {
+  const server = createServer();
+  server.on('error', reject);
+  server.listen(0, '127.0.0.1', () => {
+    const { port } = server.address();
+    server.close(() => resolve(port));
+  });
+});
+
+// Resolve once the process prints `ready`; reject if it exits first
+const start = (args, env, ready) => new Promise((resolve, reject) => {
+  const child = spawn(process.execPath, args, { cwd: ROOT, env, stdio: ['ignore', 'pipe', 'pipe'] });
+  let output = '';
+
+  const timer = setTimeout(() => {
+    child.kill();
+    reject(new Error(`Timed out starting ${args.join(' ')}:\n${output}`));
+  }, STARTUP_TIMEOUT);
+
+  const onData = chunk => {
+    output += chunk;
+    if (ready.test(output)) {
+      clearTimeout(timer);
+      resolve(child);
+    }
+  };
+  child.stdout.on('data', onData);
+  child.stderr.on('data', onData);
+  child.on('exit', code => {
+    clearTimeout(timer);
+    reject(new Error(`${args.join(' ')} exited with ${code}:\n${output}`));
+  });
+});
+
+const stop = child => new Promise(resolve => {
+  if (child.exitCode !== null) return resolve();
+  child.once('exit', resolve);
+  child.kill();
+});
+
+/**
+ * Start the mock Storacha service and server.js seeded from it, each on a
+ * free port with its data in a temporary directory. `env` is passed to
+ * server.js on top of the mock's credentials.
+ */
+export async function startBackend(env = {}) {
+  const dir = mkdtempSync(join(tmpdir(), 'ucan-expert-'));
+  const mockPort = await freePort();
+  const port = await freePort();
+  const mockUrl = `http://127.0.0.1:${mockPort}`;
+
+  const mock = await start(['mock/index.js'], {
+    ...process.env,
+    MOCK_PORT: String(mockPort),
+    MOCK_DATA_DIR: dir,
+    MOCK_PUBLIC_URL: mockUrl
+  }, /Mock Storacha service on/);
+
+  let server;
+  try {
+    server = await start(['--no-deprecation', `--env-file=${join(dir, 'backend.env')}`, 'server.js'], {
+      ...process.env,
+      PORT: String(port),
+      DELEGATION_REGISTRY_FILE: join(dir, 'delegations.json'),
+      ADMIN_AUDIT_LOG: join(dir, 'admin-audit.log'),
+      ...env
+    }, /Server running/);
+  } catch (error) {
+    await stop(mock);
+    rmSync(dir, { recursive: true, force: true });
+    throw error;
+  }
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    mockUrl,
+    dir,
+    async stop() {
+      await Promise.all([stop(server), stop(mock)]);
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+/**
+ * A fresh agent plus a helper answering the server's challenge for it,
+ * returning the headers to send with the guarded request
+ */
+export async function createTestAgent(url) {
+  const signer = await Signer.generate();
+
+  return {
+    signer,
+    did: signer.did(),
+    async challengeHeaders() {
+      const response = await fetch(`${url}/api/delegation/challenge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ did: signer.did() })
+      });
+      const { nonce } = await response.json();
+      const signature = await signer.sign(challengePayload(signer.did(), nonce));
+
+      return {
+        'X-Challenge-Nonce': nonce,
+        'X-Challenge-Signature': Buffer.from(signature).toString('base64'),
+        'X-Agent-DID': signer.did()
+      };
+    }
+  };
+}
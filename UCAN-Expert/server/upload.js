@@ -0,0 +1,122 @@
+// server/upload.js - Streaming request bodies for the upload proxy
+import { Transform } from 'stream';
+import Busboy from 'busboy';
+
+export class UploadError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'UploadError';
+    this.status = status;
+  }
+}
+
+/**
+ * Pass-through stream that counts bytes and fails once `maxBytes` is
+ * exceeded. The running total is available as `stream.bytes`.
+ */
+export function createSizeLimit(maxBytes) {
+  const limiter = new Transform({
+    transform(chunk, encoding, callback) {
+      limiter.bytes += chunk.length;
+      if (limiter.bytes > maxBytes) {
+        callback(new UploadError(`Upload exceeds the ${maxBytes} byte limit`, 413));
+        return;
+      }
+      callback(null, chunk);
+    }
+  });
+  limiter.bytes = 0;
+  return limiter;
+}
+
+/**
+ * Resolve the file carried by an upload request without buffering it.
+ * multipart/form-data: the first file part (further parts are skipped).
+ * Anything else: the raw body, named by `X-Filename` or `?name=`.
+ * Resolves to { name, type, stream } where stream is a Node Readable.
+ */
+export function readUploadBody(req) {
+  const contentType = req.get('content-type') || '';
+
+  if (!contentType.startsWith('multipart/form-data')) {
+    return Promise.resolve({
+      name: req.get('x-filename') || req.query.name || 'upload',
+      type: contentType || 'application/octet-stream',
+      stream: req
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    let busboy;
+    try {
+      busboy = Busboy({ headers: req.headers, limits: { files: 1 } });
+    } catch (error) {
+      reject(new UploadError(`Invalid multipart body: ${error.message}`));
+      return;
+    }
+
+    let found = false;
+
+    busboy.on('file', (field, stream, info) => {
+      found = true;
+      resolve({
+        name: info.filename || field,
+        type: info.mimeType || 'application/octet-stream',
+        stream
+      });
+    });
+    busboy.on('error', error => reject(new UploadError(`Invalid multipart body: ${error.message}`)));
+    busboy.on('close', () => {
+      if (!found) {
+        reject(new UploadError('Multipart body contains no file'));
+      }
+    });
+
+    req.pipe(busboy);
+  });
+}
+
+/**
+ * Adapt a Node stream into the BlobLike shape @storacha/client uploads.
+ * No size is given, so the client encodes and shards it as a stream.
+ *
+ * The client's encoder does not handle errors from the source stream (they
+ * surface as unhandled rejections and the upload never settles), so source
+ * errors are reported to `onFailure` and the stream is closed cleanly
+ * instead. The caller must then abort the upload.
+ */
+export function toBlobLike(name, stream, onFailure) {
+  return {
+    name,
+    stream: () => new ReadableStream({
+      start(controller) {
+        let closed = false;
+        const close = () => {
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        };
+
+        stream.on('data', chunk => {
+          if (closed) return;
+          controller.enqueue(new Uint8Array(chunk));
+          if (controller.desiredSize <= 0) {
+            stream.pause();
+          }
+        });
+        stream.on('end', close);
+        stream.on('error', error => {
+          onFailure(error);
+          close();
+        });
+      },
+      pull() {
+        stream.resume();
+      },
+      cancel() {
+        stream.destroy();
+      }
+    })
+  };
+}
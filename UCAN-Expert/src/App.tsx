@@ -1,40 +1,54 @@
 // src/App.tsx
 import { useState, useEffect } from 'react';
 import Uploader from './components/Uploader';
+import ReadinessDetails from './components/ReadinessDetails';
+import SettingsPanel from './components/SettingsPanel';
+import { useConfig } from './hooks/useConfig';
+import {
+  api,
+  BACKEND_STATUS_LABELS,
+  type BackendStatus,
+  type ReadinessResponse
+} from './lib/api';
 import './App.css';
 
 function App() {
-  const [backendStatus, setBackendStatus] = useState<'checking' | 'ready' | 'error'>('checking');
-  const [backendUrl, setBackendUrl] = useState('http://localhost:3000');
+  const [backendStatus, setBackendStatus] = useState<BackendStatus>('checking');
+  const [readiness, setReadiness] = useState<ReadinessResponse | null>(null);
   const [isCheckingBackend, setIsCheckingBackend] = useState(false);
   const [showBackendControls, setShowBackendControls] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const { config } = useConfig();
+  const backendUrl = config.apiBaseUrl || window.location.origin;
 
-  // Check backend health on mount
+  // Check backend health on mount and whenever the backend URL changes
   useEffect(() => {
     checkBackendHealth();
-  }, []);
+  }, [config.apiBaseUrl]);
+
+  // The backend initialises in the background; check again until it has
+  useEffect(() => {
+    if (readiness?.status !== 'initialising') return;
+    const timer = setTimeout(checkBackendHealth, 2000);
+    return () => clearTimeout(timer);
+  }, [readiness]);
 
   const checkBackendHealth = async () => {
     setIsCheckingBackend(true);
     try {
-      const response = await fetch(`${backendUrl}/api/health`);
-      const data = await response.json();
-      setBackendStatus(data.storacha ? 'ready' : 'error');
+      const report = await api.checkReadiness();
+      setReadiness(report);
+      setBackendStatus(report.status);
     } catch (error) {
       console.error('Cannot reach backend:', error);
-      setBackendStatus('error');
+      setReadiness(null);
+      setBackendStatus('offline');
     } finally {
       setIsCheckingBackend(false);
     }
   };
 
-  const getBackendStatusText = () => {
-    switch (backendStatus) {
-      case 'ready': return '✅ Ready';
-      case 'error': return '❌ Not running';
-      default: return '⏳ Checking...';
-    }
-  };
+  const getBackendStatusText = () => BACKEND_STATUS_LABELS[backendStatus];
 
   const handleStartBackendInstructions = () => {
     alert(`To start the backend server:
@@ -48,20 +62,13 @@ The backend provides delegation and storage access.`);
   };
 
   const handleViewBackendAPI = () => {
-    window.open(`${backendUrl}/api/health`, '_blank');
+    window.open(`${backendUrl}/api/health/ready`, '_blank');
   };
 
   const handleRetryConnection = () => {
     checkBackendHealth();
   };
 
-  const handleChangeBackendUrl = () => {
-    const newUrl = prompt('Enter backend URL:', backendUrl);
-    if (newUrl && newUrl !== backendUrl) {
-      setBackendUrl(newUrl);
-      setTimeout(() => checkBackendHealth(), 500);
-    }
-  };
 
   return (
     <div className="app">
@@ -105,6 +112,9 @@ The backend provides delegation and storage access.`);
               <p>
                 <strong>Backend URL:</strong> {backendUrl}
               </p>
+              <p>
+                <strong>Profile:</strong> {config.profile}
+              </p>
               <p className="info-text">
                 The backend server provides delegation tokens for Storacha access.
                 It must be running for the uploader to work.
@@ -122,20 +132,24 @@ The backend provides delegation and storage access.`);
               <button 
                 onClick={handleViewBackendAPI}
                 className="action-btn api-btn"
-                disabled={backendStatus !== 'ready'}
+                disabled={backendStatus === 'offline'}
               >
                 🔗 View API
               </button>
               
               <button 
-                onClick={handleChangeBackendUrl}
+                onClick={() => setShowSettings(!showSettings)}
                 className="action-btn config-btn"
               >
-                ⚙️ Change URL
+                ⚙️ Settings
               </button>
             </div>
+
+            {showSettings && <SettingsPanel />}
             
-            {backendStatus === 'error' && (
+            {readiness && <ReadinessDetails readiness={readiness} />}
+
+            {backendStatus === 'offline' && (
               <div className="backend-error">
                 <p>⚠️ Cannot connect to backend at {backendUrl}</p>
                 <p className="error-details">
@@ -151,6 +165,20 @@ The backend provides delegation and storage access.`);
       <main>
         {backendStatus === 'ready' ? (
           <Uploader />
+        ) : readiness ? (
+          <div className="backend-required">
+            <div className="required-message">
+              <h2>{getBackendStatusText()}</h2>
+              <p>The backend is running but not ready to issue delegations.</p>
+              <ReadinessDetails readiness={readiness} />
+              <button 
+                onClick={handleRetryConnection}
+                className="check-btn"
+              >
+                🔄 Check Again
+              </button>
+            </div>
+          </div>
         ) : (
           <div className="backend-required">
             <div className="required-message">
@@ -173,11 +201,11 @@ The backend provides delegation and storage access.`);
                 <div className="command-list">
                   <div className="command">
                     <span>Verify Credentials:</span>
-                    <code>curl {backendUrl}/api/env-check</code>
+                    <code>curl -H "Authorization: Bearer $ADMIN_TOKEN" {backendUrl}/api/admin/env</code>
                   </div>
                   <div className="command">
                     <span>Initialize Client:</span>
-                    <code>curl {backendUrl}/api/test-setup</code>
+                    <code>curl -X POST -H "Authorization: Bearer $ADMIN_TOKEN" {backendUrl}/api/admin/setup</code>
                   </div>
                 </div>
               </div>
@@ -214,7 +242,7 @@ The backend provides delegation and storage access.`);
         </p>
         <p className="footer-info">
           Backend: {backendUrl} • 
-          Status: {getBackendStatusText().replace(/[✅❌⏳🔄]/g, '')}
+          Status: {getBackendStatusText().replace(/^\S+\s/, '')}
         </p>
       </footer>
 
@@ -414,6 +442,40 @@ The backend provides delegation and storage access.`);
     margin-bottom: 2rem;
   }
 
+  .settings-panel {
+    display: flex;
+    flex-direction: column;
+    gap: 0.75rem;
+    margin-bottom: 2rem;
+    padding: 1.5rem;
+    background: white;
+    border-radius: 10px;
+  }
+
+  .settings-row {
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    gap: 1rem;
+    color: #2d3748;
+    font-weight: 600;
+  }
+
+  .settings-row input:not([type='checkbox']),
+  .settings-row select {
+    flex: 0 1 60%;
+    padding: 0.5rem 0.75rem;
+    border: 1px solid #e2e8f0;
+    border-radius: 6px;
+    font-size: 0.95rem;
+  }
+
+  .settings-actions {
+    display: flex;
+    justify-content: space-between;
+    margin-top: 0.5rem;
+  }
+
   .backend-info p {
     color: #4a5568;
     margin: 0.75rem 0;
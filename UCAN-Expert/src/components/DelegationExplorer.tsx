@@ -0,0 +1,354 @@
+// src/components/DelegationExplorer.tsx
+import React, { useState } from 'react';
+import * as Proof from '@storacha/client/proof';
+import { extract } from '@storacha/client/delegation';
+import type { Delegation } from '@storacha/client/types';
+import { utils } from '../lib/api';
+import { inspectProof, type DelegationSummary, type ProofReport } from 'storacha-shared/proof-inspector';
+import { checkSignatures, type SignatureCheck } from '../lib/signatures';
+
+interface DelegationExplorerProps {
+  /** The agent the delegation should be addressed to */
+  agentDid?: string;
+  /** Space to check the abilities against; defaults to the one the proof names */
+  spaceDid?: string | null;
+  /** Abilities the delegation needs to be usable */
+  abilities: string[];
+}
+
+interface Explored {
+  report: ProofReport;
+  signatures: Map<string, SignatureCheck>;
+}
+
+const SIGNATURE_ICONS: Record<SignatureCheck['status'], string> = {
+  valid: '✅',
+  attested: '✅',
+  invalid: '❌',
+  unattested: '⚠️',
+  unverifiable: '❔',
+};
+
+const shortDid = (did: string) => (did.length > 28 ? `${did.substring(0, 20)}...${did.slice(-6)}` : did);
+
+const formatTime = (seconds: number | null, empty: string) =>
+  seconds === null ? empty : utils.formatDate(seconds * 1000);
+
+// Multibase text (base64, base64url, base32...); anything else is a CAR archive
+const MULTIBASE_TEXT = /^[A-Za-z0-9+/=_-]+$/;
+
+const decodeArchive = async (bytes: Uint8Array): Promise<Delegation<any>> => {
+  const result = await extract(bytes);
+  if (result.error) throw result.error;
+  return result.ok;
+};
+
+const validity = (summary: DelegationSummary) => {
+  const now = Math.floor(Date.now() / 1000);
+  if (summary.expiration !== null && summary.expiration <= now) return { icon: '⌛', label: 'Expired' };
+  if (summary.notBefore !== null && summary.notBefore > now) return { icon: '⏳', label: 'Not valid yet' };
+  return { icon: '🟢', label: 'Valid now' };
+};
+
+const DelegationNode: React.FC<{ summary: DelegationSummary; signatures: Map<string, SignatureCheck> }> = ({
+  summary,
+  signatures,
+}) => {
+  const signature = signatures.get(summary.cid);
+  const timeWindow = validity(summary);
+
+  return (
+    <li className="explorer-node">
+      <div className="explorer-chain">
+        <code title={summary.issuer}>{shortDid(summary.issuer)}</code>
+        <span className="explorer-arrow">→</span>
+        <code title={summary.audience}>{shortDid(summary.audience)}</code>
+      </div>
+
+      <div className="explorer-meta">
+        <span title={summary.cid}>CID {shortDid(summary.cid)}</span>
+        <span>
+          {timeWindow.icon} {timeWindow.label}: {formatTime(summary.notBefore, 'any time')} – {formatTime(summary.expiration, 'never expires')}
+        </span>
+        {signature && (
+          <span title={signature.detail}>
+            {SIGNATURE_ICONS[signature.status]} Signature {signature.status}
+          </span>
+        )}
+      </div>
+
+      <ul className="explorer-capabilities">
+        {summary.capabilities.map((capability, i) => (
+          <li key={i}>
+            <strong>{capability.can}</strong> on <code title={capability.with}>{shortDid(capability.with)}</code>
+            {capability.nb && <pre className="explorer-caveats">{JSON.stringify(capability.nb, null, 2)}</pre>}
+          </li>
+        ))}
+      </ul>
+
+      {summary.missingProofs.map(cid => (
+        <p key={cid} className="explorer-missing">⚠️ Proof {shortDid(cid)} is referenced but not included</p>
+      ))}
+
+      {summary.proofs.length > 0 && (
+        <ul className="explorer-tree">
+          {summary.proofs.map(proof => (
+            <DelegationNode key={proof.cid} summary={proof} signatures={signatures} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Decode a delegation (base64 or a CAR file) and show its proof chain,
+ * capabilities, validity and signatures, and whether the current agent
+ * can use it
+ */
+const DelegationExplorer: React.FC<DelegationExplorerProps> = ({ agentDid, spaceDid, abilities }) => {
+  const [input, setInput] = useState('');
+  const [explored, setExplored] = useState<Explored | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+
+  const explore = async (load: () => Promise<Delegation<any>>) => {
+    setIsDecoding(true);
+    setError(null);
+    try {
+      const delegation = await load();
+      setExplored({
+        report: inspectProof(delegation, {
+          abilities,
+          audience: agentDid,
+          space: spaceDid || undefined,
+        }),
+        signatures: await checkSignatures(delegation),
+      });
+    } catch (err) {
+      setExplored(null);
+      setError(`Could not decode the delegation: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  const handleDecode = () => explore(() => Proof.parse(input.replace(/\s+/g, '')));
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    explore(async () => {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const text = new TextDecoder().decode(bytes).replace(/\s+/g, '');
+      if (!MULTIBASE_TEXT.test(text)) return decodeArchive(bytes);
+
+      setInput(text);
+      return Proof.parse(text);
+    });
+  };
+
+  const report = explored?.report;
+  // A forged link makes the whole chain worthless, whatever it grants
+  const forged = explored ? [...explored.signatures].filter(([, check]) => check.status === 'invalid') : [];
+  const usable = !!report?.usable && forged.length === 0;
+
+  return (
+    <div className="delegation-explorer">
+      <div className="form-group">
+        <label>Delegation (base64, as from <code>storacha delegation create --base64</code>):</label>
+        <textarea
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder="Paste a delegation..."
+          rows={4}
+        />
+      </div>
+
+      <div className="explorer-actions">
+        <button onClick={handleDecode} disabled={!input.trim() || isDecoding} className="logout-btn">
+          {isDecoding ? 'Decoding...' : '🔍 Decode'}
+        </button>
+        <label className="explorer-file">
+          📂 Load .car or text file
+          <input type="file" accept=".car,.txt,.ucan,application/vnd.ipld.car,text/plain" onChange={handleFile} />
+        </label>
+      </div>
+
+      {error && <p className="explorer-error">❌ {error}</p>}
+
+      {report && explored && (
+        <>
+          <div className={`explorer-verdict ${usable ? 'usable' : 'unusable'}`}>
+            <strong>
+              {usable ? '✅ Usable for uploads by this agent' : '❌ Not usable for uploads by this agent'}
+            </strong>
+            <div className="explorer-row">
+              <span>Agent:</span>
+              <code title={agentDid}>{agentDid ? shortDid(agentDid) : 'no client yet'}</code>
+            </div>
+            <div className="explorer-row">
+              <span>Space:</span>
+              <code title={report.space ?? undefined}>{report.space ? shortDid(report.space) : 'none'}</code>
+            </div>
+            <div className="explorer-row">
+              <span>Valid:</span>
+              <strong>
+                {formatTime(report.notBefore, 'now')} – {formatTime(report.expiresAt, 'no expiry')}
+              </strong>
+            </div>
+            {report.abilities.map(check => (
+              <div className="explorer-row" key={check.ability}>
+                <span>{check.ability}</span>
+                <strong title={check.granted ? check.chain.join('\n') : check.reason}>
+                  {check.granted ? `✅ via ${check.chain.length} delegation(s)` : `❌ ${check.reason}`}
+                </strong>
+              </div>
+            ))}
+            {report.problems.map(problem => <p key={problem} className="explorer-problem">• {problem}</p>)}
+            {forged.map(([cid, check]) => (
+              <p key={cid} className="explorer-problem">• Delegation {shortDid(cid)}: {check.detail}</p>
+            ))}
+            {report.warnings.map(warning => <p key={warning} className="explorer-warning">⚠️ {warning}</p>)}
+          </div>
+
+          <ul className="explorer-tree explorer-root">
+            <DelegationNode summary={report.root} signatures={explored.signatures} />
+          </ul>
+        </>
+      )}
+
+      <style>{`
+  .delegation-explorer {
+    text-align: left;
+  }
+
+  .explorer-actions {
+    display: flex;
+    align-items: center;
+    gap: 1rem;
+    margin-bottom: 1rem;
+  }
+
+  .explorer-actions .logout-btn {
+    margin-left: 0;
+  }
+
+  .explorer-file {
+    font-size: 0.85rem;
+    color: #c53030;
+    cursor: pointer;
+  }
+
+  .explorer-file input {
+    display: none;
+  }
+
+  .explorer-error,
+  .explorer-problem {
+    color: #c53030;
+    font-size: 0.85rem;
+  }
+
+  .explorer-warning {
+    color: #b7791f;
+    font-size: 0.85rem;
+  }
+
+  .explorer-verdict {
+    display: flex;
+    flex-direction: column;
+    gap: 0.4rem;
+    padding: 1rem;
+    border-radius: 8px;
+    margin-bottom: 1rem;
+    font-size: 0.9rem;
+  }
+
+  .explorer-verdict.usable {
+    background: #f0fff4;
+    border: 1px solid #9ae6b4;
+  }
+
+  .explorer-verdict.unusable {
+    background: #fff5f5;
+    border: 1px solid #feb2b2;
+  }
+
+  .explorer-row {
+    display: flex;
+    justify-content: space-between;
+    gap: 1rem;
+  }
+
+  .explorer-row span {
+    opacity: 0.8;
+  }
+
+  .explorer-row strong {
+    font-weight: 500;
+    word-break: break-word;
+  }
+
+  .explorer-tree {
+    list-style: none;
+    padding-left: 1.25rem;
+    border-left: 2px solid #fed7d7;
+  }
+
+  .explorer-root {
+    padding-left: 0;
+    border-left: none;
+  }
+
+  .explorer-node {
+    margin: 0.75rem 0;
+  }
+
+  .explorer-chain {
+    display: flex;
+    align-items: center;
+    gap: 0.5rem;
+    flex-wrap: wrap;
+  }
+
+  .explorer-arrow {
+    color: #e53e3e;
+    font-weight: 700;
+  }
+
+  .explorer-meta {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 0.25rem 1rem;
+    font-size: 0.8rem;
+    color: #4a5568;
+    margin: 0.25rem 0;
+  }
+
+  .explorer-capabilities {
+    list-style: none;
+    font-size: 0.85rem;
+  }
+
+  .explorer-caveats {
+    margin: 0.25rem 0 0.25rem 1rem;
+    font-size: 0.75rem;
+    background: #f7fafc;
+    padding: 0.5rem;
+    border-radius: 4px;
+    overflow-x: auto;
+  }
+
+  .explorer-missing {
+    font-size: 0.8rem;
+    color: #b7791f;
+  }
+`}</style>
+    </div>
+  );
+};
+
+export default DelegationExplorer;
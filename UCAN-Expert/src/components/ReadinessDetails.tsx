@@ -0,0 +1,103 @@
+// src/components/ReadinessDetails.tsx
+import React from 'react';
+import { utils, type ReadinessResponse } from '../lib/api';
+
+interface ReadinessDetailsProps {
+  readiness: ReadinessResponse;
+}
+
+const formatExpiry = (expiresAt: number | null) =>
+  expiresAt === null ? 'never' : utils.formatDate(expiresAt * 1000);
+
+const shortDid = (did: string) => `${did.substring(0, 20)}...`;
+
+/**
+ * Each readiness check reported by /api/health/ready, one row per check
+ */
+const ReadinessDetails: React.FC<ReadinessDetailsProps> = ({ readiness }) => {
+  const { credentials, proofs, spaces, upstream, agentDid } = readiness;
+
+  return (
+    <div className="readiness-details">
+      <div className="readiness-row">
+        <span>Credentials:</span>
+        <strong>
+          {!credentials.configured
+            ? '⚠️ Not configured'
+            : credentials.ok ? '✅ Valid' : `❌ ${credentials.error}`}
+        </strong>
+      </div>
+
+      {agentDid && (
+        <div className="readiness-row">
+          <span>Agent:</span>
+          <code title={agentDid}>{shortDid(agentDid)}</code>
+        </div>
+      )}
+
+      <div className="readiness-row">
+        <span>Proofs:</span>
+        <strong>
+          {proofs.liveSpaces === 0
+            ? '⌛ None usable'
+            : `✅ ${proofs.liveSpaces} space(s), expires ${formatExpiry(proofs.expiresAt)}`}
+        </strong>
+      </div>
+
+      {spaces.map(space => (
+        <div className="readiness-row readiness-space" key={space.did}>
+          <span title={space.did}>
+            {space.current ? '★ ' : ''}{space.name || shortDid(space.did)}
+          </span>
+          <strong title={space.abilities.join('\n')}>
+            {space.abilities.length > 0
+              ? `${space.abilities.length} abilities, until ${formatExpiry(space.expiresAt)}`
+              : 'expired'}
+          </strong>
+        </div>
+      ))}
+
+      <div className="readiness-row">
+        <span>Storacha service:</span>
+        <strong title={upstream.url}>
+          {upstream.ok
+            ? `✅ Reachable (${upstream.latencyMs} ms)`
+            : `❌ Unreachable: ${upstream.error}`}
+        </strong>
+      </div>
+
+      <style>{`
+  .readiness-details {
+    display: flex;
+    flex-direction: column;
+    gap: 0.4rem;
+    margin-top: 0.75rem;
+    font-size: 0.9rem;
+    text-align: left;
+  }
+
+  .readiness-row {
+    display: flex;
+    justify-content: space-between;
+    gap: 1rem;
+  }
+
+  .readiness-row span {
+    opacity: 0.8;
+  }
+
+  .readiness-row strong {
+    font-weight: 500;
+    word-break: break-word;
+  }
+
+  .readiness-space {
+    padding-left: 1rem;
+    font-size: 0.85rem;
+  }
+`}</style>
+    </div>
+  );
+};
+
+export default ReadinessDetails;
@@ -0,0 +1,126 @@
+// src/components/SettingsPanel.tsx
+import React, { useState } from 'react';
+import { useConfig } from '../hooks/useConfig';
+import { CONFIG_PROFILES, getConfig, type ConfigProfile } from '../lib/config';
+
+const MB = 1024 * 1024;
+
+/**
+ * Edit the configuration for this browser. Saved values take precedence
+ * over the profile defaults, Vite env and the runtime config file.
+ */
+const SettingsPanel: React.FC = () => {
+  const { config, updateConfig, resetConfig } = useConfig();
+  const [apiBaseUrl, setApiBaseUrl] = useState(config.apiBaseUrl);
+  const [gateway, setGateway] = useState(config.defaultGateway);
+  const [maxSizeMB, setMaxSizeMB] = useState(String(config.maxUploadSize / MB));
+  const [serviceUrl, setServiceUrl] = useState(config.serviceUrl);
+  const [serviceDid, setServiceDid] = useState(config.serviceDid);
+
+  // Show the new profile's values after switching or resetting
+  const syncFields = () => {
+    const fresh = getConfig();
+    setApiBaseUrl(fresh.apiBaseUrl);
+    setGateway(fresh.defaultGateway);
+    setMaxSizeMB(String(fresh.maxUploadSize / MB));
+    setServiceUrl(fresh.serviceUrl);
+    setServiceDid(fresh.serviceDid);
+  };
+
+  const handleProfileChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    updateConfig({ profile: e.target.value as ConfigProfile });
+    syncFields();
+  };
+
+  const handleReset = () => {
+    resetConfig();
+    syncFields();
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateConfig({
+      apiBaseUrl: apiBaseUrl.trim(),
+      defaultGateway: gateway.trim(),
+      maxUploadSize: Math.round(Number(maxSizeMB) * MB),
+      serviceUrl: serviceUrl.trim(),
+      serviceDid: serviceDid.trim(),
+    });
+  };
+
+  return (
+    <form className="settings-panel" onSubmit={handleSave}>
+      <label className="settings-row">
+        <span>Profile</span>
+        <select value={config.profile} onChange={handleProfileChange}>
+          {CONFIG_PROFILES.map(profile => (
+            <option key={profile} value={profile}>{profile}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="settings-row">
+        <span>Backend URL</span>
+        <input
+          value={apiBaseUrl}
+          onChange={e => setApiBaseUrl(e.target.value)}
+          placeholder="Same origin"
+        />
+      </label>
+
+      <label className="settings-row">
+        <span>Gateway</span>
+        <input value={gateway} onChange={e => setGateway(e.target.value)} placeholder="storacha.link" />
+      </label>
+
+      <label className="settings-row">
+        <span>Max upload size (MB)</span>
+        <input type="number" min="1" value={maxSizeMB} onChange={e => setMaxSizeMB(e.target.value)} />
+      </label>
+
+      <label className="settings-row">
+        <span>Storacha service</span>
+        <input
+          value={serviceUrl}
+          onChange={e => setServiceUrl(e.target.value)}
+          placeholder="Public service"
+        />
+      </label>
+
+      <label className="settings-row">
+        <span>Service DID</span>
+        <input
+          value={serviceDid}
+          onChange={e => setServiceDid(e.target.value)}
+          placeholder="did:web:localhost"
+          disabled={!serviceUrl.trim()}
+        />
+      </label>
+
+      <label className="settings-row">
+        <span>Reconnect on startup</span>
+        <input
+          type="checkbox"
+          checked={config.autoConnect}
+          onChange={e => updateConfig({ autoConnect: e.target.checked })}
+        />
+      </label>
+
+      <label className="settings-row">
+        <span>Remember session</span>
+        <input
+          type="checkbox"
+          checked={config.persistSession}
+          onChange={e => updateConfig({ persistSession: e.target.checked })}
+        />
+      </label>
+
+      <div className="settings-actions">
+        <button type="button" onClick={handleReset} className="logout-btn">Reset to defaults</button>
+        <button type="submit" className="check-btn">Save</button>
+      </div>
+    </form>
+  );
+};
+
+export default SettingsPanel;
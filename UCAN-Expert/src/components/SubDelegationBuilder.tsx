@@ -0,0 +1,259 @@
+// src/components/SubDelegationBuilder.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ServiceAbility } from '@storacha/client/types';
+import { utils } from '../lib/api';
+import { encodeQR, qrPath, QRCapacityError, type QRCode } from '../lib/qr';
+import { checkCoverage, createSubDelegation, type SubDelegation } from '../lib/sub-delegation';
+
+interface SubDelegationBuilderProps {
+  /** Logged-in client; its proofs bound what can be delegated */
+  client: any;
+  spaceDid: string;
+}
+
+// Abilities a teammate or CI job typically needs, narrowest first
+const DELEGABLE_ABILITIES: ServiceAbility[] = [
+  'space/blob/add',
+  'space/index/add',
+  'upload/add',
+  'filecoin/offer',
+  'upload/list',
+  'upload/get',
+  'space/blob/list',
+  'upload/remove',
+  'space/blob/remove',
+  'usage/report',
+];
+
+// Preselected when the proofs cover them: enough to upload
+const DEFAULT_ABILITIES: ServiceAbility[] = ['space/blob/add', 'space/index/add', 'upload/add'];
+
+const EXPIRY_OPTIONS = [
+  { label: '1 hour', seconds: 3600 },
+  { label: '1 day', seconds: 86400 },
+  { label: '7 days', seconds: 7 * 86400 },
+  { label: '30 days', seconds: 30 * 86400 },
+];
+
+const QR_MARGIN = 4;
+
+/**
+ * Pass a narrower slice of this agent's delegation to another DID, and
+ * export it as base64, a CAR file or a QR code
+ */
+const SubDelegationBuilder: React.FC<SubDelegationBuilderProps> = ({ client, spaceDid }) => {
+  const [audience, setAudience] = useState('');
+  const [ttl, setTtl] = useState(EXPIRY_OPTIONS[1].seconds);
+  const [result, setResult] = useState<SubDelegation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // Recomputed when the space changes or a renewal adds proofs
+  const coverage = useMemo(
+    () => new Map(
+      checkCoverage(client.proofs(), { abilities: DELEGABLE_ABILITIES, space: spaceDid, agent: client.agent.did() })
+        .map(entry => [entry.ability, entry])
+    ),
+    [client, spaceDid, result]
+  );
+  const isCovered = (ability: ServiceAbility) => !!coverage.get(ability)?.covered;
+
+  const [abilities, setAbilities] = useState<ServiceAbility[]>(() => DEFAULT_ABILITIES.filter(isCovered));
+
+  // Drop abilities the proofs no longer cover, e.g. after switching space
+  useEffect(() => {
+    setAbilities(prev => prev.every(isCovered) ? prev : prev.filter(isCovered));
+  }, [coverage]);
+
+  const qr = useMemo<QRCode | string | null>(() => {
+    if (!result) return null;
+    try {
+      return encodeQR(new TextEncoder().encode(result.base64));
+    } catch (err) {
+      if (err instanceof QRCapacityError) return `Too large for a QR code (${err.length} bytes); use the base64 or CAR file.`;
+      throw err;
+    }
+  }, [result]);
+
+  const toggleAbility = (ability: ServiceAbility) => {
+    setAbilities(prev => prev.includes(ability) ? prev.filter(a => a !== ability) : [...prev, ability]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+    setResult(null);
+    setCopied(false);
+    try {
+      setResult(await createSubDelegation(client, {
+        audience,
+        abilities,
+        expiration: Math.floor(Date.now() / 1000) + ttl,
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the delegation');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (result) setCopied(await utils.copyToClipboard(result.base64));
+  };
+
+  const handleDownload = () => {
+    if (!result) return;
+    const { buffer, byteOffset, byteLength } = result.archive;
+    const url = utils.createBlobURL(buffer.slice(byteOffset, byteOffset + byteLength) as ArrayBuffer, 'application/vnd.ipld.car');
+    utils.downloadFile(url, `delegation-${result.delegation.cid}.car`);
+    setTimeout(() => utils.revokeBlobURL(url), 1000);
+  };
+
+  return (
+    <form className="sub-delegation" onSubmit={handleCreate}>
+      <div className="form-group">
+        <label>Audience DID:</label>
+        <input
+          value={audience}
+          onChange={e => setAudience(e.target.value)}
+          placeholder="did:key:... (from `storacha whoami` on the other machine)"
+        />
+      </div>
+
+      <div className="form-group">
+        <label>Abilities on <code title={spaceDid}>{spaceDid.substring(0, 20)}...</code>:</label>
+        <div className="sub-delegation-abilities">
+          {DELEGABLE_ABILITIES.map(ability => {
+            const entry = coverage.get(ability);
+            return (
+              <label key={ability} title={entry?.covered ? undefined : entry?.reason}>
+                <input
+                  type="checkbox"
+                  checked={abilities.includes(ability)}
+                  disabled={!entry?.covered}
+                  onChange={() => toggleAbility(ability)}
+                />
+                <code>{ability}</code>
+                {!entry?.covered && <span className="sub-delegation-uncovered">not in your proofs</span>}
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="form-group">
+        <label>Expires after:</label>
+        <select value={ttl} onChange={e => setTtl(Number(e.target.value))}>
+          {EXPIRY_OPTIONS.map(option => (
+            <option key={option.seconds} value={option.seconds}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="sub-delegation-error">❌ {error}</p>}
+
+      <button type="submit" className="logout-btn" disabled={isCreating || !audience.trim() || abilities.length === 0}>
+        {isCreating ? 'Creating...' : '🔑 Create delegation'}
+      </button>
+
+      {result && (
+        <div className="sub-delegation-result">
+          <div className="form-group">
+            <label>Base64 (for <code>STORACHA_PROOF</code> or the delegation form):</label>
+            <textarea readOnly value={result.base64} rows={4} onFocus={e => e.target.select()} />
+          </div>
+
+          <div className="sub-delegation-actions">
+            <button type="button" onClick={handleCopy} className="logout-btn">
+              {copied ? '✅ Copied' : '📋 Copy base64'}
+            </button>
+            <button type="button" onClick={handleDownload} className="logout-btn">💾 Download .car</button>
+          </div>
+
+          {typeof qr === 'string' ? (
+            <p className="sub-delegation-warning">⚠️ {qr}</p>
+          ) : qr && (
+            <svg
+              className="sub-delegation-qr"
+              viewBox={`0 0 ${qr.size + QR_MARGIN * 2} ${qr.size + QR_MARGIN * 2}`}
+              shapeRendering="crispEdges"
+              role="img"
+              aria-label="Delegation QR code"
+            >
+              <rect width="100%" height="100%" fill="#fff" />
+              <path d={qrPath(qr, QR_MARGIN)} fill="#000" />
+            </svg>
+          )}
+        </div>
+      )}
+
+      <style>{`
+  .sub-delegation {
+    text-align: left;
+  }
+
+  .sub-delegation .logout-btn {
+    margin-left: 0;
+  }
+
+  .sub-delegation-actions {
+    display: flex;
+    gap: 1rem;
+  }
+
+  .sub-delegation-error {
+    color: #c53030;
+    font-size: 0.85rem;
+  }
+
+  .sub-delegation-warning {
+    color: #b7791f;
+    font-size: 0.85rem;
+  }
+
+  .sub-delegation select {
+    padding: 0.5rem;
+    border: 1px solid #e2e8f0;
+    border-radius: 6px;
+  }
+
+  .sub-delegation-abilities {
+    display: grid;
+    grid-template-columns: repeat(auto-fill, minmax(220px, 1fr));
+    gap: 0.4rem;
+    font-size: 0.85rem;
+  }
+
+  .sub-delegation-abilities label {
+    display: flex;
+    align-items: center;
+    gap: 0.4rem;
+    font-weight: normal;
+  }
+
+  .sub-delegation-abilities input {
+    width: auto;
+  }
+
+  .sub-delegation-uncovered {
+    color: #a0aec0;
+    font-size: 0.75rem;
+  }
+
+  .sub-delegation-result {
+    margin-top: 1.5rem;
+  }
+
+  .sub-delegation-qr {
+    width: 100%;
+    max-width: 320px;
+    margin-top: 1rem;
+  }
+`}</style>
+    </form>
+  );
+};
+
+export default SubDelegationBuilder;
@@ -1,6 +1,18 @@
 // src/components/Uploader.tsx
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { useStoracha } from '../hooks/useStoracha';
+import { useStoracha, UPLOAD_ABILITIES } from '../hooks/useStoracha';
+import ReadinessDetails from './ReadinessDetails';
+import DelegationExplorer from './DelegationExplorer';
+import SubDelegationBuilder from './SubDelegationBuilder';
+import { describeRenewal } from '../lib/delegation-manager';
+import { useConfig } from '../hooks/useConfig';
+import {
+  api as backend,
+  BACKEND_STATUS_LABELS,
+  utils,
+  type BackendStatus,
+  type ReadinessResponse
+} from '../lib/api';
 
 interface DelegationInput {
   key: string;
@@ -12,11 +24,14 @@ const Uploader: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [uploadResult, setUploadResult] = useState<any>(null);
-  const [backendStatus, setBackendStatus] = useState<'checking' | 'ready' | 'error' | 'not-configured'>('checking');
+  const [backendStatus, setBackendStatus] = useState<BackendStatus>('checking');
+  const [readiness, setReadiness] = useState<ReadinessResponse | null>(null);
   const [setupStep, setSetupStep] = useState<'idle' | 'initializing' | 'getting-delegation' | 'ready'>('idle');
   const [isCheckingBackend, setIsCheckingBackend] = useState(false);
   const [isActivatingSpace, setIsActivatingSpace] = useState(false);
   const [showDelegationForm, setShowDelegationForm] = useState(false);
+  const [showExplorer, setShowExplorer] = useState(false);
+  const [showDelegate, setShowDelegate] = useState(false);
   const [delegationInput, setDelegationInput] = useState<DelegationInput>({
     key: '',
     proof: '',
@@ -35,8 +50,15 @@ const Uploader: React.FC = () => {
     isReady,
     refreshSpaces,
     logout,
-    userSession
+    userSession,
+    delegationStatus,
+    renewDelegation,
+    isAgentPersistent,
+    resetIdentity,
+    exportIdentity
   } = useStoracha();
+  const [, setClock] = useState(0);
+  const { config } = useConfig();
 
   // Check backend health
   const checkBackend = useCallback(async () => {
@@ -44,13 +66,14 @@ const Uploader: React.FC = () => {
     setBackendStatus('checking');
     
     try {
-      const response = await fetch('http://localhost:3000/api/health');
-      const data = await response.json();
-      setBackendStatus(data.storacha ? 'ready' : 'not-configured');
-      console.log('Backend health:', data);
+      const report = await backend.checkReadiness();
+      setReadiness(report);
+      setBackendStatus(report.status);
+      console.log('Backend readiness:', report);
     } catch (error) {
       console.error('Cannot reach backend:', error);
-      setBackendStatus('error');
+      setReadiness(null);
+      setBackendStatus('offline');
     } finally {
       setIsCheckingBackend(false);
     }
@@ -126,6 +149,11 @@ const Uploader: React.FC = () => {
     }
 
     const file = selectedFiles[0];
+    if (file.size > config.maxUploadSize) {
+      alert(`❌ ${file.name} is ${utils.formatFileSize(file.size)}; the limit is ${utils.formatFileSize(config.maxUploadSize)}`);
+      return;
+    }
+
     const result = await uploadFile(file);
     
     setUploadResult(result);
@@ -135,7 +163,7 @@ const Uploader: React.FC = () => {
     } else {
       alert(`❌ Upload failed: ${result.error}`);
     }
-  }, [selectedFiles, uploadFile]);
+  }, [selectedFiles, uploadFile, config.maxUploadSize]);
 
   // Clear everything
   const handleClear = () => {
@@ -184,11 +212,45 @@ This is a test file for Storacha upload demo.`;
     }
   };
 
+  // Save the agent's DID, key and proofs as a JSON file
+  const handleExportIdentity = async () => {
+    try {
+      const identity = await exportIdentity();
+      if (!identity) return;
+      const url = utils.createBlobURL(JSON.stringify(identity, null, 2), 'application/json');
+      utils.downloadFile(url, 'storacha-agent.json');
+      setTimeout(() => utils.revokeBlobURL(url), 1000);
+      if (!identity.key) {
+        alert('This browser key cannot be exported. The file holds the agent DID and its proofs only.');
+      }
+    } catch (error) {
+      alert(`Error: ${error instanceof Error ? error.message : 'Failed to export identity'}`);
+    }
+  };
+
+  const handleResetIdentity = async () => {
+    if (!confirm('Forget this agent? Delegations issued to its DID will no longer work in this browser.')) return;
+    try {
+      await resetIdentity();
+      setSetupStep('idle');
+      setShowDelegationForm(false);
+    } catch (error) {
+      alert(`Error: ${error instanceof Error ? error.message : 'Failed to reset identity'}`);
+    }
+  };
+
   // Check backend on mount
   useEffect(() => {
     checkBackend();
   }, [checkBackend]);
 
+  // The backend initialises in the background; check again until it has
+  useEffect(() => {
+    if (backendStatus !== 'initialising') return;
+    const timer = setTimeout(checkBackend, 2000);
+    return () => clearTimeout(timer);
+  }, [backendStatus, checkBackend]);
+
   // Update setup step based on isReady
   useEffect(() => {
     if (isReady) {
@@ -196,14 +258,14 @@ This is a test file for Storacha upload demo.`;
     }
   }, [isReady]);
 
-  const getBackendStatusText = () => {
-    switch (backendStatus) {
-      case 'ready': return '✅ Ready';
-      case 'error': return '❌ Cannot connect';
-      case 'not-configured': return '⚠️ Not configured';
-      default: return '⏳ Checking...';
-    }
-  };
+  // Re-render once a minute so "expires in ..." stays current
+  useEffect(() => {
+    if (delegationStatus.status === 'idle') return;
+    const timer = setInterval(() => setClock(tick => tick + 1), 60_000);
+    return () => clearInterval(timer);
+  }, [delegationStatus.status]);
+
+  const getBackendStatusText = () => BACKEND_STATUS_LABELS[backendStatus];
 
   const getClientStatusText = () => {
     if (isReady) return '✅ Ready';
@@ -219,9 +281,21 @@ This is a test file for Storacha upload demo.`;
       <div className="status-bar">
         <div className="status-item">
           <span>Backend:</span>
-          <strong>{getBackendStatusText()}</strong>
+          <strong title={readiness?.credentials.error ?? readiness?.upstream.error ?? undefined}>
+            {getBackendStatusText()}
+          </strong>
           {isCheckingBackend && <span className="mini-spinner"></span>}
         </div>
+        {readiness && readiness.proofs.liveSpaces > 0 && (
+          <div className="status-item">
+            <span>Proofs:</span>
+            <strong>
+              {readiness.proofs.expiresAt === null
+                ? 'No expiry'
+                : `Until ${utils.formatDate(readiness.proofs.expiresAt * 1000)}`}
+            </strong>
+          </div>
+        )}
         <div className="status-item">
           <span>Client:</span>
           <strong>{getClientStatusText()}</strong>
@@ -235,6 +309,29 @@ This is a test file for Storacha upload demo.`;
             <code title={spaceDid}>{spaceDid.substring(0, 20)}...</code>
           </div>
         )}
+        {delegationStatus.status !== 'idle' && (
+          <div className="status-item">
+            <span>Delegation:</span>
+            <strong title={delegationStatus.status === 'failed' ? delegationStatus.error : undefined}>
+              {describeRenewal(delegationStatus)}
+            </strong>
+            {delegationStatus.status === 'renewing' && <span className="mini-spinner"></span>}
+            {(delegationStatus.status === 'failed' || delegationStatus.status === 'expired') && (
+              <button onClick={() => renewDelegation()} className="logout-btn">Renew now</button>
+            )}
+          </div>
+        )}
+        {client && (
+          <div className="status-item">
+            <span>Agent:</span>
+            <code title={client.agent.did()}>{client.agent.did().substring(0, 20)}...</code>
+            <span title={isAgentPersistent ? 'Kept in IndexedDB across reloads' : 'Lost when the page closes'}>
+              {isAgentPersistent ? '💾' : '⏳'}
+            </span>
+            <button onClick={handleExportIdentity} className="logout-btn">Export</button>
+            <button onClick={handleResetIdentity} className="logout-btn">Reset</button>
+          </div>
+        )}
         {userSession.isLoggedIn && (
           <div className="status-item">
             <span>User:</span>
@@ -248,7 +345,7 @@ This is a test file for Storacha upload demo.`;
       {!isReady && backendStatus === 'ready' && (
         <div className="setup-section">
           <h2>Setup Storage Access</h2>
-          <p>Initialize the client and provide delegation credentials</p>
+          <p>Initialize the client; the backend delegates a space to its DID automatically</p>
           
           {!client ? (
             <button 
@@ -269,14 +366,24 @@ This is a test file for Storacha upload demo.`;
             <div className="client-ready">
               <p>✅ Client initialized successfully</p>
               <p>Agent DID: {client.agent?.did()?.substring(0, 30)}...</p>
+              <p>The backend did not delegate a space to this agent. Retry, or paste a key and proof instead.</p>
               
               {!showDelegationForm ? (
-                <button 
-                  onClick={() => setShowDelegationForm(true)}
-                  className="setup-button"
-                >
-                  Continue with Delegation
-                </button>
+                <>
+                  <button 
+                    onClick={handleInitializeClient}
+                    disabled={setupStep === 'initializing'}
+                    className="setup-button"
+                  >
+                    {setupStep === 'initializing' ? 'Requesting delegation...' : 'Retry Backend Delegation'}
+                  </button>
+                  <button 
+                    onClick={() => setShowDelegationForm(true)}
+                    className="setup-button"
+                  >
+                    Continue with Delegation
+                  </button>
+                </>
               ) : (
                 <div className="delegation-form">
                   <h3>Enter Delegation Credentials</h3>
@@ -388,12 +495,12 @@ This is a test file for Storacha upload demo.`;
         </div>
       )}
 
-      {backendStatus === 'error' && (
+      {backendStatus === 'offline' && (
         <div className="connection-error">
           <h3>⚠️ Cannot connect to backend</h3>
           <p>Make sure the backend server is running:</p>
           <code>node server.js</code>
-          <p>Backend should be running on: http://localhost:3000</p>
+          <p>Backend should be running on: {config.apiBaseUrl || window.location.origin}</p>
           <button 
             onClick={checkBackend}
             disabled={isCheckingBackend}
@@ -410,10 +517,25 @@ This is a test file for Storacha upload demo.`;
         </div>
       )}
 
-      {backendStatus === 'not-configured' && (
+      {readiness && !readiness.ready && (
         <div className="config-error">
-          <h3>⚠️ Backend not configured</h3>
-          <p>The backend server is running but Storacha is not configured.</p>
+          <h3>{getBackendStatusText()}</h3>
+          {backendStatus === 'not-configured' && (
+            <p>The backend server is running but Storacha is not configured.</p>
+          )}
+          {backendStatus === 'credentials-invalid' && (
+            <p>The backend's Storacha key or proof could not be loaded.</p>
+          )}
+          {backendStatus === 'initialising' && (
+            <p>The backend is still connecting to Storacha. This check repeats until it is done.</p>
+          )}
+          {backendStatus === 'proofs-expired' && (
+            <p>The backend holds no unexpired proof for any space. Create a new delegation for it.</p>
+          )}
+          {backendStatus === 'upstream-unreachable' && (
+            <p>The backend cannot reach the Storacha service.</p>
+          )}
+          <ReadinessDetails readiness={readiness} />
           <p>Check your .env file and server logs.</p>
           <button 
             onClick={checkBackend}
@@ -447,7 +569,7 @@ This is a test file for Storacha upload demo.`;
               <>
                 <div className="upload-icon">📁</div>
                 <p>Drag & drop files here or click to browse</p>
-                <p className="hint">Max size: 100MB • Supports multiple files</p>
+                <p className="hint">Max size: {utils.formatFileSize(config.maxUploadSize)} • Supports multiple files</p>
                 <div className="button-group">
                   <button 
                     className="browse-button"
@@ -611,6 +733,30 @@ This is a test file for Storacha upload demo.`;
         </div>
       )}
 
+      {/* Delegation Explorer */}
+      <div className="explorer-section">
+        <button onClick={() => setShowExplorer(!showExplorer)} className="explorer-toggle">
+          🔍 Delegation Explorer {showExplorer ? '▲' : '▼'}
+        </button>
+        {showExplorer && (
+          <DelegationExplorer
+            agentDid={client?.agent.did()}
+            spaceDid={spaceDid}
+            abilities={UPLOAD_ABILITIES}
+          />
+        )}
+      </div>
+
+      {/* Sub-delegation Builder */}
+      {isReady && client && spaceDid && (
+        <div className="explorer-section">
+          <button onClick={() => setShowDelegate(!showDelegate)} className="explorer-toggle">
+            🔑 Delegate to another agent {showDelegate ? '▲' : '▼'}
+          </button>
+          {showDelegate && <SubDelegationBuilder client={client} spaceDid={spaceDid} />}
+        </div>
+      )}
+
       {/* Info Section */}
       <div className="info-section">
         <h3>ℹ️ How it works</h3>
@@ -784,6 +930,10 @@ This is a test file for Storacha upload demo.`;
     box-shadow: 0 6px 20px rgba(229, 62, 62, 0.3);
   }
 
+  .setup-button + .setup-button {
+    margin: 0.75rem 0 0 0.75rem;
+  }
+
   .setup-button:disabled {
     opacity: 0.6;
     cursor: not-allowed;
@@ -1247,6 +1397,20 @@ This is a test file for Storacha upload demo.`;
     font-family: monospace;
   }
 
+  .explorer-section {
+    margin-top: 2rem;
+    padding-top: 1.5rem;
+    border-top: 2px solid #fed7d7;
+  }
+
+  .explorer-toggle {
+    background: none;
+    color: #c53030;
+    font-size: 1rem;
+    font-weight: 600;
+    margin-bottom: 1rem;
+  }
+
   .info-section {
     margin-top: 3rem;
     padding-top: 2rem;
@@ -1,9 +1,27 @@
 // src/hooks/useStoracha.ts
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { create } from '@storacha/client';
 import { StoreMemory } from '@storacha/client/stores/memory';
 import { Signer } from '@storacha/client/principal/ed25519';
 import * as Proof from '@storacha/client/proof';
+import { api, storage, utils, type DelegationResponse } from '../lib/api';
+import { createSessionSync } from 'storacha-shared/session-sync';
+import { getConfig } from '../lib/config';
+import { serviceOptions } from 'storacha-shared/service';
+import {
+  createDelegationManager,
+  type DelegationManager,
+  type RenewalState
+} from '../lib/delegation-manager';
+import { inspectProof, isReportCurrent, type ProofReport } from 'storacha-shared/proof-inspector';
+import {
+  canPersistAgent,
+  clearAgentStore,
+  exportIdentity as exportAgentIdentity,
+  openAgentStore,
+  restoredReport,
+  type AgentIdentityExport
+} from '../lib/agent-identity';
 
 interface UploadResult {
   success: boolean;
@@ -48,16 +66,66 @@ interface UseStorachaReturn {
   isUploading: boolean;
   error: string | null;
   isReady: boolean;
+  /** Whether this tab runs background jobs for all open tabs */
+  isLeader: boolean;
   userSession: UserSession;
+  /**
+   * Renewal of the backend-issued delegation ('idle' for manual proofs, and
+   * in tabs that leave renewal to the leader)
+   */
+  delegationStatus: RenewalState;
+  /** What the current proof grants, from `inspectProof`; null before setup */
+  proofReport: ProofReport | null;
+  /** Whether the agent key and proofs are kept in IndexedDB across reloads */
+  isAgentPersistent: boolean;
+  renewDelegation: () => Promise<void>;
   initializeClient: () => Promise<string | null>;
   setupDelegation: (delegationConfig: DelegationConfig) => Promise<boolean>;
   uploadFile: (file: File) => Promise<UploadResult>;
   logout: () => void;
+  /** Log out and forget the saved agent; the next initialization gets a new DID */
+  resetIdentity: () => Promise<void>;
+  /** The agent's DID, key (if extractable) and proofs; null without a client */
+  exportIdentity: () => Promise<AgentIdentityExport | null>;
   refreshSpaces: () => Promise<void>;
 }
 
 const SESSION_KEY = 'storacha_session';
 
+// What a proof must grant for `uploadFile`
+export const UPLOAD_ABILITIES = ['space/blob/add', 'space/index/add', 'upload/add'];
+
+const EMPTY_SESSION: UserSession = {
+  email: '',
+  isLoggedIn: false,
+  method: null,
+  spaceDid: '',
+  agentDid: ''
+};
+
+// Session changes shared with the other open tabs
+type SessionEvent =
+  | { type: 'login'; session: UserSession }
+  | { type: 'logout' }
+  | { type: 'space'; spaceDid: string }
+  | { type: 'delegation'; spaceDid: string }
+  /** The leader renewed the shared agent's delegation */
+  | { type: 'renewed'; agentDid: string; delegation: DelegationResponse };
+
+const sync = createSessionSync<SessionEvent>('storacha-session');
+
+// Keep a backend delegation for the next load. A failed write only costs
+// a backend round trip then.
+const cacheDelegation = async (delegation: DelegationResponse) => {
+  if (!getConfig().persistSession) return;
+  try {
+    await storage.saveDelegation(delegation);
+    await storage.saveSpaceInfo(delegation.spaceDid, delegation.spaceName);
+  } catch (err) {
+    console.warn('Could not cache the delegation:', err);
+  }
+};
+
 const cleanBase64 = (input: string): string => {
   return input.replace(/[^A-Za-z0-9+/=]/g, '').trim();
 };
@@ -69,31 +137,78 @@ export function useStoracha(): UseStorachaReturn {
   const [isInitializing, setIsInitializing] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isLeader, setIsLeader] = useState(() => sync.isLeader());
+  const [delegationStatus, setDelegationStatus] = useState<RenewalState>({ status: 'idle' });
+  const [proofReport, setProofReport] = useState<ProofReport | null>(null);
+  const [isAgentPersistent, setIsAgentPersistent] = useState(false);
+  const renewal = useRef<DelegationManager | null>(null);
+  // The delegation to keep fresh; `shared` when its agent is the persisted
+  // one that every tab uses
+  const renewalTarget = useRef<{ client: any; expiresAt: number; shared: boolean } | null>(null);
   const [userSession, setUserSession] = useState<UserSession>(() => {
-    const saved = localStorage.getItem(SESSION_KEY);
-    return saved ? JSON.parse(saved) : { 
-      email: '', 
-      isLoggedIn: false, 
-      method: null,
-      spaceDid: '',
-      agentDid: ''
-    };
+    const saved = getConfig().persistSession ? localStorage.getItem(SESSION_KEY) : null;
+    return saved ? JSON.parse(saved) : EMPTY_SESSION;
   });
 
   const saveSession = useCallback((session: UserSession) => {
-    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    if (getConfig().persistSession) {
+      localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    }
     setUserSession(session);
   }, []);
 
+  const stopRenewal = useCallback(() => {
+    renewalTarget.current = null;
+    renewal.current?.stop();
+    renewal.current = null;
+    setDelegationStatus({ status: 'idle' });
+  }, []);
+
+  // Keep a backend delegation fresh. Renewed proofs are added next to the
+  // old ones, so uploads already in progress are not interrupted. Tabs
+  // sharing the persisted agent share its proofs too: only the leader
+  // renews, and the others add the proof it broadcasts. A tab with a
+  // temporary agent of its own renews for itself.
+  const updateRenewal = useCallback(() => {
+    renewal.current?.stop();
+    renewal.current = null;
+
+    const target = renewalTarget.current;
+    if (!target || (target.shared && !sync.isLeader())) {
+      setDelegationStatus({ status: 'idle' });
+      return;
+    }
+
+    const storachaClient = target.client;
+    const manager = createDelegationManager({
+      signer: storachaClient.agent.issuer,
+      apply: async renewed => {
+        const proof = await Proof.parse(renewed.delegation);
+        await storachaClient.addProof(proof);
+        setProofReport(inspectProof(proof, { abilities: UPLOAD_ABILITIES, audience: storachaClient.agent.did() }));
+        target.expiresAt = renewed.expiresAt;
+        if (target.shared) await cacheDelegation(renewed);
+        console.log('🔄 Delegation renewed until', utils.formatDate(renewed.expiresAt * 1000));
+        sync.publish({ type: 'renewed', agentDid: storachaClient.agent.did(), delegation: renewed });
+      }
+    });
+    manager.subscribe(setDelegationStatus);
+    manager.start(target);
+    renewal.current = manager;
+  }, []);
+
+  const startRenewal = useCallback((storachaClient: any, delegation: { expiresAt: number }, shared: boolean) => {
+    renewalTarget.current = { client: storachaClient, expiresAt: delegation.expiresAt, shared };
+    updateRenewal();
+  }, [updateRenewal]);
+
+  const renewDelegation = useCallback(async () => {
+    await renewal.current?.renewNow();
+  }, []);
+
   const clearSession = useCallback(() => {
     localStorage.removeItem(SESSION_KEY);
-    setUserSession({ 
-      email: '', 
-      isLoggedIn: false, 
-      method: null, 
-      spaceDid: '', 
-      agentDid: '' 
-    });
+    setUserSession(EMPTY_SESSION);
   }, []);
 
   // Initialize client
@@ -103,21 +218,96 @@ export function useStoracha(): UseStorachaReturn {
 
     try {
       console.log('Initializing Storacha client...');
-      const store = new StoreMemory();
-      const storachaClient = await create({ store });
+      // Reuse the agent saved by an earlier visit, so delegations issued to
+      // its DID stay usable
+      let persistent = !!getConfig().persistSession && canPersistAgent();
+      let storachaClient;
+      try {
+        storachaClient = await create({ store: openAgentStore(persistent), ...serviceOptions(getConfig()) });
+      } catch (storeErr) {
+        // IndexedDB can be blocked, e.g. in some private windows
+        console.warn('Agent store unavailable, using a temporary agent:', storeErr);
+        persistent = false;
+        storachaClient = await create({ store: new StoreMemory(), ...serviceOptions(getConfig()) });
+      }
       
       setClient(storachaClient);
+      setIsAgentPersistent(persistent);
       const agentDid = storachaClient.agent.did();
       console.log('Client initialized with DID:', agentDid);
       
-      // Check for existing spaces
+      // A restored agent brings its proofs; use a space they still grant
       const spaces = await storachaClient.spaces();
-      if (spaces && spaces.length > 0) {
-        const space = spaces[0];
+      let space: any = null;
+      let delegated = false;
+
+      for (const candidate of spaces) {
+        const report = restoredReport(storachaClient.proofs(), {
+          space: candidate.did(),
+          agent: agentDid,
+          abilities: UPLOAD_ABILITIES
+        });
+        if (!report) continue;
+        space = candidate;
+        setProofReport(report);
+        if (report.expiresAt !== null) {
+          startRenewal(storachaClient, { expiresAt: report.expiresAt }, persistent);
+        }
+        console.log('Restored space found:', space.did());
+        break;
+      }
+
+      if (!space && getConfig().persistSession) {
+        // Then the cached backend delegation; `loadDelegation` has already
+        // dropped it if it expired or was revoked
+        const cached = await storage.loadDelegation();
+        try {
+          if (cached) {
+            const proof = await Proof.parse(cached.token);
+            const report = inspectProof(proof, { abilities: UPLOAD_ABILITIES, audience: agentDid });
+            if (!isReportCurrent(report)) {
+              // e.g. issued to the agent from before an identity reset
+              throw new Error(report.problems.join('; ') || 'not usable by this agent');
+            }
+            space = await storachaClient.addSpace(proof);
+            setProofReport(report);
+            startRenewal(storachaClient, cached, persistent);
+            console.log('✅ Cached delegation restored until', utils.formatDate(cached.expiresAt * 1000));
+          }
+        } catch (cacheErr) {
+          console.warn('Discarding cached delegation:', cacheErr);
+          await storage.clearDelegation();
+        }
+      }
+
+      if (!space) {
+        // No space yet: prove possession of the agent key to the backend
+        // and add the space it delegates to us
+        try {
+          console.log('🔏 Requesting delegation via challenge handshake...');
+          const delegation = await api.getDelegationWithRetry(agentDid, {
+            signer: storachaClient.agent.issuer
+          });
+          const proof = await Proof.parse(delegation.delegation);
+          const report = inspectProof(proof, { abilities: UPLOAD_ABILITIES, audience: agentDid });
+          report.problems.forEach(problem => console.warn('⚠️', problem));
+          space = await storachaClient.addSpace(proof);
+          setProofReport(report);
+          delegated = true;
+          startRenewal(storachaClient, delegation, persistent);
+          // A temporary agent's delegation is no use after a reload
+          if (persistent) await cacheDelegation(delegation);
+          console.log('✅ Backend delegation added for abilities:', delegation.abilities);
+        } catch (delegationErr) {
+          console.warn('Backend delegation unavailable, manual setup required:', delegationErr);
+        }
+      }
+
+      if (space) {
         await storachaClient.setCurrentSpace(space.did());
         setSpace(space);
         setSpaceDid(space.did());
-        console.log('Existing space found and set:', space.did());
+        console.log('Space set:', space.did());
         
         const session: UserSession = {
           email: 'delegation@user',
@@ -127,6 +317,9 @@ export function useStoracha(): UseStorachaReturn {
           agentDid
         };
         saveSession(session);
+        sync.publish(delegated
+          ? { type: 'delegation', spaceDid: space.did() }
+          : { type: 'login', session });
       }
       
       return agentDid;
@@ -138,7 +331,7 @@ export function useStoracha(): UseStorachaReturn {
     } finally {
       setIsInitializing(false);
     }
-  }, [saveSession]);
+  }, [saveSession, startRenewal]);
 
   // Setup delegation - FIXED VERSION
   const setupDelegation = useCallback(async (delegationConfig: DelegationConfig): Promise<boolean> => {
@@ -163,49 +356,38 @@ export function useStoracha(): UseStorachaReturn {
         throw new Error('Invalid private key format. Should start with "Mg" and be base64 encoded.');
       }
 
+      // A pasted proof cannot be renewed from the backend
+      stopRenewal();
       const principal = Signer.parse(cleanKey);
+      // The pasted key is not written to the agent store
       const store = new StoreMemory();
       
-      const storachaClient = await create({ principal, store });
+      const storachaClient = await create({ principal, store, ...serviceOptions(getConfig()) });
       console.log('✅ Client created with signer');
       
       const parsedProof = await Proof.parse(cleanProof);
       
       console.log('🔍 Checking proof capabilities...');
-      const capabilities = parsedProof.capabilities || [];
-      console.log('Proof capabilities:', capabilities);
-      
-      const requiredCapabilities = ['space/blob/add', 'space/index/add', 'upload/add'];
-      const missingCapabilities = requiredCapabilities.filter(
-        cap => !capabilities.some((c: any) => 
-          typeof c === 'string' ? c.includes(cap) : JSON.stringify(c).includes(cap)
-        )
-      );
-      
-      if (missingCapabilities.length > 0) {
-        console.warn('⚠️ Missing capabilities in proof:', missingCapabilities);
-        throw new Error(`Delegation proof missing required capabilities: ${missingCapabilities.join(', ')}. Please regenerate with proper permissions.`);
+      const report = inspectProof(parsedProof, {
+        abilities: UPLOAD_ABILITIES,
+        space: delegationConfig.spaceDid || undefined,
+        audience: storachaClient.agent.did()
+      });
+      console.log('Proof report:', report);
+      report.warnings.forEach(warning => console.warn('⚠️', warning));
+
+      if (!report.usable) {
+        throw new Error(`Delegation proof cannot be used for uploads: ${report.problems.join('; ')}. Please regenerate with proper permissions.`);
       }
       
       await storachaClient.addSpace(parsedProof);
       console.log('✅ Proof added to client');
       
-      let currentSpace;
+      // The report names the space the proof grants the upload abilities on
       const spaces = await storachaClient.spaces();
-      
-      if (delegationConfig.spaceDid) {
-        // Try to find the space with the provided DID
-        currentSpace = spaces.find((s: any) => s.did() === delegationConfig.spaceDid);
-        if (currentSpace) {
-          console.log('✅ Using provided space:', delegationConfig.spaceDid);
-        } else {
-          console.warn(`Provided space DID "${delegationConfig.spaceDid}" not found in client's known spaces.`);
-          // Fall back to the first available space
-          currentSpace = spaces.length > 0 ? spaces[0] : null;
-        }
-      } else {
-        // If no space DID was provided, use the first available space
-        currentSpace = spaces.length > 0 ? spaces[0] : null;
+      const currentSpace = spaces.find((s: any) => s.did() === report.space);
+      if (currentSpace) {
+        console.log('✅ Using space:', report.space);
       }
 
       if (!currentSpace) {
@@ -225,9 +407,12 @@ export function useStoracha(): UseStorachaReturn {
       };
 
       saveSession(session);
+      sync.publish({ type: 'login', session });
       setClient(storachaClient);
       setSpace(currentSpace);
       setSpaceDid(currentSpace.did());
+      setProofReport(report);
+      setIsAgentPersistent(false);
 
       console.log('✅ Delegation setup successful!');
       console.log('Space DID:', currentSpace.did());
@@ -243,7 +428,7 @@ export function useStoracha(): UseStorachaReturn {
     } finally {
       setIsInitializing(false);
     }
-  }, [saveSession]);
+  }, [saveSession, stopRenewal]);
 
   // Refresh spaces
   const refreshSpaces = useCallback(async (): Promise<void> => {
@@ -267,6 +452,7 @@ export function useStoracha(): UseStorachaReturn {
           spaceDid: space.did()
         };
         saveSession(session);
+        sync.publish({ type: 'space', spaceDid: space.did() });
         
         console.log('Space refreshed successfully:', space.did());
       } else {
@@ -290,6 +476,18 @@ export function useStoracha(): UseStorachaReturn {
       };
     }
 
+    // Fail fast on a proof that has expired since it was checked
+    if (proofReport && !isReportCurrent(proofReport)) {
+      return {
+        success: false,
+        size: file.size,
+        name: file.name,
+        error: proofReport.expiresAt !== null && proofReport.expiresAt * 1000 <= Date.now()
+          ? `Your delegation expired on ${utils.formatDate(proofReport.expiresAt * 1000)}. Please set up a new one.`
+          : `Your delegation cannot be used for uploads: ${proofReport.problems.join('; ') || 'it is not valid yet'}`
+      };
+    }
+
     setIsUploading(true);
     setError(null);
 
@@ -315,8 +513,8 @@ export function useStoracha(): UseStorachaReturn {
         throw uploadErr;
       }
 
-      const cidString = String(cid);
-      const gatewayUrl = `https://${cidString}.ipfs.storacha.link`;
+      const cidString = utils.normalizeCID(cid.toString());
+      const gatewayUrl = utils.createGatewayURL(cidString, undefined, getConfig().defaultGateway);
 
       const uploadedFile = {
         id: `${cidString}-${Date.now()}`,
@@ -353,21 +551,111 @@ export function useStoracha(): UseStorachaReturn {
     } finally {
       setIsUploading(false);
     }
-  }, [client, space]);
+  }, [client, space, proofReport]);
 
-  const logout = useCallback(() => {
-    console.log('👋 Logging out');
+  // Drop the client without touching storage
+  const resetClient = useCallback(() => {
+    stopRenewal();
     setClient(null);
     setSpace(null);
     setSpaceDid(null);
-    clearSession();
+    setProofReport(null);
+    setIsAgentPersistent(false);
     setError(null);
-  }, [clearSession]);
+  }, [stopRenewal]);
+
+  const logout = useCallback(() => {
+    console.log('👋 Logging out');
+    resetClient();
+    clearSession();
+    sync.publish({ type: 'logout' });
+  }, [resetClient, clearSession]);
+
+  const resetIdentity = useCallback(async () => {
+    console.log('🪪 Resetting agent identity');
+    // Other tabs drop their client on logout, so none writes the old agent back
+    logout();
+    await clearAgentStore();
+    await storage.clearDelegation();
+  }, [logout]);
+
+  const exportIdentity = useCallback(async (): Promise<AgentIdentityExport | null> => {
+    return client ? exportAgentIdentity(client) : null;
+  }, [client]);
+
+  // Apply session changes made in other tabs
+  useEffect(() => {
+    const apply = async (event: SessionEvent) => {
+      switch (event.type) {
+        case 'login':
+          // Delegation sessions are picked up by the auto-initialize effect below
+          setUserSession(event.session);
+          break;
+
+        case 'logout':
+          console.log('👋 Logged out in another tab');
+          resetClient();
+          setUserSession(EMPTY_SESSION);
+          break;
+
+        case 'space': {
+          setUserSession(prev => ({ ...prev, spaceDid: event.spaceDid }));
+          if (!client) break;
+          const spaces = await client.spaces();
+          const next = spaces.find((s: any) => s.did() === event.spaceDid);
+          if (next) {
+            await client.setCurrentSpace(next.did());
+            setSpace(next);
+            setSpaceDid(next.did());
+          }
+          break;
+        }
+
+        case 'delegation':
+          // The backend is issuing delegations again; retry if we have no space
+          if (client && !space) {
+            console.log('Delegation issued in another tab, retrying...');
+            await initializeClient();
+          }
+          break;
+
+        case 'renewed': {
+          // Only usable by a tab running the same agent
+          if (!client || client.agent.did() !== event.agentDid) break;
+          if (!space) {
+            // The agent store now holds the proof, so a fresh start finds it
+            await initializeClient();
+            break;
+          }
+          const proof = await Proof.parse(event.delegation.delegation);
+          await client.addProof(proof);
+          setProofReport(inspectProof(proof, { abilities: UPLOAD_ABILITIES, audience: event.agentDid }));
+          // Taking over as leader later schedules from the renewed expiry
+          const target = renewalTarget.current;
+          if (target && target.client === client) target.expiresAt = event.delegation.expiresAt;
+          console.log('🔄 Delegation renewed in another tab until', utils.formatDate(event.delegation.expiresAt * 1000));
+          break;
+        }
+      }
+    };
+
+    return sync.subscribe(event => {
+      apply(event).catch(err => console.error('Failed to apply session change from another tab:', err));
+    });
+  }, [client, space, initializeClient, resetClient]);
+
+  // A new leader takes over renewing the shared agent's delegation
+  useEffect(() => sync.onLeaderChange(leader => {
+    setIsLeader(leader);
+    if (renewalTarget.current?.shared) updateRenewal();
+  }), [updateRenewal]);
+
+  useEffect(() => () => renewal.current?.stop(), []);
 
   // Auto-initialize if session exists
   useEffect(() => {
     const initializeFromSession = async () => {
-      if (userSession.isLoggedIn && userSession.method === 'delegation' && !client) {
+      if (getConfig().autoConnect && userSession.isLoggedIn && userSession.method === 'delegation' && !client) {
         console.log('Auto-initializing from session...');
         await initializeClient();
       }
@@ -383,11 +671,18 @@ export function useStoracha(): UseStorachaReturn {
     isUploading,
     error,
     isReady: !!client && !!spaceDid,
+    isLeader,
     userSession,
+    delegationStatus,
+    proofReport,
+    isAgentPersistent,
+    renewDelegation,
     initializeClient,
     setupDelegation,
     uploadFile,
     logout,
+    resetIdentity,
+    exportIdentity,
     refreshSpaces
   };
 }
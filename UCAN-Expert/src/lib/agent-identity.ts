@@ -0,0 +1,82 @@
+// src/lib/agent-identity.ts
+import type { Client } from '@storacha/client';
+import { Signer as Ed25519 } from '@storacha/client/principal/ed25519';
+import { StoreIndexedDB } from '@storacha/client/stores/indexeddb';
+import { StoreMemory } from '@storacha/client/stores/memory';
+import type { Delegation } from '@storacha/client/types';
+import { inspectProof, isReportCurrent, type ProofReport } from 'storacha-shared/proof-inspector';
+import { formatDelegation } from './sub-delegation';
+
+/**
+ * IndexedDB database holding the browser agent. `create()` generates a
+ * non-extractable RSA key into an empty one, so the key can sign but never
+ * be read back out of the browser.
+ */
+export const AGENT_DB = 'ucan-expert-agent';
+
+export interface AgentIdentityExport {
+  did: string;
+  /** Ed25519 key in the `Mg...` form of `STORACHA_KEY`; null when the key is non-extractable */
+  key: string | null;
+  /** Delegations the agent holds, in the base64 form of `STORACHA_PROOF` */
+  proofs: string[];
+  exportedAt: string;
+}
+
+export const canPersistAgent = () => typeof indexedDB !== 'undefined';
+
+/**
+ * Store for the browser agent: IndexedDB when it should outlive the page,
+ * memory otherwise (e.g. the session is not persisted)
+ */
+export function openAgentStore(persist: boolean): StoreIndexedDB | StoreMemory {
+  return persist && canPersistAgent() ? new StoreIndexedDB(AGENT_DB) : new StoreMemory();
+}
+
+/**
+ * Forget the saved agent. The next `create()` generates a new key, so
+ * delegations issued to the old DID can no longer be used from here.
+ */
+export async function clearAgentStore(): Promise<void> {
+  if (!canPersistAgent()) return;
+  const store = new StoreIndexedDB(AGENT_DB);
+  await store.reset();
+  await store.close();
+}
+
+/**
+ * The report for the restored proof that grants `abilities` on `space`
+ * longest, or null when none of them is usable any more
+ */
+export function restoredReport(
+  proofs: Delegation<any>[],
+  { space, agent, abilities }: { space: string; agent: string; abilities: string[] }
+): ProofReport | null {
+  let best: ProofReport | null = null;
+  for (const proof of proofs) {
+    const report = inspectProof(proof, { abilities, space, audience: agent });
+    if (!isReportCurrent(report)) continue;
+    if (!best || report.expiresAt === null || (best.expiresAt !== null && report.expiresAt > best.expiresAt)) {
+      best = report;
+    }
+  }
+  return best;
+}
+
+/**
+ * The agent's DID, key (when it can be exported) and proofs, enough to
+ * carry on as this agent from the CLI or another browser
+ */
+export async function exportIdentity(client: Client): Promise<AgentIdentityExport> {
+  const signer = client.agent.issuer;
+  const key = signer.signatureAlgorithm === 'EdDSA' ? Ed25519.format(signer as Ed25519.EdSigner) : null;
+
+  const proofs: string[] = [];
+  for (const proof of client.proofs()) {
+    const archive = await proof.archive();
+    if (archive.error) throw archive.error;
+    proofs.push(formatDelegation(archive.ok));
+  }
+
+  return { did: signer.did(), key, proofs, exportedAt: new Date().toISOString() };
+}
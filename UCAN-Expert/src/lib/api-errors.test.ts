@@ -0,0 +1,55 @@
+// src/lib/api-errors.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  AbortedError,
+  HTTPError,
+  isAPIError,
+  NetworkError,
+  RateLimitedError,
+  SchemaError,
+  TimeoutError,
+  UnauthorizedError,
+  httpError,
+} from './api-errors';
+
+describe('httpError', () => {
+  it.each([
+    [429, 'rate-limited', RateLimitedError],
+    [401, 'unauthorized', UnauthorizedError],
+    [403, 'unauthorized', UnauthorizedError],
+    [404, 'http', HTTPError],
+    [503, 'http', HTTPError],
+  ])('maps %i to a %s error', (status, kind, type) => {
+    const error = httpError(status, 'failed', { error: 'failed' }, 7);
+
+    expect(error).toBeInstanceOf(type);
+    expect(error).toMatchObject({ kind, status, data: { error: 'failed' }, retryAfter: 7, message: 'failed' });
+  });
+});
+
+describe('retryable', () => {
+  it('retries outages and rate limits, not refusals or bad responses', () => {
+    const retryable = [
+      new NetworkError('offline'),
+      new TimeoutError(1000),
+      httpError(500, 'down'),
+      httpError(429, 'slow down'),
+    ];
+    const final = [
+      new AbortedError(),
+      new SchemaError('HTML page'),
+      httpError(400, 'bad'),
+      httpError(401, 'who'),
+      httpError(403, 'no'),
+    ];
+
+    expect(retryable.map(error => error.retryable)).toEqual([true, true, true, true]);
+    expect(final.map(error => error.retryable)).toEqual([false, false, false, false, false]);
+  });
+
+  it('recognises every client error as an APIError', () => {
+    expect(isAPIError(new TimeoutError(5))).toBe(true);
+    expect(isAPIError(new Error('other'))).toBe(false);
+    expect(new TimeoutError(5)).toMatchObject({ name: 'TimeoutError', message: 'Request timed out after 5ms' });
+  });
+});
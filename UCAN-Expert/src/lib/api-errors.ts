@@ -0,0 +1,144 @@
+// src/lib/api-errors.ts
+
+/**
+ * What went wrong with a backend call. Every error thrown by
+ * `StorachaAPI` is an `APIError` whose `kind` is one of these.
+ */
+export type APIErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'aborted'
+  | 'http'
+  | 'rate-limited'
+  | 'unauthorized'
+  | 'schema';
+
+export abstract class APIError extends Error {
+  abstract readonly kind: APIErrorKind;
+  name = 'APIError';
+
+  constructor(
+    message: string,
+    /** HTTP status, when the server answered */
+    public status?: number,
+    /** Parsed JSON body, or the raw text for non-JSON responses */
+    public data?: any,
+    /** Seconds the server asked us to wait (429 Retry-After) */
+    public retryAfter?: number
+  ) {
+    super(message);
+  }
+
+  /** Whether the same call may succeed if made again */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * The request never got a response: offline, DNS, CORS, connection reset
+ */
+export class NetworkError extends APIError {
+  readonly kind = 'network';
+  name = 'NetworkError';
+
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+  }
+
+  get retryable() {
+    return true;
+  }
+}
+
+export class TimeoutError extends APIError {
+  readonly kind = 'timeout';
+  name = 'TimeoutError';
+
+  constructor(public timeout: number) {
+    super(`Request timed out after ${timeout}ms`);
+  }
+
+  get retryable() {
+    return true;
+  }
+}
+
+/**
+ * The caller cancelled the request through its AbortSignal
+ */
+export class AbortedError extends APIError {
+  readonly kind = 'aborted';
+  name = 'AbortedError';
+
+  constructor() {
+    super('Request was cancelled');
+  }
+}
+
+/**
+ * The server answered with a non-2xx status
+ */
+export class HTTPError extends APIError {
+  readonly kind: APIErrorKind = 'http';
+  name = 'HTTPError';
+  declare status: number;
+
+  constructor(message: string, status: number, data?: any, retryAfter?: number) {
+    super(message, status, data, retryAfter);
+  }
+
+  get retryable() {
+    return this.status >= 500;
+  }
+}
+
+/**
+ * 429: wait `retryAfter` seconds (when the server said) before retrying
+ */
+export class RateLimitedError extends HTTPError {
+  readonly kind = 'rate-limited';
+  name = 'RateLimitedError';
+
+  get retryable() {
+    return true;
+  }
+}
+
+/**
+ * 401 or 403: missing or rejected credentials, e.g. a failed challenge
+ */
+export class UnauthorizedError extends HTTPError {
+  readonly kind = 'unauthorized';
+  name = 'UnauthorizedError';
+
+  get retryable() {
+    return false;
+  }
+}
+
+/**
+ * A 2xx response that is not the JSON we expected, e.g. an HTML page
+ * from a proxy
+ */
+export class SchemaError extends APIError {
+  readonly kind = 'schema';
+  name = 'SchemaError';
+
+  constructor(message: string, status?: number, data?: any) {
+    super(message, status, data);
+  }
+}
+
+export function isAPIError(error: unknown): error is APIError {
+  return error instanceof APIError;
+}
+
+/**
+ * Pick the error class for a failed response
+ */
+export function httpError(status: number, message: string, data?: any, retryAfter?: number): HTTPError {
+  if (status === 429) return new RateLimitedError(message, status, data, retryAfter);
+  if (status === 401 || status === 403) return new UnauthorizedError(message, status, data, retryAfter);
+  return new HTTPError(message, status, data, retryAfter);
+}
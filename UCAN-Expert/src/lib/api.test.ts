@@ -0,0 +1,227 @@
+// src/lib/api.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StorachaAPI } from './api';
+import {
+  AbortedError,
+  HTTPError,
+  NetworkError,
+  RateLimitedError,
+  SchemaError,
+  TimeoutError,
+  UnauthorizedError,
+} from './api-errors';
+
+const BASE = 'http://backend.test';
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), { ...init, headers: { 'Content-Type': 'application/json', ...init.headers } });
+
+// fetch that answers each call with the next response (or error) in turn
+const stubFetch = (...answers: (Response | Error)[]) => {
+  const fetch = vi.fn(async (_url: string, _init?: RequestInit) => {
+    const answer = answers.shift() ?? json({ success: true });
+    if (answer instanceof Error) throw answer;
+    return answer;
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+};
+
+// fetch that never answers, only rejects when its signal aborts
+const stubHangingFetch = () => vi.stubGlobal('fetch', vi.fn((_url: string, init?: RequestInit) =>
+  new Promise<Response>((_, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  })
+));
+
+const rejection = (promise: Promise<unknown>) => promise.then(
+  () => { throw new Error('expected a rejection'); },
+  (error: unknown) => error
+);
+
+describe('StorachaAPI requests', () => {
+  let api: StorachaAPI;
+
+  beforeEach(() => {
+    api = new StorachaAPI(BASE);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends JSON to the base URL and returns the parsed body', async () => {
+    const fetch = stubFetch(json({ status: 'ok' }));
+
+    expect(await api.checkHealth()).toEqual({ status: 'ok' });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe(`${BASE}/api/health`);
+    expect(init?.headers).toMatchObject({ 'Content-Type': 'application/json', Accept: 'application/json' });
+  });
+
+  it('runs request interceptors in order and lets them rewrite the request', async () => {
+    const fetch = stubFetch();
+    api.interceptors.request.use(request => ({
+      ...request,
+      init: { ...request.init, headers: { ...request.init.headers, Authorization: 'Bearer one' } },
+    }));
+    api.interceptors.request.use(request => {
+      request.init.headers['X-Trace'] = request.init.headers.Authorization;
+    });
+
+    await api.testBackend();
+
+    expect(fetch.mock.calls[0][1]?.headers).toMatchObject({ Authorization: 'Bearer one', 'X-Trace': 'Bearer one' });
+  });
+
+  it('removes an interceptor with the function use returns', async () => {
+    const fetch = stubFetch();
+    const remove = api.interceptors.request.use(request => ({ ...request, url: `${request.url}?traced` }));
+
+    remove();
+    await api.testBackend();
+
+    expect(fetch.mock.calls[0][0]).toBe(`${BASE}/api/test`);
+  });
+
+  it('lets response interceptors see and replace error responses', async () => {
+    stubFetch(json({ error: 'gone' }, { status: 500 }));
+    const seen = vi.fn();
+    api.interceptors.response.use((response, request) => {
+      seen(response.status, request.url);
+      return json({ recovered: true });
+    });
+
+    expect(await api.testBackend()).toEqual({ recovered: true });
+    expect(seen).toHaveBeenCalledWith(500, `${BASE}/api/test`);
+  });
+
+  it('turns an error status into an HTTPError with the server message', async () => {
+    stubFetch(json({ success: false, error: 'Space not found' }, { status: 404 }));
+
+    const error = await rejection(api.testBackend());
+    expect(error).toBeInstanceOf(HTTPError);
+    expect(error).toMatchObject({ status: 404, message: 'Space not found', data: { error: 'Space not found' } });
+  });
+
+  it('reads Retry-After from the header, then from the body', async () => {
+    stubFetch(
+      json({ error: 'Too many requests' }, { status: 429, headers: { 'Retry-After': '12' } }),
+      json({ error: 'Too many requests', retryAfter: 30 }, { status: 429 })
+    );
+
+    expect(await rejection(api.testBackend())).toMatchObject({ kind: 'rate-limited', retryAfter: 12 });
+    expect(await rejection(api.testBackend())).toMatchObject({ kind: 'rate-limited', retryAfter: 30 });
+  });
+
+  it('reports a non-JSON error page by its status and a non-JSON success as a schema error', async () => {
+    stubFetch(
+      new Response('<h1>Bad gateway</h1>', { status: 502, statusText: 'Bad Gateway', headers: { 'Content-Type': 'text/html' } }),
+      new Response('<html></html>', { status: 200, headers: { 'Content-Type': 'text/html' } }),
+      new Response('{"truncated', { status: 200, headers: { 'Content-Type': 'application/json' } })
+    );
+
+    expect(await rejection(api.testBackend())).toMatchObject({ status: 502, message: 'HTTP 502: Bad Gateway', data: '<h1>Bad gateway</h1>' });
+    expect(await rejection(api.testBackend())).toBeInstanceOf(SchemaError);
+    expect(await rejection(api.testBackend())).toMatchObject({ kind: 'schema', message: 'Malformed JSON in 200 response' });
+  });
+
+  it('wraps fetch failures as network errors', async () => {
+    stubFetch(new TypeError('Failed to fetch'));
+
+    const error = await rejection(api.testBackend());
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ message: 'Failed to fetch', retryable: true });
+  });
+
+  it('times out a slow request', async () => {
+    vi.useFakeTimers();
+    stubHangingFetch();
+
+    const call = rejection(api.testBackend({ timeout: 500 }));
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(await call).toEqual(new TimeoutError(500));
+  });
+
+  it('cancels through the caller\'s signal', async () => {
+    stubHangingFetch();
+    const controller = new AbortController();
+
+    const call = rejection(api.testBackend({ signal: controller.signal, timeout: 0 }));
+    controller.abort();
+
+    expect(await call).toBeInstanceOf(AbortedError);
+    controller.abort();
+    expect(await rejection(api.testBackend({ signal: controller.signal }))).toBeInstanceOf(AbortedError);
+  });
+
+  it('returns a not-ready report rather than throwing on 503', async () => {
+    stubFetch(
+      json({ status: 'initializing', checks: {} }, { status: 503 }),
+      json({ error: 'Service unavailable' }, { status: 503 })
+    );
+
+    expect(await api.checkReadiness()).toEqual({ status: 'initializing', checks: {} });
+    expect(await rejection(api.checkReadiness())).toBeInstanceOf(HTTPError);
+  });
+});
+
+describe('StorachaAPI.getDelegationWithRetry', () => {
+  const DID = 'did:key:z6MkAgent';
+  let api: StorachaAPI;
+
+  beforeEach(() => {
+    api = new StorachaAPI(BASE);
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries server errors with exponential backoff', async () => {
+    const fetch = stubFetch(
+      json({ error: 'down' }, { status: 502 }),
+      new TypeError('Failed to fetch'),
+      json({ delegation: 'token', expiresAt: 1 })
+    );
+
+    const call = api.getDelegationWithRetry(DID, {}, 3, 100);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(await call).toEqual({ delegation: 'token', expiresAt: 1 });
+    expect(fetch.mock.calls[0][0]).toBe(`${BASE}/api/delegation/${encodeURIComponent(DID)}`);
+  });
+
+  it('waits as long as a rate limit asks', async () => {
+    const fetch = stubFetch(json({ error: 'slow down' }, { status: 429, headers: { 'Retry-After': '5' } }));
+
+    const call = api.getDelegationWithRetry(DID, {}, 3, 100);
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(fetch).toHaveBeenCalledOnce();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await call;
+  });
+
+  it('gives up at once on a refusal, and after the last attempt otherwise', async () => {
+    const refused = stubFetch(json({ error: 'Challenge failed' }, { status: 401 }));
+    expect(await rejection(api.getDelegationWithRetry(DID))).toBeInstanceOf(UnauthorizedError);
+    expect(refused).toHaveBeenCalledOnce();
+
+    const failing = stubFetch(...[1, 2].map(() => json({ error: 'slow down' }, { status: 429 })));
+    const call = rejection(api.getDelegationWithRetry(DID, {}, 2, 100));
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await call).toBeInstanceOf(RateLimitedError);
+    expect(failing).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,33 +1,155 @@
 // src/lib/api.ts
 import { Buffer } from 'buffer';
+import type { components } from './api-schema';
+import { inspectCID, normalizeCID, parseCID, type CIDInfo } from './cid';
+import {
+  createDefaultBackend,
+  createDeviceCipher,
+  createLocalStorageBackend,
+  createPassphraseCipher,
+  createStore,
+  type Cipher,
+  type RecordSchema,
+  type RecordStore,
+  type StorageBackend,
+} from 'storacha-shared/storage';
+import {
+  AbortedError,
+  APIError,
+  httpError,
+  HTTPError,
+  NetworkError,
+  RateLimitedError,
+  SchemaError,
+  TimeoutError,
+} from './api-errors';
+
+export {
+  AbortedError,
+  APIError,
+  HTTPError,
+  isAPIError,
+  NetworkError,
+  RateLimitedError,
+  SchemaError,
+  TimeoutError,
+  UnauthorizedError,
+  type APIErrorKind,
+} from './api-errors';
+import { getConfig, subscribeConfig } from './config';
+import { buildGatewayURL, encodeGatewayPath, GATEWAYS, type Gateway, type GatewayURLOptions } from './gateway';
 
 // Ensure Buffer is available globally for the Storacha client
 if (typeof window !== 'undefined') {
   window.Buffer = Buffer;
 }
 
-export interface DelegationResponse {
-  success: boolean;
-  delegation: string;
-  expiresAt: number;
-  spaceDid: string;
-  spaceName?: string;
-  error?: string;
+// Response shapes come from openapi.json (see api-schema.d.ts), the same
+// contract the server validates its responses against
+type Schemas = components['schemas'];
+
+export type DelegationResponse = Schemas['DelegationResponse'];
+export type ChallengeResponse = Schemas['ChallengeResponse'];
+export type ProxyUploadResponse = Schemas['ProxyUploadResponse'];
+export type SpaceSummary = Schemas['SpaceSummary'];
+export type SpacesResponse = Schemas['SpacesResponse'];
+export type DelegationStatus = Schemas['DelegationStatus'];
+export type DelegationStatusResponse = Schemas['DelegationStatusResponse'];
+export type HealthResponse = Schemas['HealthResponse'];
+export type LivenessResponse = Schemas['LivenessResponse'];
+export type ReadinessResponse = Schemas['ReadinessResponse'];
+export type ReadinessStatus = Schemas['ReadinessStatus'];
+export type TestResponse = Schemas['TestResponse'];
+export type ErrorResponse = Schemas['ErrorResponse'];
+
+/**
+ * Backend state shown in status badges: a readiness status, or
+ * "checking"/"offline" when readiness is not known
+ */
+export type BackendStatus = 'checking' | 'offline' | ReadinessStatus;
+
+export const BACKEND_STATUS_LABELS: Record<BackendStatus, string> = {
+  'checking': '⏳ Checking...',
+  'offline': '❌ Not running',
+  'ready': '✅ Ready',
+  'not-configured': '⚠️ Not configured',
+  'credentials-invalid': '❌ Invalid credentials',
+  'initialising': '⏳ Starting up',
+  'proofs-expired': '⌛ Proofs expired',
+  'upstream-unreachable': '🌐 Storacha unreachable',
+};
+
+/**
+ * Per-call controls accepted by every `StorachaAPI` method
+ */
+export interface CallOptions {
+  /** Cancels the call; it then rejects with `AbortedError` */
+  signal?: AbortSignal;
+  /** Milliseconds before the call rejects with `TimeoutError`; 0 disables */
+  timeout?: number;
 }
 
-export interface HealthResponse {
-  status: string;
-  storacha: boolean;
-  timestamp: string;
+export interface DelegationRequest extends CallOptions {
+  /** Abilities to request; the server grants only those its policy allows */
+  abilities?: string[];
+  /** Requested lifetime in seconds; the server caps it at the policy maximum */
+  ttl?: number;
+  /** Space DID or name to delegate; defaults to the server's current space */
+  space?: string;
+  /** Agent signer used to answer the server's proof-of-possession challenge */
+  signer?: ChallengeSigner;
 }
 
-export interface TestResponse {
-  message: string;
-  storachaReady: boolean;
-  env: {
-    hasPrivateKey: boolean;
-    hasProof: boolean;
-  };
+/**
+ * Anything that can sign as an agent DID, e.g. `client.agent.issuer`
+ */
+export interface ChallengeSigner {
+  did(): string;
+  sign(payload: Uint8Array): PromiseLike<Uint8Array> | Uint8Array;
+}
+
+export const CHALLENGE_HEADERS = {
+  nonce: 'X-Challenge-Nonce',
+  signature: 'X-Challenge-Signature',
+} as const;
+
+/**
+ * Bytes signed to answer a challenge; must match the server's payload
+ */
+export function challengePayload(did: string, nonce: string): Uint8Array {
+  return new TextEncoder().encode(`storacha-delegation:${did}:${nonce}`);
+}
+
+/**
+ * Common ability sets for least-privilege delegation requests
+ */
+export const DELEGATION_PRESETS = {
+  upload: ['space/blob/add', 'space/index/add', 'filecoin/offer', 'upload/add'],
+  readOnly: ['upload/list', 'upload/get', 'space/blob/list', 'space/info'],
+} as const;
+
+export interface ProxyUploadOptions extends CallOptions {
+  /** Agent signer answering the server's challenge */
+  signer: ChallengeSigner;
+  /** Stored file name; defaults to the File's name */
+  name?: string;
+  /** Space DID or name; defaults to the server's current space */
+  space?: string;
+}
+
+export interface ListSpacesOptions extends CallOptions {
+  /** Agent signer answering the server's challenge */
+  signer: ChallengeSigner;
+}
+
+export interface StoredDelegation {
+  token: string;
+  cid?: string;
+  expiresAt: number;
+  abilities?: string[];
+  spaceDid: string;
+  spaceName?: string;
+  timestamp: number;
 }
 
 export interface UploadProgress {
@@ -35,90 +157,308 @@ export interface UploadProgress {
   total: number;
 }
 
-export class APIError extends Error {
-  constructor(
-    message: string,
-    public status?: number,
-    public data?: any
-  ) {
-    super(message);
-    this.name = 'APIError';
+export interface APIRequest {
+  url: string;
+  init: Omit<RequestInit, 'headers' | 'signal'> & { headers: Record<string, string> };
+}
+
+/**
+ * Runs before each request; may change the URL or init (e.g. add an
+ * Authorization header) by returning a new request
+ */
+export type RequestInterceptor = (request: APIRequest) => APIRequest | void | Promise<APIRequest | void>;
+
+/**
+ * Runs on each response before it is parsed, including error responses
+ */
+export type ResponseInterceptor = (
+  response: Response,
+  request: APIRequest
+) => Response | void | Promise<Response | void>;
+
+export interface StorachaAPIOptions {
+  /** Default per-call timeout in milliseconds */
+  timeout?: number;
+}
+
+const DEFAULT_TIMEOUT = 30_000;
+
+class InterceptorChain<T> {
+  private handlers: T[] = [];
+
+  /** Add an interceptor; returns a function that removes it */
+  use(handler: T): () => void {
+    this.handlers.push(handler);
+    return () => {
+      this.handlers = this.handlers.filter(h => h !== handler);
+    };
+  }
+
+  get list(): readonly T[] {
+    return this.handlers;
+  }
+}
+
+/**
+ * Wait `ms`, rejecting with `AbortedError` if `signal` fires first
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new AbortedError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+const isJSONObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * Read a response body by its Content-Type: JSON is parsed, anything
+ * else (an HTML error page from a proxy, say) is returned as text
+ */
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  const type = response.headers.get('Content-Type') ?? '';
+  if (!text || !/[/+]json\b/i.test(type)) {
+    return text || undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    if (!response.ok) return text;
+    throw new SchemaError(`Malformed JSON in ${response.status} response`, response.status, text);
+  }
+}
+
+/**
+ * Parse a Retry-After header, given either as seconds or as an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
   }
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
 }
 
 /**
  * API client for communicating with the Storacha backend
  */
-class StorachaAPI {
+export class StorachaAPI {
   private baseURL: string;
+  private timeout: number;
+
+  /** Hooks for auth headers, logging and the like */
+  readonly interceptors = {
+    request: new InterceptorChain<RequestInterceptor>(),
+    response: new InterceptorChain<ResponseInterceptor>(),
+  };
 
-  constructor(baseURL: string = '') {
+  constructor(baseURL: string = '', options: StorachaAPIOptions = {}) {
     this.baseURL = baseURL;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
   }
 
   /**
-   * Make a request to the API
+   * Point the client at another backend, e.g. after a settings change
+   */
+  setBaseURL(baseURL: string): void {
+    this.baseURL = baseURL;
+  }
+
+  /**
+   * Make a request to the API. Rejects with an `APIError` subclass for
+   * every failure: network, timeout, cancellation, HTTP status or a
+   * response that is not the JSON we expect.
    */
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: Omit<RequestInit, 'headers' | 'signal'> & CallOptions & { headers?: Record<string, string> } = {}
   ): Promise<T> {
-    const url = `${this.baseURL}${endpoint}`;
-    
-    const defaultHeaders = {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-    };
+    const { timeout = this.timeout, signal, headers, ...init } = options;
 
-    try {
-      const response = await fetch(url, {
-        ...options,
+    if (signal?.aborted) {
+      throw new AbortedError();
+    }
+
+    // One signal for both the caller's cancellation and our timeout
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    signal?.addEventListener('abort', cancel, { once: true });
+    let timedOut = false;
+    const timer = timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
+    let request: APIRequest = {
+      url: `${this.baseURL}${endpoint}`,
+      init: {
+        ...init,
         headers: {
-          ...defaultHeaders,
-          ...options.headers,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          ...headers,
         },
-      });
+      },
+    };
 
-      const data = await response.json();
+    try {
+      for (const intercept of this.interceptors.request.list) {
+        request = (await intercept(request)) ?? request;
+      }
+
+      let response = await fetch(request.url, { ...request.init, signal: controller.signal });
+      for (const intercept of this.interceptors.response.list) {
+        response = (await intercept(response, request)) ?? response;
+      }
+
+      const data = await readBody(response);
 
       if (!response.ok) {
-        throw new APIError(
-          data.error || `HTTP ${response.status}: ${response.statusText}`,
+        const message = isJSONObject(data) && typeof data.error === 'string'
+          ? data.error
+          : `HTTP ${response.status}${response.statusText ? `: ${response.statusText}` : ''}`;
+        throw httpError(
+          response.status,
+          message,
+          data,
+          parseRetryAfter(response.headers.get('Retry-After')) ??
+            (isJSONObject(data) && typeof data.retryAfter === 'number' ? data.retryAfter : undefined)
+        );
+      }
+
+      if (!isJSONObject(data)) {
+        throw new SchemaError(
+          `Expected JSON from ${endpoint}, got ${response.headers.get('Content-Type') || 'no content type'}`,
           response.status,
           data
         );
       }
 
-      return data;
+      return data as T;
     } catch (error) {
       if (error instanceof APIError) {
         throw error;
       }
-      throw new APIError(
-        error instanceof Error ? error.message : 'Network request failed'
+      if (timedOut) {
+        throw new TimeoutError(timeout);
+      }
+      if (signal?.aborted) {
+        throw new AbortedError();
+      }
+      throw new NetworkError(
+        error instanceof Error ? error.message : 'Network request failed',
+        error
       );
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
     }
   }
 
   /**
    * Check if the backend is healthy and configured
    */
-  async checkHealth(): Promise<HealthResponse> {
-    return this.request<HealthResponse>('/api/health');
+  async checkHealth(options: CallOptions = {}): Promise<HealthResponse> {
+    return this.request<HealthResponse>('/api/health', options);
+  }
+
+  /**
+   * Liveness: the server process is up
+   */
+  async checkLiveness(options: CallOptions = {}): Promise<LivenessResponse> {
+    return this.request<LivenessResponse>('/api/health/live', options);
+  }
+
+  /**
+   * Readiness report. A server that is up but not ready answers 503 with
+   * the same report, which is returned rather than thrown.
+   */
+  async checkReadiness(options: CallOptions = {}): Promise<ReadinessResponse> {
+    try {
+      return await this.request<ReadinessResponse>('/api/health/ready', options);
+    } catch (error) {
+      if (error instanceof HTTPError && error.status === 503 && error.data?.status) {
+        return error.data as ReadinessResponse;
+      }
+      throw error;
+    }
   }
 
   /**
    * Test endpoint for debugging
    */
-  async testBackend(): Promise<TestResponse> {
-    return this.request<TestResponse>('/api/test');
+  async testBackend(options: CallOptions = {}): Promise<TestResponse> {
+    return this.request<TestResponse>('/api/test', options);
+  }
+
+  /**
+   * Ask the server for a single-use nonce bound to the given DID
+   */
+  async requestChallenge(did: string, options: CallOptions = {}): Promise<ChallengeResponse> {
+    const body: Schemas['ChallengeRequest'] = { did };
+    return this.request<ChallengeResponse>('/api/delegation/challenge', {
+      ...options,
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+  }
+
+  /**
+   * Run the challenge/response handshake and return the headers that
+   * prove possession of the signer's key
+   */
+  async signChallenge(signer: ChallengeSigner, options: CallOptions = {}): Promise<Record<string, string>> {
+    const did = signer.did();
+    const { nonce } = await this.requestChallenge(did, options);
+    const signature = await signer.sign(challengePayload(did, nonce));
+
+    return {
+      [CHALLENGE_HEADERS.nonce]: nonce,
+      [CHALLENGE_HEADERS.signature]: Buffer.from(signature).toString('base64'),
+    };
   }
 
   /**
-   * Get a delegation for the given DID
+   * Get a delegation for the given DID, optionally scoped to specific
+   * abilities and lifetime. Pass `scope.signer` to answer the server's
+   * proof-of-possession challenge.
    */
-  async getDelegation(did: string): Promise<DelegationResponse> {
-    return this.request<DelegationResponse>(`/api/delegation/${encodeURIComponent(did)}`);
+  async getDelegation(did: string, scope: DelegationRequest = {}): Promise<DelegationResponse> {
+    const params = new URLSearchParams();
+    if (scope.abilities?.length) {
+      params.set('abilities', scope.abilities.join(','));
+    }
+    if (scope.ttl !== undefined) {
+      params.set('ttl', String(scope.ttl));
+    }
+    if (scope.space) {
+      params.set('space', scope.space);
+    }
+
+    const call: CallOptions = { signal: scope.signal, timeout: scope.timeout };
+    const headers = scope.signer ? await this.signChallenge(scope.signer, call) : {};
+
+    const query = params.toString();
+    return this.request<DelegationResponse>(
+      `/api/delegation/${encodeURIComponent(did)}${query ? `?${query}` : ''}`,
+      { ...call, headers }
+    );
   }
 
   /**
@@ -126,6 +466,7 @@ class StorachaAPI {
    */
   async getDelegationWithRetry(
     did: string,
+    scope: DelegationRequest = {},
     maxRetries: number = 3,
     delay: number = 1000
   ): Promise<DelegationResponse> {
@@ -133,37 +474,89 @@ class StorachaAPI {
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        if (attempt > 0) {
-          // Exponential backoff
-          await new Promise(resolve => 
-            setTimeout(resolve, delay * Math.pow(2, attempt - 1))
-          );
-          console.log(`Retrying delegation request (attempt ${attempt + 1}/${maxRetries})...`);
-        }
-
-        return await this.getDelegation(did);
+        return await this.getDelegation(did, scope);
       } catch (error) {
         lastError = error as Error;
         
-        // Don't retry on certain errors
-        if (error instanceof APIError) {
-          if (error.status === 400) {
-            throw error; // Bad request, no need to retry
-          }
-          if (error.status === 401 || error.status === 403) {
-            throw error; // Auth errors, no need to retry
-          }
+        // Bad requests, auth failures, cancellation and malformed
+        // responses will not improve by asking again
+        if (!(error instanceof APIError) || !error.retryable) {
+          throw error;
         }
 
         if (attempt === maxRetries - 1) {
           throw lastError;
         }
+
+        // Rate limited: wait as long as the server asks. Otherwise back off
+        // exponentially.
+        const wait = error instanceof RateLimitedError && error.retryAfter !== undefined
+          ? error.retryAfter * 1000
+          : delay * Math.pow(2, attempt);
+
+        await sleep(wait, scope.signal);
+        console.log(`Retrying delegation request (attempt ${attempt + 2}/${maxRetries})...`);
       }
     }
 
     throw lastError || new Error('Failed to get delegation after retries');
   }
 
+  /**
+   * Upload through the server's own client, for environments that cannot
+   * run @storacha/client. The body is streamed, not JSON encoded.
+   */
+  async proxyUpload(file: Blob, options: ProxyUploadOptions): Promise<ProxyUploadResponse> {
+    const params = new URLSearchParams();
+    const name = options.name ?? (file instanceof File ? file.name : undefined);
+    if (name) {
+      params.set('name', name);
+    }
+    if (options.space) {
+      params.set('space', options.space);
+    }
+
+    const challengeHeaders = await this.signChallenge(options.signer, { signal: options.signal });
+    const query = params.toString();
+
+    return this.request<ProxyUploadResponse>(`/api/upload${query ? `?${query}` : ''}`, {
+      signal: options.signal,
+      // Uploads take as long as the file needs unless the caller sets a limit
+      timeout: options.timeout ?? 0,
+      method: 'POST',
+      body: file,
+      headers: {
+        ...challengeHeaders,
+        'X-Agent-DID': options.signer.did(),
+        'Content-Type': file.type || 'application/octet-stream',
+      },
+    });
+  }
+
+  /**
+   * List the spaces the server can delegate access to. The server answers
+   * only agents that sign its challenge.
+   */
+  async listSpaces(options: ListSpacesOptions): Promise<SpacesResponse> {
+    const challengeHeaders = await this.signChallenge(options.signer, { signal: options.signal });
+
+    return this.request<SpacesResponse>('/api/spaces', {
+      signal: options.signal,
+      timeout: options.timeout,
+      headers: { ...challengeHeaders, 'X-Agent-DID': options.signer.did() },
+    });
+  }
+
+  /**
+   * Ask the server whether a delegation it issued is still live
+   */
+  async getDelegationStatus(cid: string, options: CallOptions = {}): Promise<DelegationStatusResponse> {
+    return this.request<DelegationStatusResponse>(
+      `/api/delegation/${encodeURIComponent(cid)}/status`,
+      options
+    );
+  }
+
   /**
    * Validate a DID before making a request
    */
@@ -172,63 +565,129 @@ class StorachaAPI {
   }
 }
 
-// Create a singleton instance
-export const api = new StorachaAPI();
+// Create a singleton instance that follows the configured backend
+export const api = new StorachaAPI(getConfig().apiBaseUrl);
+subscribeConfig(config => api.setBaseURL(config.apiBaseUrl));
 
 // Export helper functions
+export interface StoredSpaceInfo {
+  did: string;
+  name?: string;
+  lastUsed: number;
+}
+
+// Version 0 of both records is the plain JSON written to localStorage
+// before the storage layer existed; the shapes have not changed since
+const DELEGATION_RECORD: RecordSchema<StoredDelegation> = {
+  key: 'storacha_delegation',
+  version: 1,
+  secret: true,
+  validate: (value): value is StoredDelegation =>
+    !!value && typeof (value as StoredDelegation).token === 'string' &&
+    typeof (value as StoredDelegation).expiresAt === 'number',
+};
+
+const SPACE_RECORD: RecordSchema<StoredSpaceInfo> = {
+  key: 'storacha_space_info',
+  version: 1,
+  validate: (value): value is StoredSpaceInfo =>
+    !!value && typeof (value as StoredSpaceInfo).did === 'string',
+};
+
+const LEGACY_KEYS = ['storacha_client_state'];
+
+const defaultStore = () => {
+  const browser = typeof window !== 'undefined';
+  return createStore({
+    backend: createDefaultBackend(),
+    // Without a passphrase, secrets are sealed with a non-extractable
+    // per-browser key, so tokens never sit in storage as plaintext
+    cipher: browser && typeof indexedDB !== 'undefined' ? createDeviceCipher() : undefined,
+    legacy: browser && typeof localStorage !== 'undefined' ? createLocalStorageBackend() : undefined,
+  });
+};
+
+let recordStore: RecordStore | null = null;
+const records = () => (recordStore ??= defaultStore());
+
 export const storage = {
   /**
-   * Save delegation data to localStorage
+   * Replace the backing store: another backend (memory in tests, a file
+   * in Node) and/or a passphrase for encrypting secrets
    */
-  saveDelegation(delegation: DelegationResponse): void {
-    if (typeof window === 'undefined') return;
-    
-    localStorage.setItem('storacha_delegation', JSON.stringify({
+  configure(options: { backend?: StorageBackend; passphrase?: string; cipher?: Cipher } = {}): void {
+    const cipher = options.cipher ?? (options.passphrase ? createPassphraseCipher(options.passphrase) : undefined);
+    recordStore = options.backend || cipher
+      ? createStore({
+          backend: options.backend ?? createDefaultBackend(),
+          cipher,
+          legacy: !options.backend && typeof localStorage !== 'undefined' ? createLocalStorageBackend() : undefined,
+        })
+      : defaultStore();
+  },
+
+  /**
+   * Save delegation data; the token is encrypted at rest
+   */
+  async saveDelegation(delegation: DelegationResponse): Promise<void> {
+    await records().write(DELEGATION_RECORD, {
       token: delegation.delegation,
+      cid: delegation.cid,
       expiresAt: delegation.expiresAt,
+      abilities: delegation.abilities,
       spaceDid: delegation.spaceDid,
       spaceName: delegation.spaceName,
       timestamp: Date.now(),
-    }));
+    });
   },
 
   /**
-   * Load delegation data from localStorage
+   * Load the stored delegation. The cached token is only returned if it
+   * has not expired and the server has not revoked it.
    */
-  loadDelegation(): {
-    token: string;
-    expiresAt: number;
-    spaceDid: string;
-    spaceName?: string;
-    timestamp: number;
-  } | null {
-    if (typeof window === 'undefined') return null;
-    
-    const stored = localStorage.getItem('storacha_delegation');
-    if (!stored) return null;
-
+  async loadDelegation(): Promise<StoredDelegation | null> {
+    let data: StoredDelegation | null;
     try {
-      const data = JSON.parse(stored);
-      
-      // Check if delegation is still valid (not expired)
-      const now = Math.floor(Date.now() / 1000);
-      if (data.expiresAt < now) {
-        this.clearDelegation();
-        return null;
-      }
+      data = await records().read(DELEGATION_RECORD);
+    } catch (error) {
+      console.warn('Could not read stored delegation:', error);
+      return null;
+    }
+    if (!data) return null;
 
-      return data;
-    } catch {
-      this.clearDelegation();
+    // Check if delegation is still valid (not expired)
+    const now = Math.floor(Date.now() / 1000);
+    if (data.expiresAt < now) {
+      await this.clearDelegation();
       return null;
     }
+
+    if (data.cid) {
+      try {
+        const { status } = await api.getDelegationStatus(data.cid);
+        if (status !== 'live') {
+          console.warn(`Cached delegation is ${status}, discarding it`);
+          await this.clearDelegation();
+          return null;
+        }
+      } catch (error) {
+        if (error instanceof HTTPError && error.status === 404) {
+          await this.clearDelegation();
+          return null;
+        }
+        // Backend unreachable: keep using the token until it expires
+        console.warn('Could not confirm delegation status:', error);
+      }
+    }
+
+    return data;
   },
 
   /**
-   * Check if a valid delegation exists in localStorage
+   * Check if a valid delegation is stored
    */
-  hasValidDelegation(): boolean {
-    const delegation = this.loadDelegation();
+  async hasValidDelegation(): Promise<boolean> {
+    const delegation = await this.loadDelegation();
     if (!delegation) return false;
 
     const now = Math.floor(Date.now() / 1000);
@@ -237,39 +696,30 @@ export const storage = {
   },
 
   /**
-   * Clear delegation data from localStorage
+   * Clear stored delegation and space data
    */
-  clearDelegation(): void {
-    if (typeof window === 'undefined') return;
-    
-    localStorage.removeItem('storacha_delegation');
-    localStorage.removeItem('storacha_space_info');
+  async clearDelegation(): Promise<void> {
+    await records().remove(DELEGATION_RECORD);
+    await records().remove(SPACE_RECORD);
   },
 
   /**
    * Save space information
    */
-  saveSpaceInfo(spaceDid: string, spaceName?: string): void {
-    if (typeof window === 'undefined') return;
-    
-    localStorage.setItem('storacha_space_info', JSON.stringify({
+  async saveSpaceInfo(spaceDid: string, spaceName?: string): Promise<void> {
+    await records().write(SPACE_RECORD, {
       did: spaceDid,
       name: spaceName,
       lastUsed: Date.now(),
-    }));
+    });
   },
 
   /**
    * Load space information
    */
-  loadSpaceInfo(): { did: string; name?: string; lastUsed: number } | null {
-    if (typeof window === 'undefined') return null;
-    
-    const stored = localStorage.getItem('storacha_space_info');
-    if (!stored) return null;
-
+  async loadSpaceInfo(): Promise<StoredSpaceInfo | null> {
     try {
-      return JSON.parse(stored);
+      return await records().read(SPACE_RECORD);
     } catch {
       return null;
     }
@@ -278,12 +728,11 @@ export const storage = {
   /**
    * Clear all Storacha-related data
    */
-  clearAll(): void {
-    if (typeof window === 'undefined') return;
-    
-    localStorage.removeItem('storacha_delegation');
-    localStorage.removeItem('storacha_space_info');
-    localStorage.removeItem('storacha_client_state');
+  async clearAll(): Promise<void> {
+    await this.clearDelegation();
+    for (const key of LEGACY_KEYS) {
+      await records().remove(key);
+    }
   },
 };
 
@@ -303,16 +752,23 @@ export const utils = {
   },
 
   /**
-   * Generate a random string for nonce/challenge
+   * Generate a cryptographically random string for nonce/challenge
    */
   generateNonce(length: number = 16): string {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    // Largest multiple of chars.length that fits in a byte, to avoid modulo bias
+    const limit = 256 - (256 % chars.length);
     let result = '';
-    
-    for (let i = 0; i < length; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
+
+    while (result.length < length) {
+      const bytes = crypto.getRandomValues(new Uint8Array(length * 2));
+      for (const byte of bytes) {
+        if (byte < limit && result.length < length) {
+          result += chars.charAt(byte % chars.length);
+        }
+      }
     }
-    
+
     return result;
   },
 
@@ -333,141 +789,71 @@ export const utils = {
   },
 
   /**
-   * Validate if a string is a valid CID with proper regex patterns
+   * Validate a CID by decoding it (multibase, version, codec, multihash)
    */
   isValidCID(cid: string): boolean {
     if (!cid || typeof cid !== 'string') {
       return false;
     }
 
-    // Clean the CID first
-    const cleanCID = this.extractCID(cid);
-    
-    if (!cleanCID) {
-      return false;
-    }
-
-    // CID v0 (Qm...): starts with Qm, 46 characters, base58btc
-    // Qm followed by 44 base58 characters = 46 total
-    if (cleanCID.startsWith('Qm') && cleanCID.length === 46) {
-      // Base58btc alphabet: [1-9A-HJ-NP-Za-km-z]
-      return /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(cleanCID);
-    }
-
-    // CID v1 base32 (b...): base32 encoding
-    // Base32 alphabet: [a-z][2-7]
-    if (cleanCID.startsWith('b')) {
-      return /^b[a-z2-7]+$/.test(cleanCID) && cleanCID.length >= 59; // Minimum length for v1 base32
-    }
-
-    // CID v1 base58btc (z...)
-    if (cleanCID.startsWith('z')) {
-      // z + multibase base58btc encoding
-      return /^z[1-9A-HJ-NP-Za-km-z]+$/.test(cleanCID) && cleanCID.length >= 46;
-    }
-
-    // CID v1 base16 (f...): hexadecimal
-    if (cleanCID.startsWith('f')) {
-      return /^f[0-9a-f]+$/.test(cleanCID);
-    }
-
-    // CID v1 base36 (v...): alphanumeric
-    if (cleanCID.startsWith('v')) {
-      return /^v[0-9a-z]+$/.test(cleanCID);
-    }
-
-    // CID v1 base10 (t...): decimal
-    if (cleanCID.startsWith('t')) {
-      return /^t[0-9]+$/.test(cleanCID);
-    }
-
-    // CID v1 base64 (m... or M...)
-    if (cleanCID.startsWith('m') || cleanCID.startsWith('M')) {
-      // Base64 alphabet: A-Za-z0-9+/ with optional padding =
-      return /^[mM][A-Za-z0-9+/]+={0,2}$/.test(cleanCID);
-    }
-
-    // Additional common CID v1 prefixes
-    const commonPrefixes = ['k', 'K', 'h', 'H', '9'];
-    if (commonPrefixes.includes(cleanCID[0])) {
-      return cleanCID.length > 30;
-    }
-
-    // For unknown patterns, do a generic check
-    // Minimum reasonable CID length is about 30 characters
-    if (cleanCID.length < 30) {
-      return false;
-    }
+    return parseCID(this.extractCID(cid)).ok;
+  },
 
-    // Check for common CID characters
-    // Most CIDs use base32, base58, or base64 characters
-    return /^[a-zA-Z0-9_\-\.]+$/.test(cleanCID);
+  /**
+   * Decode a CID into its parts: version, multibase, codec and multihash.
+   * Throws CIDError saying exactly what is wrong with an invalid CID.
+   */
+  inspectCID(cid: string): CIDInfo {
+    return inspectCID(this.extractCID(cid));
   },
 
   /**
-   * Create a gateway URL from a CID
+   * Canonical CIDv1 base32 form, the one gateways expect in subdomains
    */
-  createGatewayURL(cid: string, filename?: string, gateway: string = 'dweb.link'): string {
-    const cleanCID = this.extractCID(cid);
-    if (!this.isValidCID(cleanCID)) {
-      throw new Error(`Invalid CID: ${cid}`);
-    }
+  normalizeCID(cid: string): string {
+    return normalizeCID(this.extractCID(cid));
+  },
 
-    let url = `https://${cleanCID}.ipfs.${gateway}`;
-    
-    if (filename) {
-      // Ensure filename is properly encoded and doesn't start with /
-      const cleanFilename = filename.replace(/^\//, '');
-      url += `/${encodeURIComponent(cleanFilename)}`;
-    }
-    
-    return url;
+  /**
+   * Create a gateway URL from a CID. `path` may span several segments
+   * ("documents/notes.txt"); each segment is encoded separately.
+   */
+  createGatewayURL(
+    cid: string,
+    path?: string,
+    gateway: string | Gateway = 'dweb.link',
+    options: Omit<GatewayURLOptions, 'gateway' | 'path'> = {}
+  ): string {
+    return buildGatewayURL(this.normalizeCID(cid), { ...options, gateway, path });
   },
 
   /**
    * Create an IPFS URL from a CID
    */
-  createIPFSURL(cid: string, filename?: string): string {
-    const cleanCID = this.extractCID(cid);
-    if (!this.isValidCID(cleanCID)) {
-      throw new Error(`Invalid CID: ${cid}`);
-    }
-
-    let url = `ipfs://${cleanCID}`;
+  createIPFSURL(cid: string, path?: string): string {
+    let url = `ipfs://${this.normalizeCID(cid)}`;
     
-    if (filename) {
-      const cleanFilename = filename.replace(/^\//, '');
-      url += `/${encodeURIComponent(cleanFilename)}`;
+    if (path) {
+      url += `/${encodeGatewayPath(path)}`;
     }
     
     return url;
   },
 
   /**
-   * Create multiple gateway URLs for redundancy
+   * Create multiple gateway URLs for redundancy, each in the style its
+   * gateway supports
    */
-  createGatewayURLs(cid: string, filename?: string): string[] {
-    const cleanCID = this.extractCID(cid);
-    if (!this.isValidCID(cleanCID)) {
+  createGatewayURLs(
+    cid: string,
+    path?: string,
+    options: Omit<GatewayURLOptions, 'gateway' | 'path'> = {}
+  ): string[] {
+    if (!this.isValidCID(cid)) {
       return [];
     }
 
-    const gateways = [
-      'dweb.link',
-      'w3s.link',
-      'ipfs.io',
-      'cloudflare-ipfs.com',
-      'gateway.pinata.cloud'
-    ];
-
-    return gateways.map(gateway => {
-      let url = `https://${cleanCID}.ipfs.${gateway}`;
-      if (filename) {
-        const cleanFilename = filename.replace(/^\//, '');
-        url += `/${encodeURIComponent(cleanFilename)}`;
-      }
-      return url;
-    });
+    return GATEWAYS.map(gateway => this.createGatewayURL(cid, path, gateway, options));
   },
 
   /**
@@ -671,9 +1057,21 @@ export const utils = {
 // Export types
 export type {
   DelegationResponse as DelegationResponseType,
+  DelegationRequest as DelegationRequestType,
+  ChallengeResponse as ChallengeResponseType,
+  DelegationStatusResponse as DelegationStatusResponseType,
+  SpaceSummary as SpaceSummaryType,
+  ProxyUploadResponse as ProxyUploadResponseType,
+  SpacesResponse as SpacesResponseType,
+  StoredDelegation as StoredDelegationType,
+  StoredSpaceInfo as StoredSpaceInfoType,
   HealthResponse as HealthResponseType,
+  LivenessResponse as LivenessResponseType,
+  ReadinessResponse as ReadinessResponseType,
   TestResponse as TestResponseType,
   UploadProgress as UploadProgressType,
+  CIDInfo as CIDInfoType,
+  GatewayURLOptions as GatewayURLOptionsType,
 };
 
 // Default export
@@ -0,0 +1,81 @@
+// src/lib/cid.test.ts
+import { beforeAll, describe, expect, it } from 'vitest';
+import { CID } from 'multiformats/cid';
+import { base58btc } from 'multiformats/bases/base58';
+import { base64 } from 'multiformats/bases/base64';
+import { sha256 } from 'multiformats/hashes/sha2';
+import { CIDError, convertCIDBase, inspectCID, normalizeCID, parseCID, toCIDv0, toCIDv1 } from './cid';
+
+const DAG_PB = 0x70;
+const RAW = 0x55;
+
+describe('cid', () => {
+  let v0: string;
+  let v1: string;
+  let raw: string;
+
+  beforeAll(async () => {
+    const digest = await sha256.digest(new TextEncoder().encode('hello'));
+    v0 = CID.createV0(digest).toString();
+    v1 = CID.createV1(DAG_PB, digest).toString();
+    raw = CID.createV1(RAW, digest).toString();
+  });
+
+  it('describes a CIDv0 and normalises it to CIDv1 base32', () => {
+    const info = inspectCID(`  ${v0} `);
+
+    expect(info).toMatchObject({
+      version: 0,
+      base: 'base58btc',
+      normalized: v1,
+      codec: { code: DAG_PB, name: 'dag-pb' },
+      multihash: { code: 0x12, name: 'sha2-256', digestLength: 32 },
+    });
+  });
+
+  it('reads any multibase and names unknown codecs by code', () => {
+    const base64CID = CID.parse(raw).toString(base64);
+
+    expect(inspectCID(base64CID)).toMatchObject({ base: 'base64', version: 1, normalized: raw, codec: { name: 'raw' } });
+
+    const unknown = CID.createV1(0x9999, CID.parse(raw).multihash).toString();
+    expect(inspectCID(unknown).codec.name).toBe('unknown (0x9999)');
+  });
+
+  it.each([
+    ['', /CID is empty/],
+    ['Qm0OIl', /outside the base58btc alphabet/],
+    ['!abc', /Unknown multibase prefix "!"/],
+    ['b!!!!', /Invalid base32 encoding/],
+  ])('explains why %j is not a CID', (input, reason) => {
+    const result = parseCID(input);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toMatch(reason);
+  });
+
+  it('rejects a CIDv0 written with a multibase prefix', () => {
+    expect(() => inspectCID(`z${v0}`)).toThrow(/bare base58btc/);
+  });
+
+  it('reports a truncated digest and trailing bytes', () => {
+    const bytes = CID.parse(v1).bytes;
+
+    expect(() => inspectCID(base58btc.encode(bytes.subarray(0, bytes.length - 2)))).toThrow(/declares 32 digest bytes, only 30 present/);
+    expect(() => inspectCID(base58btc.encode(Uint8Array.from([...bytes, 1, 2])))).toThrow(/2 unexpected trailing byte/);
+  });
+
+  it('converts between versions and bases', () => {
+    expect(normalizeCID(v0)).toBe(v1);
+    expect(normalizeCID(CID.parse(v0))).toBe(v1);
+    expect(toCIDv0(v1)).toBe(v0);
+    expect(toCIDv1(v0, 'base58btc')).toBe(CID.parse(v1).toString(base58btc));
+    expect(convertCIDBase(raw, 'base64')).toBe(CID.parse(raw).toString(base64));
+  });
+
+  it('refuses conversions a CID has no form for', () => {
+    expect(() => toCIDv0(raw)).toThrow(CIDError);
+    expect(() => toCIDv0(raw)).toThrow(/this is raw \/ sha2-256/);
+    expect(() => convertCIDBase(v0, 'base32')).toThrow(/CIDv0 can only be written in base58btc/);
+  });
+});
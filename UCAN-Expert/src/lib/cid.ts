@@ -0,0 +1,203 @@
+// src/lib/cid.ts
+import { CID } from 'multiformats/cid';
+import { bases } from 'multiformats/basics';
+
+export type BaseName = keyof typeof bases;
+
+type Base = (typeof bases)[BaseName];
+
+/**
+ * Names for the codecs and hash functions commonly seen on IPFS and
+ * Storacha. Anything else is reported by its hex code.
+ */
+const CODEC_NAMES: Record<number, string> = {
+  0x55: 'raw',
+  0x70: 'dag-pb',
+  0x71: 'dag-cbor',
+  0x72: 'libp2p-key',
+  0x0129: 'dag-json',
+  0x0200: 'json',
+  0x0202: 'car',
+  0xf101: 'fil-commitment-unsealed',
+  0xf102: 'fil-commitment-sealed',
+};
+
+const HASH_NAMES: Record<number, string> = {
+  0x00: 'identity',
+  0x11: 'sha1',
+  0x12: 'sha2-256',
+  0x13: 'sha2-512',
+  0x16: 'sha3-256',
+  0x1b: 'keccak-256',
+  0x1e: 'blake3',
+  0x1011: 'fr32-sha256-trunc254-padbintree',
+  0x1012: 'sha2-256-trunc254-padded',
+  0xb220: 'blake2b-256',
+  0xb260: 'blake2s-256',
+};
+
+const hex = (code: number) => `0x${code.toString(16)}`;
+
+export const codecName = (code: number) => CODEC_NAMES[code] ?? `unknown (${hex(code)})`;
+export const hashName = (code: number) => HASH_NAMES[code] ?? `unknown (${hex(code)})`;
+
+export class CIDError extends Error {
+  constructor(message: string, public input: string) {
+    super(message);
+    this.name = 'CIDError';
+  }
+}
+
+export interface CIDInfo {
+  /** The parsed CID */
+  cid: CID;
+  /** Canonical string form: CIDv1 in base32 */
+  normalized: string;
+  /** The string as given */
+  input: string;
+  version: 0 | 1;
+  /** Multibase the input was written in */
+  base: BaseName;
+  codec: { code: number; name: string };
+  multihash: { code: number; name: string; digestLength: number };
+}
+
+export type CIDParseResult =
+  | { ok: true; value: CIDInfo }
+  | { ok: false; error: string };
+
+const basesByPrefix = (Object.entries(bases) as [BaseName, Base][])
+  .filter(([name]) => name !== 'identity');
+
+/**
+ * Decode a CID string: multibase, version, codec and multihash, with a
+ * precise reason when any of them is wrong
+ */
+export function parseCID(input: string): CIDParseResult {
+  try {
+    return { ok: true, value: decodeCID(input) };
+  } catch (error) {
+    return { ok: false, error: (error as Error).message };
+  }
+}
+
+function decodeCID(input: string): CIDInfo {
+  const source = input.trim();
+  if (!source) {
+    throw new CIDError('CID is empty', input);
+  }
+
+  let base: BaseName;
+  let bytes: Uint8Array;
+
+  if (source[0] === 'Q') {
+    // CIDv0: bare base58btc, no multibase prefix
+    base = 'base58btc';
+    try {
+      bytes = bases.base58btc.baseDecode(source);
+    } catch {
+      throw new CIDError('CIDv0 contains characters outside the base58btc alphabet', input);
+    }
+  } else {
+    const match = basesByPrefix.find(([, codec]) => source.startsWith(codec.prefix));
+    if (!match) {
+      throw new CIDError(`Unknown multibase prefix "${source[0]}"`, input);
+    }
+
+    const [name, codec] = match;
+    base = name;
+    try {
+      bytes = codec.baseDecode(source.slice(codec.prefix.length));
+    } catch (error) {
+      throw new CIDError(`Invalid ${name} encoding: ${(error as Error).message}`, input);
+    }
+  }
+
+  let layout: ReturnType<typeof CID.inspectBytes>;
+  try {
+    layout = CID.inspectBytes(bytes);
+  } catch (error) {
+    throw new CIDError(`Invalid CID header: ${(error as Error).message}`, input);
+  }
+
+  if (layout.version === 0 && source[0] !== 'Q') {
+    throw new CIDError('CIDv0 must be written in bare base58btc (starting "Qm"), without a multibase prefix', input);
+  }
+  if (layout.version === 0 && (layout.multihashCode !== 0x12 || layout.digestSize !== 32)) {
+    throw new CIDError('CIDv0 must be a sha2-256 multihash with a 32-byte digest', input);
+  }
+  if (bytes.length < layout.size) {
+    throw new CIDError(
+      `Multihash is truncated: ${hashName(layout.multihashCode)} header declares ${layout.digestSize} digest bytes, only ${layout.digestSize - (layout.size - bytes.length)} present`,
+      input
+    );
+  }
+  if (bytes.length > layout.size) {
+    throw new CIDError(`${bytes.length - layout.size} unexpected trailing byte(s) after the multihash`, input);
+  }
+
+  const cid = CID.decode(bytes);
+
+  return {
+    cid,
+    normalized: cid.toV1().toString(bases.base32),
+    input,
+    version: cid.version,
+    base,
+    codec: { code: cid.code, name: codecName(cid.code) },
+    multihash: {
+      code: cid.multihash.code,
+      name: hashName(cid.multihash.code),
+      digestLength: cid.multihash.digest.length,
+    },
+  };
+}
+
+/**
+ * Parse a CID, throwing CIDError with the reason when it is invalid
+ */
+export function inspectCID(input: string): CIDInfo {
+  return decodeCID(input);
+}
+
+/**
+ * Canonical form used for gateway URLs and stored results: CIDv1, base32
+ */
+export function normalizeCID(input: string | CID): string {
+  return typeof input === 'string'
+    ? decodeCID(input).normalized
+    : input.toV1().toString(bases.base32);
+}
+
+/**
+ * CIDv1 string in the given base (base32 by default)
+ */
+export function toCIDv1(input: string, base: BaseName = 'base32'): string {
+  return decodeCID(input).cid.toV1().toString(bases[base]);
+}
+
+/**
+ * CIDv0 ("Qm...") string. Only dag-pb CIDs with a sha2-256 multihash have one.
+ */
+export function toCIDv0(input: string): string {
+  const { cid } = decodeCID(input);
+  if (cid.code !== 0x70 || cid.multihash.code !== 0x12) {
+    throw new CIDError(
+      `Only dag-pb sha2-256 CIDs have a CIDv0 form (this is ${codecName(cid.code)} / ${hashName(cid.multihash.code)})`,
+      input
+    );
+  }
+  return cid.toV0().toString();
+}
+
+/**
+ * Re-encode a CID in another multibase without changing its version.
+ * CIDv0 can only be written in base58btc.
+ */
+export function convertCIDBase(input: string, base: BaseName): string {
+  const { cid } = decodeCID(input);
+  if (cid.version === 0 && base !== 'base58btc') {
+    throw new CIDError(`CIDv0 can only be written in base58btc; convert it to CIDv1 for ${base}`, input);
+  }
+  return cid.version === 0 ? cid.toString() : cid.toString(bases[base]);
+}
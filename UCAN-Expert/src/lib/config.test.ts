@@ -0,0 +1,139 @@
+// src/lib/config.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { validateConfig } from './config';
+
+const MB = 1024 * 1024;
+
+// Config state is read once per module instance, as on page load
+const loadModule = async ({ saved, runtime }: { saved?: unknown; runtime?: unknown } = {}) => {
+  const items = new Map<string, string>(saved ? [['storacha_config', JSON.stringify(saved)]] : []);
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  });
+  vi.stubGlobal('fetch', vi.fn(async () =>
+    runtime ? Response.json(runtime) : new Response('Not found', { status: 404 })));
+
+  vi.resetModules();
+  return { items, ...await import('./config') };
+};
+
+describe('validateConfig', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('parses env-style strings and trims trailing slashes', () => {
+    expect(validateConfig({
+      profile: 'staging',
+      apiBaseUrl: 'https://api.example//',
+      autoConnect: 'false',
+      persistSession: true,
+      maxUploadSize: '2048',
+      serviceDid: 'did:web:up.example',
+    })).toEqual({
+      profile: 'staging',
+      apiBaseUrl: 'https://api.example',
+      autoConnect: false,
+      persistSession: true,
+      maxUploadSize: 2048,
+      serviceDid: 'did:web:up.example',
+    });
+  });
+
+  it('drops unknown profiles and invalid values with a warning', () => {
+    const config = validateConfig({ profile: 'qa', maxUploadSize: -1, autoConnect: 'yes', serviceDid: 'web:x', extra: 1 }, 'test.json');
+
+    expect(config).toEqual({});
+    expect(console.warn).toHaveBeenCalledWith('⚠️ Unknown profile "qa" in test.json');
+    expect(vi.mocked(console.warn).mock.calls.map(([message]) => message)).toEqual(expect.arrayContaining([
+      expect.stringContaining('maxUploadSize'),
+      expect.stringContaining('autoConnect'),
+      expect.stringContaining('serviceDid'),
+      expect.stringContaining('extra'),
+    ]));
+    expect(validateConfig('not an object')).toEqual({});
+  });
+});
+
+describe('profile resolution', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('starts on the dev profile during development', async () => {
+    const { getConfig, PROFILES } = await loadModule();
+
+    expect(getConfig()).toEqual({ ...PROFILES.dev, profile: 'dev' });
+  });
+
+  it('layers env, the runtime file and saved settings over the profile, in that order', async () => {
+    vi.stubEnv('VITE_STORACHA_PROFILE', 'mock');
+    vi.stubEnv('VITE_MAX_UPLOAD_SIZE', String(MB));
+    vi.stubEnv('VITE_GATEWAY', 'env.example');
+    const { getConfig, loadConfig, PROFILES } = await loadModule({
+      runtime: { defaultGateway: 'runtime.example', autoConnect: true },
+      saved: { autoConnect: false },
+    });
+
+    expect(getConfig()).toMatchObject({ profile: 'mock', maxUploadSize: MB, defaultGateway: 'env.example', autoConnect: false });
+    expect(await loadConfig()).toEqual({
+      ...PROFILES.mock,
+      profile: 'mock',
+      maxUploadSize: MB,
+      defaultGateway: 'runtime.example',
+      autoConnect: false,
+    });
+  });
+
+  it('lets the runtime file pick the profile', async () => {
+    const { loadConfig, PROFILES } = await loadModule({ runtime: { profile: 'prod' } });
+
+    expect(await loadConfig()).toEqual({ ...PROFILES.prod, profile: 'prod' });
+  });
+
+  it('saves settings and notifies subscribers', async () => {
+    const { items, getConfig, subscribeConfig, updateConfig } = await loadModule();
+    const listener = vi.fn();
+    subscribeConfig(listener);
+
+    updateConfig({ defaultGateway: 'saved.example' });
+
+    expect(getConfig().defaultGateway).toBe('saved.example');
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ defaultGateway: 'saved.example' }));
+    expect(JSON.parse(items.get('storacha_config')!)).toEqual({ defaultGateway: 'saved.example' });
+  });
+
+  it('drops other saved settings when the profile changes, and resets to the defaults', async () => {
+    const { items, getConfig, resetConfig, updateConfig, PROFILES } = await loadModule({ saved: { maxUploadSize: 5 } });
+
+    updateConfig({ profile: 'mock' });
+    expect(getConfig()).toEqual({ ...PROFILES.mock, profile: 'mock' });
+
+    updateConfig({ maxUploadSize: 7 });
+    expect(getConfig()).toMatchObject({ profile: 'mock', maxUploadSize: 7 });
+
+    resetConfig();
+    expect(getConfig()).toEqual({ ...PROFILES.dev, profile: 'dev' });
+    expect(items.has('storacha_config')).toBe(false);
+  });
+
+  it('ignores unreadable saved settings', async () => {
+    vi.stubGlobal('localStorage', { getItem: () => '{broken' });
+    vi.resetModules();
+    const { getConfig, PROFILES } = await import('./config');
+
+    expect(getConfig()).toEqual({ ...PROFILES.dev, profile: 'dev' });
+  });
+});
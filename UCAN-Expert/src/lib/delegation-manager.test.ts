@@ -0,0 +1,170 @@
+// src/lib/delegation-manager.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChallengeSigner, DelegationResponse, StorachaAPI } from './api';
+import { NetworkError, UnauthorizedError } from './api-errors';
+import { createDelegationManager, describeRenewal, formatDuration, type RenewalState } from './delegation-manager';
+
+const NOW = 1_700_000_000;
+const HOUR = 3600;
+
+const signer: ChallengeSigner = { did: () => 'did:key:z6MkAgent', sign: async () => new Uint8Array() };
+
+const delegation = (expiresAt: number) => ({ expiresAt } as DelegationResponse);
+
+const setup = (options: { renewBefore?: number } = {}) => {
+  const getDelegationWithRetry = vi.fn(async () => delegation(NOW + 2 * HOUR));
+  const apply = vi.fn(async (_delegation: DelegationResponse) => {});
+  const manager = createDelegationManager({
+    signer,
+    apply,
+    api: { getDelegationWithRetry } as unknown as StorachaAPI,
+    retryDelay: 30,
+    maxRetryDelay: 120,
+    ...options,
+  });
+  const states: RenewalState[] = [];
+  manager.subscribe(state => states.push(state));
+  return { manager, getDelegationWithRetry, apply, states };
+};
+
+// Advance the clock to `time` (unix seconds), running due timers and their renewals
+const advanceTo = (time: number) => vi.advanceTimersByTimeAsync(time * 1000 - Date.now());
+
+describe('createDelegationManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW * 1000);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('renews 10% of the lifetime before expiry, and no earlier', async () => {
+    const { manager, getDelegationWithRetry } = setup();
+
+    manager.start(delegation(NOW + 10 * HOUR));
+    expect(manager.getState()).toEqual({ status: 'scheduled', expiresAt: NOW + 10 * HOUR, renewAt: NOW + 9 * HOUR });
+
+    await advanceTo(NOW + 9 * HOUR - 1);
+    expect(getDelegationWithRetry).not.toHaveBeenCalled();
+    await advanceTo(NOW + 9 * HOUR);
+    expect(getDelegationWithRetry).toHaveBeenCalledOnce();
+  });
+
+  it('renews at least five minutes before expiry, or as set', async () => {
+    const { manager } = setup();
+    manager.start(delegation(NOW + 1000));
+    expect(manager.getState()).toMatchObject({ renewAt: NOW + 700 });
+
+    const custom = setup({ renewBefore: 60 }).manager;
+    custom.start(delegation(NOW + HOUR));
+    expect(custom.getState()).toMatchObject({ renewAt: NOW + HOUR - 60 });
+  });
+
+  it('applies the renewed delegation and schedules the next renewal', async () => {
+    const { manager, apply, getDelegationWithRetry } = setup();
+    getDelegationWithRetry.mockResolvedValueOnce(delegation(NOW + 4 * HOUR));
+
+    manager.start(delegation(NOW + 1000));
+    await advanceTo(NOW + 700);
+
+    expect(getDelegationWithRetry).toHaveBeenCalledWith('did:key:z6MkAgent', { signer });
+    expect(apply).toHaveBeenCalledWith(delegation(NOW + 4 * HOUR));
+    expect(manager.getState()).toMatchObject({ status: 'scheduled', expiresAt: NOW + 4 * HOUR });
+  });
+
+  it('retries a transient failure with doubling delays up to the maximum', async () => {
+    const { manager, getDelegationWithRetry } = setup();
+    getDelegationWithRetry.mockRejectedValue(new NetworkError('offline'));
+
+    manager.start(delegation(NOW + HOUR));
+    const renewAt = NOW + 9 * HOUR / 10;
+    await advanceTo(renewAt);
+    expect(manager.getState()).toMatchObject({ status: 'failed', attempt: 1, retryAt: renewAt + 30 });
+
+    await advanceTo(renewAt + 30);
+    expect(manager.getState()).toMatchObject({ attempt: 2, retryAt: renewAt + 90 });
+    await advanceTo(renewAt + 90);
+    await advanceTo(renewAt + 210);
+    expect(manager.getState()).toMatchObject({ attempt: 4, retryAt: renewAt + 330 });
+
+    getDelegationWithRetry.mockResolvedValue(delegation(NOW + 3 * HOUR));
+    await advanceTo(renewAt + 330);
+    expect(getDelegationWithRetry).toHaveBeenCalledTimes(5);
+    expect(manager.getState()).toMatchObject({ status: 'scheduled', expiresAt: NOW + 3 * HOUR });
+  });
+
+  it('reports expiry while retrying, and recovers when the backend returns', async () => {
+    const { manager, getDelegationWithRetry, states } = setup({ renewBefore: 10 });
+    getDelegationWithRetry.mockRejectedValueOnce(new NetworkError('offline'));
+
+    manager.start(delegation(NOW + 100));
+    await advanceTo(NOW + 90);
+    expect(manager.getState()).toMatchObject({ status: 'failed', retryAt: NOW + 120 });
+
+    await advanceTo(NOW + 100);
+    expect(manager.getState()).toEqual({ status: 'expired', expiresAt: NOW + 100 });
+
+    await advanceTo(NOW + 120);
+    expect(manager.getState()).toMatchObject({ status: 'scheduled', expiresAt: NOW + 2 * HOUR });
+    expect(states.map(state => state.status)).toEqual(['scheduled', 'renewing', 'failed', 'expired', 'renewing', 'scheduled']);
+  });
+
+  it('stops retrying when the server refuses the agent', async () => {
+    const { manager, getDelegationWithRetry } = setup();
+    getDelegationWithRetry.mockRejectedValue(new UnauthorizedError('Challenge failed', 401));
+
+    await manager.renewNow();
+
+    expect(manager.getState()).toEqual({ status: 'failed', expiresAt: 0, attempt: 1, error: 'Challenge failed' });
+    await vi.advanceTimersByTimeAsync(24 * HOUR * 1000);
+    expect(getDelegationWithRetry).toHaveBeenCalledOnce();
+  });
+
+  it('renews an already expired delegation straight away', async () => {
+    const { manager, getDelegationWithRetry } = setup();
+
+    manager.start(delegation(NOW - 1));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(getDelegationWithRetry).toHaveBeenCalledOnce();
+    expect(manager.getState()).toMatchObject({ status: 'scheduled', expiresAt: NOW + 2 * HOUR });
+  });
+
+  it('shares one renewal between concurrent callers', async () => {
+    const { manager, getDelegationWithRetry } = setup();
+
+    await Promise.all([manager.renewNow(), manager.renewNow()]);
+
+    expect(getDelegationWithRetry).toHaveBeenCalledOnce();
+  });
+
+  it('drops a renewal that finishes after stop', async () => {
+    const { manager, apply, getDelegationWithRetry } = setup();
+    let finish!: (value: DelegationResponse) => void;
+    getDelegationWithRetry.mockReturnValueOnce(new Promise(resolve => (finish = resolve)));
+
+    const renewal = manager.renewNow();
+    manager.stop();
+    finish(delegation(NOW + HOUR));
+    await renewal;
+
+    expect(apply).not.toHaveBeenCalled();
+    expect(manager.getState()).toEqual({ status: 'idle' });
+  });
+});
+
+describe('describeRenewal', () => {
+  it('summarises each state', () => {
+    expect(formatDuration(2 * 86400 + 5)).toBe('2d');
+    expect(formatDuration(59)).toBe('59s');
+    expect(describeRenewal({ status: 'scheduled', expiresAt: NOW + 3 * HOUR, renewAt: NOW }, NOW)).toBe('expires in 3h');
+    expect(describeRenewal({ status: 'renewing', expiresAt: NOW, attempt: 2 }, NOW)).toBe('renewing (attempt 2)…');
+    expect(describeRenewal({ status: 'failed', expiresAt: NOW, attempt: 1, error: 'nope', retryAt: NOW + 120 }, NOW))
+      .toBe('renewal failed, retrying in 2m');
+    expect(describeRenewal({ status: 'failed', expiresAt: NOW, attempt: 1, error: 'nope' }, NOW)).toBe('renewal failed: nope');
+  });
+});
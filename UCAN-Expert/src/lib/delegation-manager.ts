@@ -0,0 +1,218 @@
+// src/lib/delegation-manager.ts
+import {
+  api as defaultAPI,
+  APIError,
+  type ChallengeSigner,
+  type DelegationRequest,
+  type DelegationResponse,
+  type StorachaAPI,
+} from './api';
+
+/**
+ * Where the manager is in the renewal cycle. Times are Unix seconds, like
+ * `DelegationResponse.expiresAt`.
+ */
+export type RenewalState =
+  | { status: 'idle' }
+  | { status: 'scheduled'; expiresAt: number; renewAt: number }
+  | { status: 'renewing'; expiresAt: number; attempt: number }
+  /** `retryAt` is missing when the server refused and retrying cannot help */
+  | { status: 'failed'; expiresAt: number; attempt: number; error: string; retryAt?: number }
+  | { status: 'expired'; expiresAt: number };
+
+export interface DelegationManagerOptions {
+  /** Agent that receives the delegation; answers the server's challenge */
+  signer: ChallengeSigner;
+  /** Abilities, ttl and space to request on renewal */
+  scope?: Omit<DelegationRequest, 'signer'>;
+  /**
+   * Install a renewed delegation in the live client. Must not replace the
+   * client: uploads already running keep the proofs they started with.
+   */
+  apply: (delegation: DelegationResponse) => Promise<void>;
+  /** Seconds before expiry to renew; defaults to 10% of the lifetime, at least 5 minutes */
+  renewBefore?: number;
+  /** First retry delay after a failed renewal, in seconds (doubles each time) */
+  retryDelay?: number;
+  /** Longest delay between retries, in seconds */
+  maxRetryDelay?: number;
+  api?: StorachaAPI;
+}
+
+export interface DelegationManager {
+  /** Track `delegation` and schedule its renewal, replacing any earlier schedule */
+  start(delegation: Pick<DelegationResponse, 'expiresAt'>): void;
+  /** Renew immediately, e.g. from a "renew now" button */
+  renewNow(): Promise<void>;
+  stop(): void;
+  getState(): RenewalState;
+  subscribe(listener: (state: RenewalState) => void): () => void;
+}
+
+const MIN_RENEW_BEFORE = 300;
+const DEFAULT_RETRY_DELAY = 30;
+const DEFAULT_MAX_RETRY_DELAY = 600;
+// setTimeout overflows past ~24.8 days; longer waits are re-armed
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+// Errors that will not go away by asking again (bad request, refused
+// challenge); outages and timeouts are worth another try later
+const isPermanent = (error: unknown) =>
+  error instanceof APIError && (error.kind === 'unauthorized' || error.status === 400);
+
+/**
+ * Keeps a backend-issued delegation fresh: renews it through
+ * `getDelegationWithRetry` ahead of `expiresAt` and backs off when the
+ * backend cannot be reached
+ */
+export function createDelegationManager(options: DelegationManagerOptions): DelegationManager {
+  const client = options.api ?? defaultAPI;
+  const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+  const maxRetryDelay = options.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+  const listeners = new Set<(state: RenewalState) => void>();
+
+  let state: RenewalState = { status: 'idle' };
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let expiresAt = 0;
+  let attempt = 0;
+  let renewing: Promise<void> | null = null;
+  // Bumped by stop(), so a renewal finishing after logout is dropped
+  let generation = 0;
+
+  const setState = (next: RenewalState) => {
+    state = next;
+    listeners.forEach(listener => listener(state));
+  };
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const at = (time: number, run: () => void) => {
+    clearTimer();
+    const wait = Math.min(Math.max(0, time * 1000 - Date.now()), MAX_TIMER_MS);
+    timer = setTimeout(() => {
+      timer = null;
+      if (nowSeconds() < time) at(time, run);
+      else run();
+    }, wait);
+  };
+
+  const schedule = () => {
+    const now = nowSeconds();
+    const margin = options.renewBefore ?? Math.max(MIN_RENEW_BEFORE, Math.floor((expiresAt - now) * 0.1));
+    const renewAt = Math.max(now, expiresAt - margin);
+    setState({ status: 'scheduled', expiresAt, renewAt });
+    at(renewAt, () => void renew());
+  };
+
+  const renew = (): Promise<void> => {
+    renewing ??= (async () => {
+      const run = generation;
+      clearTimer();
+      attempt++;
+      setState({ status: 'renewing', expiresAt, attempt });
+
+      try {
+        const delegation = await client.getDelegationWithRetry(options.signer.did(), {
+          ...options.scope,
+          signer: options.signer,
+        });
+        if (run !== generation) return;
+        await options.apply(delegation);
+        expiresAt = delegation.expiresAt;
+        attempt = 0;
+        schedule();
+      } catch (error) {
+        if (run !== generation) return;
+        const message = error instanceof Error ? error.message : 'Renewal failed';
+        console.warn(`Delegation renewal failed (attempt ${attempt}):`, error);
+
+        if (isPermanent(error)) {
+          setState({ status: 'failed', expiresAt, attempt, error: message });
+          return;
+        }
+
+        // Keep retrying after expiry too: the backend may come back
+        const retryAt = nowSeconds() + Math.min(maxRetryDelay, retryDelay * 2 ** (attempt - 1));
+        const retry = () => void renew();
+
+        if (expiresAt <= nowSeconds()) {
+          setState({ status: 'expired', expiresAt });
+          at(retryAt, retry);
+          return;
+        }
+        setState({ status: 'failed', expiresAt, attempt, error: message, retryAt });
+        if (retryAt > expiresAt) {
+          at(expiresAt, () => {
+            setState({ status: 'expired', expiresAt });
+            at(retryAt, retry);
+          });
+        } else {
+          at(retryAt, retry);
+        }
+      }
+    })().finally(() => {
+      renewing = null;
+    });
+    return renewing;
+  };
+
+  return {
+    start(delegation) {
+      expiresAt = delegation.expiresAt;
+      attempt = 0;
+      if (expiresAt <= nowSeconds()) {
+        void renew();
+        return;
+      }
+      schedule();
+    },
+    renewNow: () => renew(),
+    stop() {
+      generation++;
+      clearTimer();
+      attempt = 0;
+      setState({ status: 'idle' });
+    },
+    getState: () => state,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Compact duration such as "3h", "12m" or "2d"
+ */
+export function formatDuration(seconds: number): string {
+  const units: [string, number][] = [['d', 86400], ['h', 3600], ['m', 60]];
+  for (const [unit, size] of units) {
+    if (seconds >= size) return `${Math.floor(seconds / size)}${unit}`;
+  }
+  return `${Math.max(0, Math.floor(seconds))}s`;
+}
+
+/**
+ * One-line status for the UI, e.g. "expires in 3h" or "renewal failed"
+ */
+export function describeRenewal(state: RenewalState, now = nowSeconds()): string {
+  switch (state.status) {
+    case 'idle':
+      return 'not renewing';
+    case 'scheduled':
+      return `expires in ${formatDuration(state.expiresAt - now)}`;
+    case 'renewing':
+      return state.attempt > 1 ? `renewing (attempt ${state.attempt})…` : 'renewing…';
+    case 'failed':
+      return state.retryAt === undefined
+        ? `renewal failed: ${state.error}`
+        : `renewal failed, retrying in ${formatDuration(state.retryAt - now)}`;
+    case 'expired':
+      return 'expired';
+  }
+}
@@ -0,0 +1,69 @@
+// src/lib/gateway.test.ts
+import { beforeAll, describe, expect, it } from 'vitest';
+import { CID } from 'multiformats/cid';
+import { sha256, sha512 } from 'multiformats/hashes/sha2';
+import { buildGatewayURL, encodeGatewayPath, gatewayProtocol, resolveGateway } from './gateway';
+
+const RAW = 0x55;
+
+describe('buildGatewayURL', () => {
+  let v0: string;
+  let v1: string;
+  let long: string;
+
+  beforeAll(async () => {
+    const bytes = new TextEncoder().encode('hello');
+    const digest = await sha256.digest(bytes);
+    v0 = CID.createV0(digest).toString();
+    v1 = CID.createV0(digest).toV1().toString();
+    long = CID.createV1(RAW, await sha512.digest(bytes)).toString();
+  });
+
+  it('uses a subdomain URL with the CIDv1 label where the gateway supports it', () => {
+    expect(buildGatewayURL(v0)).toBe(`https://${v1}.ipfs.dweb.link/`);
+    expect(buildGatewayURL(v1, { gateway: 'https://w3s.link/', path: 'docs/a b.txt' }))
+      .toBe(`https://${v1}.ipfs.w3s.link/docs/a%20b.txt`);
+  });
+
+  it('falls back to a path URL for gateways without subdomains and CIDs too long for a label', () => {
+    expect(buildGatewayURL(v0, { gateway: 'ipfs.io', mode: 'subdomain' })).toBe(`https://ipfs.io/ipfs/${v1}`);
+    expect(buildGatewayURL(long)).toBe(`https://dweb.link/ipfs/${long}`);
+  });
+
+  it('asks for a CAR in trustless mode and never names a file', () => {
+    const url = new URL(buildGatewayURL(v1, { mode: 'trustless', filename: 'a.txt', download: true }));
+
+    expect(url.pathname).toBe(`/ipfs/${v1}`);
+    expect([...url.searchParams]).toEqual([['format', 'car']]);
+    expect(buildGatewayURL(v1, { mode: 'trustless', format: 'raw' })).toBe(`https://dweb.link/ipfs/${v1}?format=raw`);
+  });
+
+  it('adds the file name and download flag', () => {
+    expect(buildGatewayURL(v1, { mode: 'path', filename: 'notes.txt', download: true }))
+      .toBe(`https://dweb.link/ipfs/${v1}?filename=notes.txt&download=true`);
+  });
+
+  it('serves local gateways over http', () => {
+    expect(buildGatewayURL(v1, { gateway: 'localhost:8787', mode: 'path' })).toBe(`http://localhost:8787/ipfs/${v1}`);
+  });
+
+  it('rejects an invalid CID', () => {
+    expect(() => buildGatewayURL('not-a-cid')).toThrow(/Unknown multibase prefix/);
+  });
+});
+
+describe('gateway helpers', () => {
+  it('resolves known hosts and assumes subdomain support for others', () => {
+    expect(resolveGateway('http://ipfs.io//')).toEqual({ host: 'ipfs.io', subdomain: false });
+    expect(resolveGateway('gw.example')).toEqual({ host: 'gw.example', subdomain: true });
+  });
+
+  it('picks http only for loopback hosts', () => {
+    expect(['localhost:8787', '127.0.0.1', '[::1]:80', 'app.localhost'].map(gatewayProtocol)).toEqual(['http:', 'http:', 'http:', 'http:']);
+    expect(gatewayProtocol('localhost.example')).toBe('https:');
+  });
+
+  it('encodes each path segment and drops empty ones', () => {
+    expect(encodeGatewayPath('/a b//c?d#e/')).toBe('a%20b/c%3Fd%23e');
+  });
+});
@@ -0,0 +1,128 @@
+// src/lib/gateway.ts
+import { bases } from 'multiformats/basics';
+import { inspectCID } from './cid';
+
+/**
+ * How the CID is placed in the URL:
+ * - subdomain: https://<cid>.ipfs.<host>/<path> (origin isolation per CID)
+ * - path:      https://<host>/ipfs/<cid>/<path>
+ * - trustless: path style with ?format=car|raw, for verifiable responses
+ */
+export type GatewayMode = 'subdomain' | 'path' | 'trustless';
+
+export type GatewayFormat = 'car' | 'raw';
+
+export interface Gateway {
+  host: string;
+  /** Whether the gateway serves https://<cid>.ipfs.<host> */
+  subdomain: boolean;
+}
+
+export const GATEWAYS: Gateway[] = [
+  { host: 'dweb.link', subdomain: true },
+  { host: 'w3s.link', subdomain: true },
+  { host: 'storacha.link', subdomain: true },
+  { host: 'ipfs.io', subdomain: false },
+  { host: 'gateway.pinata.cloud', subdomain: false },
+];
+
+export interface GatewayURLOptions {
+  /** Host name or gateway descriptor (default dweb.link) */
+  gateway?: string | Gateway;
+  /** Preferred mode; subdomain falls back to path when it cannot be used */
+  mode?: GatewayMode;
+  /** Path inside the DAG, e.g. "documents/notes.txt" */
+  path?: string;
+  /** Response format; trustless mode defaults to "car" */
+  format?: GatewayFormat;
+  /** Name for the Content-Disposition header */
+  filename?: string;
+  /** Ask the gateway to serve the file as an attachment */
+  download?: boolean;
+}
+
+// A DNS label holds at most 63 characters
+const MAX_LABEL_LENGTH = 63;
+
+/**
+ * Look up a known gateway by host; unknown hosts are assumed to support
+ * subdomains, as most public gateways do
+ */
+export function resolveGateway(gateway: string | Gateway = 'dweb.link'): Gateway {
+  if (typeof gateway !== 'string') {
+    return gateway;
+  }
+
+  const host = gateway.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+  return GATEWAYS.find(known => known.host === host) ?? { host, subdomain: true };
+}
+
+/**
+ * Local gateways (such as the mock service's) are served over plain http
+ */
+export function gatewayProtocol(host: string): 'http:' | 'https:' {
+  const hostname = host.replace(/:\d+$/, '');
+  return ['localhost', '127.0.0.1', '[::1]'].includes(hostname) || hostname.endsWith('.localhost')
+    ? 'http:'
+    : 'https:';
+}
+
+/**
+ * Encode each segment of a DAG path, keeping the "/" separators
+ */
+export function encodeGatewayPath(path: string): string {
+  return path
+    .split('/')
+    .filter(segment => segment !== '')
+    .map(segment => encodeURIComponent(segment))
+    .join('/');
+}
+
+/**
+ * The CID as a single DNS label: base32, or base36 when base32 is too long
+ * (e.g. sha2-512 multihashes). Null when neither fits.
+ */
+function subdomainLabel(input: string): string | null {
+  const v1 = inspectCID(input).cid.toV1();
+
+  for (const base of [bases.base32, bases.base36]) {
+    const label = v1.toString(base);
+    if (label.length <= MAX_LABEL_LENGTH) {
+      return label;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build a gateway URL for a CID. Subdomain mode falls back to path style
+ * when the gateway has no subdomain support or the CID does not fit in a
+ * DNS label.
+ */
+export function buildGatewayURL(cid: string, options: GatewayURLOptions = {}): string {
+  const gateway = resolveGateway(options.gateway);
+  const mode = options.mode ?? (gateway.subdomain ? 'subdomain' : 'path');
+  const path = options.path ? `/${encodeGatewayPath(options.path)}` : '';
+  const format = options.format ?? (mode === 'trustless' ? 'car' : undefined);
+
+  const label = mode === 'subdomain' && gateway.subdomain ? subdomainLabel(cid) : null;
+  const protocol = gatewayProtocol(gateway.host);
+  const url = new URL(label
+    ? `${protocol}//${label}.ipfs.${gateway.host}${path}`
+    : `${protocol}//${gateway.host}/ipfs/${inspectCID(cid).normalized}${path}`);
+
+  if (format) {
+    url.searchParams.set('format', format);
+  }
+  // Trustless responses are raw blocks or CARs, never a named file
+  if (mode !== 'trustless') {
+    if (options.filename) {
+      url.searchParams.set('filename', options.filename);
+    }
+    if (options.download) {
+      url.searchParams.set('download', 'true');
+    }
+  }
+
+  return url.toString();
+}
@@ -0,0 +1,82 @@
+// src/lib/qr.test.ts
+import { describe, expect, it } from 'vitest';
+import jsQR from 'jsqr';
+import { encodeQR, qrPath, QRCapacityError, type QRCode } from './qr';
+
+const MARGIN = 4;
+const SCALE = 4;
+
+// Render the code as RGBA pixels with a quiet zone, as a camera would see it
+const render = (code: QRCode) => {
+  const side = (code.size + MARGIN * 2) * SCALE;
+  const pixels = new Uint8ClampedArray(side * side * 4).fill(255);
+  code.modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (!dark) return;
+    for (let dy = 0; dy < SCALE; dy++) {
+      for (let dx = 0; dx < SCALE; dx++) {
+        const offset = (((y + MARGIN) * SCALE + dy) * side + (x + MARGIN) * SCALE + dx) * 4;
+        pixels.fill(0, offset, offset + 3);
+      }
+    }
+  }));
+  return { pixels, side };
+};
+
+const decode = (code: QRCode) => {
+  const { pixels, side } = render(code);
+  const result = jsQR(pixels, side, side, { inversionAttempts: 'dontInvert' });
+  return result && { bytes: Uint8Array.from(result.binaryData), version: result.version };
+};
+
+const bytesOf = (length: number, seed = 1) =>
+  Uint8Array.from({ length }, (_, i) => (i * 31 + seed) & 0xff);
+
+describe('encodeQR', () => {
+  it('decodes back to the delegation text', () => {
+    const text = 'mAYIEAP8NOqJlcm9vdHOB2CpYJQABcRIg' + 'x'.repeat(200);
+    const bytes = new TextEncoder().encode(text);
+
+    expect(decode(encodeQR(bytes))?.bytes).toEqual(bytes);
+  });
+
+  it.each([1, 17, 18, 100, 500, 1000])('decodes %i arbitrary bytes', length => {
+    const bytes = bytesOf(length, length);
+    expect(decode(encodeQR(bytes))?.bytes).toEqual(bytes);
+  });
+
+  it('picks the smallest version that fits', () => {
+    // Version 1 at level L holds 17 bytes
+    expect(encodeQR(bytesOf(17)).size).toBe(21);
+    expect(encodeQR(bytesOf(18)).size).toBe(25);
+
+    const code = encodeQR(bytesOf(300));
+    expect(decode(code)?.version).toBe((code.size - 17) / 4);
+  });
+
+  it('holds 2953 bytes at version 40 and rejects more', () => {
+    expect(encodeQR(bytesOf(2953)).size).toBe(177);
+    expect(() => encodeQR(bytesOf(2954))).toThrow(QRCapacityError);
+  });
+
+  it('reports the rejected length', () => {
+    expect(() => encodeQR(bytesOf(4000))).toThrow(expect.objectContaining({ name: 'QRCapacityError', length: 4000 }));
+  });
+
+  it.each(['M', 'Q', 'H'] as const)('decodes at level %s', level => {
+    const bytes = bytesOf(200);
+    expect(decode(encodeQR(bytes, level))?.bytes).toEqual(bytes);
+  });
+
+  it('holds less at higher levels', () => {
+    expect(encodeQR(bytesOf(1273), 'H').size).toBe(177);
+    expect(() => encodeQR(bytesOf(1274), 'H')).toThrow(expect.objectContaining({ level: 'H' }));
+    expect(encodeQR(bytesOf(100), 'H').size).toBeGreaterThan(encodeQR(bytesOf(100)).size);
+  });
+});
+
+describe('qrPath', () => {
+  it('draws one unit square per dark module, offset by the margin', () => {
+    const code: QRCode = { size: 2, modules: [[true, false], [false, true]] };
+    expect(qrPath(code, 1)).toBe('M1,1h1v1h-1zM2,2h1v1h-1z');
+  });
+});
@@ -0,0 +1,60 @@
+// src/lib/qr.ts
+import { create } from 'qrcode';
+
+/**
+ * QR codes for byte data, enough to show a delegation on screen. Encoding
+ * is done by the `qrcode` package; this module keeps the result as a
+ * module grid and draws it as an SVG path.
+ */
+export interface QRCode {
+  /** Modules per side */
+  size: number;
+  /** `modules[y][x]` is true for a dark module */
+  modules: boolean[][];
+}
+
+/** Error correction level: more recovers more damage but holds less */
+export type QRErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+// Bytes a version 40 code holds at each level
+const MAX_BYTES: Record<QRErrorCorrection, number> = { L: 2953, M: 2331, Q: 1663, H: 1273 };
+
+export class QRCapacityError extends Error {
+  constructor(public readonly length: number, public readonly level: QRErrorCorrection = 'L') {
+    super(`${length} bytes do not fit in a QR code at level ${level} (at most ${MAX_BYTES[level]})`);
+    this.name = 'QRCapacityError';
+  }
+}
+
+/**
+ * Encode bytes in the smallest QR code that holds them. Low error
+ * correction (level L) is the default, to fit as much as possible.
+ * Throws QRCapacityError when they do not fit.
+ */
+export function encodeQR(bytes: Uint8Array, level: QRErrorCorrection = 'L'): QRCode {
+  if (bytes.length > MAX_BYTES[level]) {
+    throw new QRCapacityError(bytes.length, level);
+  }
+
+  const { modules } = create([{ data: bytes, mode: 'byte' }], { errorCorrectionLevel: level });
+  return {
+    size: modules.size,
+    modules: Array.from({ length: modules.size }, (_, y) =>
+      Array.from({ length: modules.size }, (_, x) => !!modules.get(y, x))
+    ),
+  };
+}
+
+/**
+ * The code as an SVG path of unit squares, with a quiet zone of `margin`
+ * modules, for `<svg viewBox="0 0 n n"><path d={...} /></svg>`
+ */
+export function qrPath(code: QRCode, margin = 4): string {
+  const parts: string[] = [];
+  code.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    });
+  });
+  return parts.join('');
+}
@@ -0,0 +1,78 @@
+// src/lib/signatures.ts
+import * as UCAN from '@ipld/dag-ucan';
+import { isDelegation } from '@storacha/client/delegation';
+import { Verifier } from '@storacha/client/principal';
+import type { Delegation } from '@storacha/client/types';
+
+/**
+ * - valid / invalid: a did:key issuer's signature, checked against its key
+ * - attested / unattested: did:mailto issuers do not sign; the service
+ *   vouches for them with a `ucan/attest` delegation naming the proof
+ * - unverifiable: the key behind the DID (e.g. did:web) is not known here
+ */
+export type SignatureStatus = 'valid' | 'invalid' | 'attested' | 'unattested' | 'unverifiable';
+
+export interface SignatureCheck {
+  status: SignatureStatus;
+  detail: string;
+}
+
+// Every delegation in the tree, once
+const collect = (delegation: Delegation<any>, found = new Map<string, Delegation<any>>()) => {
+  found.set(delegation.cid.toString(), delegation);
+  for (const proof of delegation.proofs) {
+    if (isDelegation(proof)) collect(proof, found);
+  }
+  return found;
+};
+
+// Attestations in the tree, keyed by the CID of the proof they vouch for
+const attestations = (delegations: Iterable<Delegation<any>>) => {
+  const attested = new Map<string, string>();
+  for (const delegation of delegations) {
+    for (const capability of delegation.capabilities as any[]) {
+      if (capability.can === 'ucan/attest' && capability.nb?.proof) {
+        attested.set(capability.nb.proof.toString(), delegation.issuer.did());
+      }
+    }
+  }
+  return attested;
+};
+
+async function check(delegation: Delegation<any>, attested: Map<string, string>): Promise<SignatureCheck> {
+  const issuer = delegation.issuer.did();
+
+  if (issuer.startsWith('did:key:')) {
+    try {
+      const ok = await UCAN.verifySignature(delegation.data, Verifier.parse(issuer));
+      return ok
+        ? { status: 'valid', detail: 'Signed by the issuer key' }
+        : { status: 'invalid', detail: 'Signature does not match the issuer key' };
+    } catch (err) {
+      return { status: 'invalid', detail: err instanceof Error ? err.message : 'Cannot check the signature' };
+    }
+  }
+
+  if (issuer.startsWith('did:mailto:')) {
+    const by = attested.get(delegation.cid.toString());
+    return by
+      ? { status: 'attested', detail: `Attested by ${by}` }
+      : { status: 'unattested', detail: 'No ucan/attest for this account delegation is included' };
+  }
+
+  return { status: 'unverifiable', detail: `The key for ${issuer.split(':').slice(0, 2).join(':')} cannot be resolved here` };
+}
+
+/**
+ * Check the signature of every delegation in the chain, keyed by CID
+ */
+export async function checkSignatures(delegation: Delegation<any>): Promise<Map<string, SignatureCheck>> {
+  const delegations = collect(delegation);
+  const attested = attestations(delegations.values());
+  const results = new Map<string, SignatureCheck>();
+
+  for (const [cid, entry] of delegations) {
+    results.set(cid, await check(entry, attested));
+  }
+  return results;
+}
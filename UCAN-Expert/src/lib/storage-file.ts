@@ -0,0 +1,55 @@
+// src/lib/storage-file.ts - Node-only file backend for the storage interface
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { StorageBackend } from 'storacha-shared/storage';
+
+/**
+ * Keeps every key in one JSON file, written atomically (temp file plus
+ * rename) with owner-only permissions. Writes are serialised so
+ * concurrent calls cannot interleave.
+ */
+export function createFileBackend(path: string): StorageBackend {
+  let entries: Promise<Record<string, string>> | null = null;
+  let writing = Promise.resolve();
+
+  const load = () => {
+    entries ??= readFile(path, 'utf8')
+      .then(text => JSON.parse(text) as Record<string, string>)
+      .catch(error => {
+        if (error.code === 'ENOENT') return {};
+        throw error;
+      });
+    return entries;
+  };
+
+  const save = (data: Record<string, string>) => {
+    writing = writing.then(async () => {
+      await mkdir(dirname(path), { recursive: true });
+      const temp = `${path}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(data, null, 2), { mode: 0o600 });
+      await rename(temp, path);
+    });
+    return writing;
+  };
+
+  return {
+    name: 'file',
+    async get(key) {
+      return (await load())[key] ?? null;
+    },
+    async set(key, value) {
+      const data = await load();
+      data[key] = value;
+      await save(data);
+    },
+    async remove(key) {
+      const data = await load();
+      if (!(key in data)) return;
+      delete data[key];
+      await save(data);
+    },
+    async keys() {
+      return Object.keys(await load());
+    },
+  };
+}
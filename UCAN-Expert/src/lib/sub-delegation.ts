@@ -0,0 +1,139 @@
+// src/lib/sub-delegation.ts
+import * as DID from '@ipld/dag-ucan/did';
+import type { Client } from '@storacha/client';
+import type { Delegation, ServiceAbility } from '@storacha/client/types';
+import * as Link from 'multiformats/link';
+import { base64 } from 'multiformats/bases/base64';
+import { identity } from 'multiformats/hashes/identity';
+import { abilityCovers, inspectProof } from 'storacha-shared/proof-inspector';
+
+export interface SubDelegationRequest {
+  /** DID of the teammate or CI agent receiving the delegation */
+  audience: string;
+  /** Abilities to pass on, e.g. ['space/blob/add', 'upload/add'] */
+  abilities: ServiceAbility[];
+  /** Unix seconds */
+  expiration: number;
+}
+
+export interface AbilityCoverage {
+  ability: string;
+  covered: boolean;
+  /** Latest expiry among the proofs covering it; null when one never expires */
+  expiresAt: number | null;
+  /** Why no proof covers it */
+  reason?: string;
+}
+
+export interface SubDelegation {
+  delegation: Delegation<any>;
+  /** CAR archive, as `storacha delegation create` writes it */
+  archive: Uint8Array;
+  /** Base64 form accepted by `Proof.parse` and the delegation form */
+  base64: string;
+}
+
+export class SubDelegationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubDelegationError';
+  }
+}
+
+// Multicodec for a CAR file
+const CAR_CODE = 0x0202;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/**
+ * Whether the agent's proofs let it pass on each ability for `space`
+ */
+export function checkCoverage(
+  proofs: Delegation<any>[],
+  { abilities, space, agent }: { abilities: string[]; space: string; agent: string }
+): AbilityCoverage[] {
+  return abilities.map(ability => {
+    let covered = false;
+    let expiresAt: number | null = 0;
+    let reason = `no proof grants ${ability} on ${space}`;
+
+    for (const proof of proofs) {
+      const report = inspectProof(proof, { abilities: [ability], space, audience: agent });
+      if (!report.usable) {
+        // Keep the reason from a proof that names the ability, e.g. an expired one
+        if (report.root.capabilities.some(capability => abilityCovers(capability.can, ability))) {
+          reason = report.problems[0] ?? reason;
+        }
+        continue;
+      }
+      covered = true;
+      expiresAt = report.expiresAt === null || expiresAt === null ? null : Math.max(expiresAt, report.expiresAt);
+    }
+
+    return covered ? { ability, covered, expiresAt } : { ability, covered, expiresAt: null, reason };
+  });
+}
+
+/**
+ * Base64 of a CID embedding the CAR, the form the CLI prints with --base64
+ */
+export function formatDelegation(archive: Uint8Array): string {
+  return Link.create(CAR_CODE, identity.digest(archive)).toString(base64);
+}
+
+/**
+ * Delegate a subset of the agent's abilities on the current space to
+ * another DID. The request is checked against the agent's proofs first,
+ * so a delegation that could never be used is not created.
+ */
+export async function createSubDelegation(client: Client, request: SubDelegationRequest): Promise<SubDelegation> {
+  const space = client.currentSpace()?.did();
+  if (!space) {
+    throw new SubDelegationError('Select a space before delegating');
+  }
+
+  let audience;
+  try {
+    audience = DID.parse(request.audience.trim());
+  } catch {
+    throw new SubDelegationError(`"${request.audience}" is not a DID`);
+  }
+
+  if (request.abilities.length === 0) {
+    throw new SubDelegationError('Pick at least one ability');
+  }
+  if (request.expiration <= nowSeconds()) {
+    throw new SubDelegationError('The expiry must be in the future');
+  }
+
+  const coverage = checkCoverage(client.proofs(), {
+    abilities: request.abilities,
+    space,
+    agent: client.agent.did(),
+  });
+  const missing = coverage.filter(entry => !entry.covered);
+  if (missing.length > 0) {
+    throw new SubDelegationError(
+      `Your proofs do not cover ${missing.map(entry => entry.ability).join(', ')}: ${missing[0].reason}`
+    );
+  }
+
+  // A delegation outliving its proofs stops working when they expire
+  const limit = coverage.reduce<number | null>(
+    (earliest, entry) => entry.expiresAt === null ? earliest : Math.min(earliest ?? Infinity, entry.expiresAt),
+    null
+  );
+  if (limit !== null && request.expiration > limit) {
+    throw new SubDelegationError(`Your proofs expire on ${new Date(limit * 1000).toLocaleString()}; pick an earlier expiry`);
+  }
+
+  const delegation = await client.createDelegation(audience, request.abilities, {
+    expiration: request.expiration,
+  });
+  const archive = await delegation.archive();
+  if (archive.error) {
+    throw new SubDelegationError(`Could not export the delegation: ${archive.error.message}`);
+  }
+
+  return { delegation, archive: archive.ok, base64: formatDelegation(archive.ok) };
+}
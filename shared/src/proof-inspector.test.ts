@@ -0,0 +1,127 @@
+// src/proof-inspector.test.ts
+import { beforeAll, describe, expect, it } from 'vitest';
+import { delegate } from '@storacha/client/delegation';
+import { Signer } from '@storacha/client/principal/ed25519';
+import { abilityCovers, inspectProof, isReportCurrent } from './proof-inspector';
+
+const NOW = 1_700_000_000;
+const UPLOAD = ['space/blob/add', 'upload/add'];
+
+type Principal = Awaited<ReturnType<typeof Signer.generate>>;
+
+describe('inspectProof', () => {
+  let space: Principal;
+  let server: Principal;
+  let agent: Principal;
+
+  beforeAll(async () => {
+    [space, server, agent] = await Promise.all([Signer.generate(), Signer.generate(), Signer.generate()]);
+  });
+
+  // space -> server, then server -> agent, as the backend issues them
+  const chain = async ({
+    spaceCan = ['space/*', 'upload/*'],
+    agentCan = UPLOAD,
+    nb = undefined as Record<string, unknown> | undefined,
+    serverExpiration = NOW + 7200,
+    agentExpiration = NOW + 3600,
+    notBefore = undefined as number | undefined,
+  } = {}) => {
+    const proof = await delegate({
+      issuer: space,
+      audience: server,
+      capabilities: spaceCan.map(can => ({ with: space.did(), can })) as any,
+      expiration: serverExpiration,
+    });
+    return delegate({
+      issuer: server,
+      audience: agent,
+      capabilities: agentCan.map(can => ({ with: space.did(), can, ...(nb ? { nb } : {}) })) as any,
+      expiration: agentExpiration,
+      notBefore,
+      proofs: [proof],
+    });
+  };
+
+  it('reports a usable chain with its earliest expiry', async () => {
+    const delegation = await chain();
+    const proof = delegation.proofs[0] as typeof delegation;
+    const report = inspectProof(delegation, { abilities: UPLOAD, audience: agent.did(), now: NOW });
+
+    expect(report).toMatchObject({ usable: true, space: space.did(), spaces: [space.did()], expiresAt: NOW + 3600, problems: [] });
+    expect(report.abilities[0]).toEqual({
+      ability: 'space/blob/add',
+      granted: true,
+      chain: [delegation.cid.toString(), proof.cid.toString()],
+      caveats: [],
+    });
+    expect(report.root).toMatchObject({ issuer: server.did(), audience: agent.did(), expiration: NOW + 3600 });
+    expect(report.root.proofs[0]).toMatchObject({ issuer: space.did(), audience: server.did() });
+  });
+
+  it('names an ability the server itself was not granted', async () => {
+    const report = inspectProof(await chain({ spaceCan: ['upload/*'] }), { abilities: UPLOAD, now: NOW });
+
+    expect(report.usable).toBe(false);
+    expect(report.abilities.map(check => check.granted)).toEqual([false, true]);
+    expect(report.problems[0]).toMatch(new RegExp(`Missing space/blob/add on ${space.did()}: .* does not grant space/blob/add`));
+  });
+
+  it('flags a delegation addressed to another agent', async () => {
+    const report = inspectProof(await chain(), { abilities: UPLOAD, audience: server.did(), now: NOW });
+
+    expect(report.usable).toBe(false);
+    expect(report.problems).toEqual([expect.stringMatching(/not to this agent/)]);
+  });
+
+  it('rejects an expired link anywhere in the chain', async () => {
+    const report = inspectProof(await chain({ serverExpiration: NOW - 1 }), { abilities: UPLOAD, now: NOW });
+
+    expect(report.usable).toBe(false);
+    expect(report.abilities[0].reason).toMatch(/expired at 2023-11-14T22:13:19.000Z/);
+  });
+
+  it('rejects a delegation used before its not-before time', async () => {
+    const report = inspectProof(await chain({ notBefore: NOW + 60 }), { abilities: UPLOAD, now: NOW });
+
+    expect(report.problems[0]).toMatch(/is not valid before/);
+    expect(inspectProof(await chain({ notBefore: NOW + 60 }), { abilities: UPLOAD, now: NOW + 60 }).notBefore).toBe(NOW + 60);
+  });
+
+  it('warns about caveats that narrow a grant', async () => {
+    const report = inspectProof(await chain({ nb: { size: 1024 } }), { abilities: ['space/blob/add'], now: NOW });
+
+    expect(report.usable).toBe(true);
+    expect(report.abilities[0].caveats).toEqual([{ size: 1024 }]);
+    expect(report.warnings).toEqual(['space/blob/add is restricted by caveats: [{"size":1024}]']);
+    expect(report.root.capabilities[0]).toEqual({ can: 'space/blob/add', with: space.did(), nb: { size: 1024 } });
+  });
+
+  it('reports a proof without a space', async () => {
+    const delegation = await delegate({
+      issuer: server,
+      audience: agent,
+      capabilities: [{ with: 'ucan:*', can: 'upload/add' }] as any,
+      expiration: Infinity,
+    });
+    const report = inspectProof(delegation, { abilities: ['upload/add'], now: NOW });
+
+    expect(report).toMatchObject({ space: null, usable: false, problems: ['The proof does not name any space'] });
+    expect(report.root.expiration).toBeNull();
+  });
+
+  it('keeps a report current until the chain expires', async () => {
+    const report = inspectProof(await chain(), { abilities: UPLOAD, now: NOW });
+
+    expect(isReportCurrent(report, NOW + 3599)).toBe(true);
+    expect(isReportCurrent(report, NOW + 3600)).toBe(false);
+  });
+});
+
+describe('abilityCovers', () => {
+  it('matches exactly, by namespace wildcard or by "*"', () => {
+    expect(abilityCovers('space/blob/*', 'space/blob/add')).toBe(true);
+    expect(abilityCovers('space/*', 'upload/add')).toBe(false);
+    expect(abilityCovers('*', 'upload/add')).toBe(true);
+  });
+});
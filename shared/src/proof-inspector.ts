@@ -0,0 +1,271 @@
+// src/proof-inspector.ts
+import { isDelegation } from '@storacha/client/delegation';
+import type { Delegation } from '@storacha/client/types';
+
+// Any decoded delegation, whatever capabilities it carries
+type AnyDelegation = Delegation<any>;
+
+export interface CapabilityGrant {
+  can: string;
+  with: string;
+  /** Caveats; when present they narrow what the grant allows */
+  nb?: Record<string, unknown>;
+}
+
+/**
+ * One delegation in the chain. Times are Unix seconds, like `RenewalState`.
+ */
+export interface DelegationSummary {
+  cid: string;
+  issuer: string;
+  audience: string;
+  capabilities: CapabilityGrant[];
+  /** Null when the delegation never expires */
+  expiration: number | null;
+  notBefore: number | null;
+  proofs: DelegationSummary[];
+  /** Proofs referenced only by CID, which cannot be followed here */
+  missingProofs: string[];
+}
+
+export interface AbilityCheck {
+  ability: string;
+  granted: boolean;
+  /** CIDs from the root delegation down to the one the resource issued */
+  chain: string[];
+  /** Caveats on the capabilities along the chain that narrow the grant */
+  caveats: Record<string, unknown>[];
+  /** Why the ability is not granted */
+  reason?: string;
+}
+
+export interface ProofReport {
+  root: DelegationSummary;
+  /** Resources (spaces) on which every required ability is granted */
+  spaces: string[];
+  /** The resource the abilities were checked against */
+  space: string | null;
+  abilities: AbilityCheck[];
+  /** Earliest expiry along the granting chains; null when nothing expires */
+  expiresAt: number | null;
+  /** Latest not-before along the granting chains */
+  notBefore: number | null;
+  /** Reasons the proof cannot be used, e.g. a missing ability or wrong audience */
+  problems: string[];
+  /** Things that may still make an invocation fail, such as caveats */
+  warnings: string[];
+  /** No problems: the proof grants every ability on `space` right now */
+  usable: boolean;
+}
+
+export interface InspectOptions {
+  /** Abilities the proof must grant, e.g. ['space/blob/add', 'upload/add'] */
+  abilities: string[];
+  /** Resource to check; defaults to the first one that grants everything */
+  space?: string;
+  /** Agent DID the root delegation must be addressed to */
+  audience?: string;
+  /** Unix seconds; defaults to now */
+  now?: number;
+}
+
+type Proven =
+  | { ok: true; chain: AnyDelegation[]; caveats: Record<string, unknown>[] }
+  | { ok: false; reason: string };
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const formatTime = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+/**
+ * Whether a granted ability covers the required one: an exact match, `*`,
+ * or a namespace wildcard such as `space/*` or `space/blob/*`
+ */
+export function abilityCovers(granted: string, required: string): boolean {
+  return granted === '*' ||
+    granted === required ||
+    (granted.endsWith('/*') && required.startsWith(granted.slice(0, -1)));
+}
+
+// `ucan:*` delegates every resource the issuer holds proofs for
+const resourceCovers = (granted: string, resource: string) =>
+  granted === resource || granted === 'ucan:*';
+
+const hasCaveats = (nb: unknown): nb is Record<string, unknown> =>
+  !!nb && typeof nb === 'object' && Object.keys(nb).length > 0;
+
+const expirationOf = (delegation: AnyDelegation) =>
+  Number.isFinite(delegation.expiration) ? delegation.expiration : null;
+
+/**
+ * Decode a delegation and its embedded proofs into plain values
+ */
+export function summarizeDelegation(delegation: AnyDelegation): DelegationSummary {
+  const proofs: DelegationSummary[] = [];
+  const missingProofs: string[] = [];
+
+  for (const proof of delegation.proofs) {
+    if (isDelegation(proof)) proofs.push(summarizeDelegation(proof));
+    else missingProofs.push(proof.toString());
+  }
+
+  return {
+    cid: delegation.cid.toString(),
+    issuer: delegation.issuer.did(),
+    audience: delegation.audience.did(),
+    capabilities: delegation.capabilities.map((capability: any) => ({
+      can: capability.can,
+      with: capability.with,
+      ...(hasCaveats(capability.nb) ? { nb: capability.nb } : {}),
+    })),
+    expiration: expirationOf(delegation),
+    notBefore: delegation.notBefore ?? null,
+    proofs,
+    missingProofs,
+  };
+}
+
+/**
+ * Find a chain from `delegation` down to a delegation issued by `resource`
+ * itself, each link granting `ability` on it and valid at `now`
+ */
+function prove(delegation: AnyDelegation, ability: string, resource: string, now: number): Proven {
+  const cid = delegation.cid.toString();
+
+  if (Number.isFinite(delegation.expiration) && delegation.expiration <= now) {
+    return { ok: false, reason: `delegation ${cid} expired at ${formatTime(delegation.expiration)}` };
+  }
+  if (delegation.notBefore !== undefined && delegation.notBefore > now) {
+    return { ok: false, reason: `delegation ${cid} is not valid before ${formatTime(delegation.notBefore)}` };
+  }
+
+  const grants = delegation.capabilities.filter((capability: any) =>
+    abilityCovers(capability.can, ability) && resourceCovers(capability.with, resource)
+  );
+  if (grants.length === 0) {
+    return { ok: false, reason: `delegation ${cid} does not grant ${ability} on ${resource}` };
+  }
+
+  const caveats = grants.map((grant: any) => grant.nb).filter(hasCaveats);
+  const issuer = delegation.issuer.did();
+
+  // The resource delegating its own abilities needs no further proof
+  if (issuer === resource) {
+    return { ok: true, chain: [delegation], caveats };
+  }
+
+  let reason = `${issuer} has no proof of ${ability} on ${resource}`;
+  for (const proof of delegation.proofs) {
+    if (!isDelegation(proof)) {
+      reason = `proof ${proof} is referenced by CID but not included`;
+      continue;
+    }
+    if (proof.audience.did() !== issuer) continue;
+
+    const result = prove(proof, ability, resource, now);
+    if (result.ok) {
+      return { ok: true, chain: [delegation, ...result.chain], caveats: [...caveats, ...result.caveats] };
+    }
+    reason = result.reason;
+  }
+  return { ok: false, reason };
+}
+
+// Every concrete resource named anywhere in the chain
+const collectResources = (delegation: AnyDelegation, found = new Set<string>()) => {
+  for (const capability of delegation.capabilities as any[]) {
+    if (typeof capability.with === 'string' && capability.with.startsWith('did:')) {
+      found.add(capability.with);
+    }
+  }
+  for (const proof of delegation.proofs) {
+    if (isDelegation(proof)) collectResources(proof, found);
+  }
+  return found;
+};
+
+/**
+ * Walk a delegation's proof chain and report whether it lets the audience
+ * invoke `abilities` on a space: which abilities are granted and through
+ * which delegations, on which resources, and for how long. Signatures are
+ * not verified; the service does that on every invocation.
+ */
+export function inspectProof(delegation: AnyDelegation, options: InspectOptions): ProofReport {
+  const now = options.now ?? nowSeconds();
+  const root = summarizeDelegation(delegation);
+  const problems: string[] = [];
+  const warnings: string[] = [];
+
+  const check = (resource: string) => options.abilities.map(ability => ({
+    ability,
+    result: prove(delegation, ability, resource, now),
+  }));
+
+  const resources = [...collectResources(delegation)];
+  const spaces = resources.filter(resource => check(resource).every(({ result }) => result.ok));
+  // Without a usable space, check the first one named to report why
+  const space = options.space ?? spaces[0] ?? resources[0] ?? null;
+
+  if (options.audience && root.audience !== options.audience) {
+    problems.push(`Delegation is addressed to ${root.audience}, not to this agent (${options.audience})`);
+  }
+
+  let expiresAt: number | null = null;
+  let notBefore: number | null = null;
+  let abilities: AbilityCheck[];
+
+  if (space) {
+    abilities = check(space).map(({ ability, result }) => {
+      if (!result.ok) {
+        problems.push(`Missing ${ability} on ${space}: ${result.reason}`);
+        return { ability, granted: false, chain: [], caveats: [], reason: result.reason };
+      }
+
+      for (const link of result.chain) {
+        const expiration = expirationOf(link);
+        if (expiration !== null) expiresAt = expiresAt === null ? expiration : Math.min(expiresAt, expiration);
+        if (link.notBefore !== undefined) notBefore = Math.max(notBefore ?? 0, link.notBefore);
+      }
+      if (result.caveats.length > 0) {
+        warnings.push(`${ability} is restricted by caveats: ${JSON.stringify(result.caveats)}`);
+      }
+      return {
+        ability,
+        granted: true,
+        chain: result.chain.map(link => link.cid.toString()),
+        caveats: result.caveats,
+      };
+    });
+  } else {
+    abilities = options.abilities.map(ability => ({
+      ability,
+      granted: false,
+      chain: [],
+      caveats: [],
+      reason: 'no space is named in the proof',
+    }));
+    problems.push('The proof does not name any space');
+  }
+
+  return {
+    root,
+    spaces,
+    space,
+    abilities,
+    expiresAt,
+    notBefore,
+    problems,
+    warnings,
+    usable: problems.length === 0,
+  };
+}
+
+/**
+ * Whether a report that was usable when made still is at `now`, given the
+ * expiry and not-before it recorded
+ */
+export function isReportCurrent(report: ProofReport, now = nowSeconds()): boolean {
+  return report.usable &&
+    (report.expiresAt === null || report.expiresAt > now) &&
+    (report.notBefore === null || report.notBefore <= now);
+}
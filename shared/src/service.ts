@@ -0,0 +1,42 @@
+// src/service.ts
+import {
+  accessServiceConnection,
+  uploadServiceConnection,
+  filecoinServiceConnection,
+  gatewayServiceConnection,
+} from '@storacha/client/service';
+import * as DID from '@ipld/dag-ucan/did';
+
+export const DEFAULT_SERVICE_DID = 'did:web:localhost';
+
+/** The service settings of an app's configuration */
+export interface ServiceConfig {
+  /** Storacha-compatible service URL; '' means the public service */
+  serviceUrl?: string;
+  /** DID of the service at `serviceUrl` */
+  serviceDid?: string;
+}
+
+/**
+ * Options for `create()` pointing the client at the configured Storacha
+ * service (`serviceUrl`), such as the local mock. Empty when none is set,
+ * so the client uses up.storacha.network.
+ */
+export function serviceOptions({ serviceUrl, serviceDid }: ServiceConfig) {
+  if (!serviceUrl) {
+    return {};
+  }
+
+  const id = DID.parse(serviceDid || DEFAULT_SERVICE_DID);
+  const url = new URL(serviceUrl);
+
+  return {
+    serviceConf: {
+      access: accessServiceConnection({ id, url }),
+      upload: uploadServiceConnection({ id, url }),
+      filecoin: filecoinServiceConnection({ id, url }),
+      gateway: gatewayServiceConnection({ id, url }),
+    },
+    receiptsEndpoint: new URL('/receipt/', url),
+  };
+}
@@ -0,0 +1,201 @@
+// src/session-sync.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSessionSync, type SessionSync } from './session-sync';
+
+type Event = { type: 'login'; did: string } | { type: 'logout' };
+
+const CHANNEL = 'test-session';
+
+// Tabs opened by a test, closed after it
+let tabs: SessionSync<Event>[] = [];
+const openTab = () => {
+  const tab = createSessionSync<Event>(CHANNEL);
+  tabs.push(tab);
+  return tab;
+};
+
+afterEach(() => {
+  tabs.forEach(tab => tab.close());
+  tabs = [];
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+// A single-holder lock manager in the shape of navigator.locks
+const fakeLocks = () => {
+  const queue: { grant: () => void }[] = [];
+  let held = false;
+
+  const next = () => {
+    const waiter = queue.shift();
+    if (waiter) waiter.grant();
+  };
+
+  return {
+    request(_name: string, options: { signal?: AbortSignal }, callback: () => Promise<void>) {
+      return new Promise<void>((resolve, reject) => {
+        const waiter = {
+          grant: () => {
+            held = true;
+            callback().finally(() => {
+              held = false;
+              resolve();
+              next();
+            });
+          },
+        };
+        options.signal?.addEventListener('abort', () => {
+          const index = queue.indexOf(waiter);
+          if (index >= 0) {
+            queue.splice(index, 1);
+            reject(new DOMException('Aborted', 'AbortError'));
+          }
+        });
+        if (held) queue.push(waiter);
+        else waiter.grant();
+      });
+    },
+  };
+};
+
+// A window and localStorage shared by every tab, for the fallbacks
+const fakeBrowser = () => {
+  const items = new Map<string, string>();
+  const window = new EventTarget();
+  vi.stubGlobal('window', window);
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  });
+  return window;
+};
+
+describe('createSessionSync', () => {
+  it('delivers events to the other tabs, not back to the sender', async () => {
+    const [first, second] = [openTab(), openTab()];
+    const received = { first: vi.fn(), second: vi.fn() };
+    first.subscribe(received.first);
+    second.subscribe(received.second);
+
+    first.publish({ type: 'login', did: 'did:key:z6MkAgent' });
+    await vi.waitFor(() => expect(received.second).toHaveBeenCalledWith({ type: 'login', did: 'did:key:z6MkAgent' }));
+    expect(received.first).not.toHaveBeenCalled();
+  });
+
+  it('stops delivering once unsubscribed', async () => {
+    const [first, second, third] = [openTab(), openTab(), openTab()];
+    const listener = vi.fn();
+    const unsubscribe = second.subscribe(listener);
+    const lastTab = vi.fn();
+    third.subscribe(lastTab);
+
+    unsubscribe();
+    first.publish({ type: 'logout' });
+    await vi.waitFor(() => expect(lastTab).toHaveBeenCalledOnce());
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('falls back to storage events without a BroadcastChannel', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const window = fakeBrowser();
+    const setItem = vi.spyOn(localStorage, 'setItem');
+    const tab = openTab();
+    const listener = vi.fn();
+    tab.subscribe(listener);
+
+    tab.publish({ type: 'logout' });
+    const [key, value] = setItem.mock.calls.find(([key]) => key === `${CHANNEL}:message`)!;
+    expect(localStorage.getItem(key)).toBeNull();
+
+    // Another tab's write, as the browser reports it
+    const message = JSON.parse(value);
+    const storage = (newValue: string | null) => Object.assign(new Event('storage'), { key, newValue });
+    window.dispatchEvent(storage(JSON.stringify({ ...message, from: 'other-tab' })));
+    window.dispatchEvent(storage(null));
+    window.dispatchEvent(storage('not json'));
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener).toHaveBeenCalledWith({ type: 'logout' });
+  });
+
+  describe('leader election with Web Locks', () => {
+    beforeEach(() => {
+      vi.stubGlobal('navigator', { locks: fakeLocks() });
+    });
+
+    it('makes the first tab leader and hands over when it closes', async () => {
+      const first = openTab();
+      const second = openTab();
+      const changes = vi.fn();
+      second.onLeaderChange(changes);
+
+      await vi.waitFor(() => expect(first.isLeader()).toBe(true));
+      expect(second.isLeader()).toBe(false);
+
+      first.close();
+      await vi.waitFor(() => expect(second.isLeader()).toBe(true));
+      expect(changes).toHaveBeenCalledWith(true);
+    });
+
+    it('leaves the queue when a waiting tab closes', async () => {
+      const first = openTab();
+      const second = openTab();
+      const third = openTab();
+      await vi.waitFor(() => expect(first.isLeader()).toBe(true));
+
+      second.close();
+      first.close();
+      await vi.waitFor(() => expect(third.isLeader()).toBe(true));
+      expect(second.isLeader()).toBe(false);
+    });
+  });
+
+  describe('leader election with a localStorage lease', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.stubGlobal('BroadcastChannel', undefined);
+      vi.stubGlobal('navigator', {});
+      fakeBrowser();
+    });
+
+    it('holds the lease while the leader keeps beating', () => {
+      const first = openTab();
+      const second = openTab();
+
+      vi.advanceTimersByTime(60_000);
+      expect(first.isLeader()).toBe(true);
+      expect(second.isLeader()).toBe(false);
+    });
+
+    it('hands over when the leader resigns', () => {
+      const first = openTab();
+      const second = openTab();
+
+      first.close();
+      expect(first.isLeader()).toBe(false);
+      vi.advanceTimersByTime(2_000);
+      expect(second.isLeader()).toBe(true);
+    });
+
+    it('takes over once a crashed leader\'s lease expires', () => {
+      const first = openTab();
+      const second = openTab();
+      // The tab is gone without resigning: its heartbeat stops, its lease stays
+      vi.spyOn(localStorage, 'removeItem').mockImplementation(() => {});
+      first.close();
+
+      vi.advanceTimersByTime(4_000);
+      expect(second.isLeader()).toBe(false);
+      vi.advanceTimersByTime(2_000);
+      expect(second.isLeader()).toBe(true);
+    });
+  });
+
+  it('leads alone where no other tab can exist', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    vi.stubGlobal('navigator', {});
+    const tab = openTab();
+
+    expect(tab.isLeader()).toBe(true);
+  });
+});
@@ -0,0 +1,192 @@
+// src/session-sync.ts
+
+/**
+ * Every message carries a `type`; each app defines its own union of
+ * events (login, logout, space change, ...).
+ */
+export interface SyncMessage {
+  type: string;
+}
+
+export interface SessionSync<E extends SyncMessage> {
+  /** Random id of this tab */
+  readonly tabId: string;
+  /** Deliver `event` to every other open tab */
+  publish(event: E): void;
+  /** Listen for events published by other tabs */
+  subscribe(listener: (event: E) => void): () => void;
+  /** Whether this tab currently runs background jobs */
+  isLeader(): boolean;
+  /** Called with `true` when this tab becomes leader, `false` when it stops */
+  onLeaderChange(listener: (leader: boolean) => void): () => void;
+  close(): void;
+}
+
+interface Envelope<E> {
+  from: string;
+  at: number;
+  event: E;
+}
+
+// Fallback lease, for browsers without the Web Locks API
+const LEASE_TTL_MS = 5_000;
+const HEARTBEAT_MS = 2_000;
+
+const hasWindow = () => typeof window !== 'undefined';
+
+const randomId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Messages go over a BroadcastChannel when the browser has one, otherwise
+ * through `storage` events on a scratch localStorage key
+ */
+function createTransport<E>(channel: string, onMessage: (message: Envelope<E>) => void) {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const bc = new BroadcastChannel(channel);
+    bc.onmessage = (e: MessageEvent<Envelope<E>>) => onMessage(e.data);
+    return {
+      send: (message: Envelope<E>) => bc.postMessage(message),
+      close: () => bc.close(),
+    };
+  }
+
+  if (hasWindow() && typeof localStorage !== 'undefined') {
+    const key = `${channel}:message`;
+    const listener = (e: StorageEvent) => {
+      // The key is removed right after each write; ignore that second event
+      if (e.key !== key || !e.newValue) return;
+      try {
+        onMessage(JSON.parse(e.newValue));
+      } catch {
+        // Not one of ours
+      }
+    };
+    window.addEventListener('storage', listener);
+    return {
+      send: (message: Envelope<E>) => {
+        localStorage.setItem(key, JSON.stringify(message));
+        localStorage.removeItem(key);
+      },
+      close: () => window.removeEventListener('storage', listener),
+    };
+  }
+
+  // Server rendering or tests: a single context, nothing to sync
+  return { send: () => {}, close: () => {} };
+}
+
+/**
+ * Elect one leader among the open tabs. Uses a Web Lock held until the
+ * tab closes, or a heartbeat lease in localStorage without one. Returns a
+ * function that steps down.
+ */
+function electLeader(channel: string, tabId: string, setLeader: (leader: boolean) => void): () => void {
+  const lockName = `${channel}:leader`;
+
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    let release: () => void = () => {};
+    const held = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const abort = new AbortController();
+
+    navigator.locks
+      .request(lockName, { signal: abort.signal }, async () => {
+        setLeader(true);
+        await held;
+        setLeader(false);
+      })
+      .catch(() => {
+        // Aborted before the lock was granted
+      });
+
+    return () => {
+      abort.abort();
+      release();
+    };
+  }
+
+  if (!hasWindow() || typeof localStorage === 'undefined') {
+    setLeader(true);
+    return () => setLeader(false);
+  }
+
+  const readLease = (): { id: string; expires: number } | null => {
+    try {
+      return JSON.parse(localStorage.getItem(lockName) ?? 'null');
+    } catch {
+      return null;
+    }
+  };
+
+  const heartbeat = () => {
+    const lease = readLease();
+    if (!lease || lease.expires < Date.now() || lease.id === tabId) {
+      localStorage.setItem(lockName, JSON.stringify({ id: tabId, expires: Date.now() + LEASE_TTL_MS }));
+    }
+    // Read back: when two tabs write at once, the last write wins
+    setLeader(readLease()?.id === tabId);
+  };
+
+  const resign = () => {
+    if (readLease()?.id === tabId) localStorage.removeItem(lockName);
+  };
+
+  heartbeat();
+  const timer = setInterval(heartbeat, HEARTBEAT_MS);
+  window.addEventListener('pagehide', resign);
+
+  return () => {
+    clearInterval(timer);
+    window.removeEventListener('pagehide', resign);
+    resign();
+    setLeader(false);
+  };
+}
+
+/**
+ * Share session changes between the open tabs of one app and pick a
+ * leader tab for background work such as token refresh
+ */
+export function createSessionSync<E extends SyncMessage>(channel: string): SessionSync<E> {
+  const tabId = randomId();
+  const listeners = new Set<(event: E) => void>();
+  const leaderListeners = new Set<(leader: boolean) => void>();
+  let leader = false;
+
+  const transport = createTransport<E>(channel, message => {
+    if (!message || message.from === tabId || !message.event?.type) return;
+    listeners.forEach(listener => listener(message.event));
+  });
+
+  const stepDown = electLeader(channel, tabId, next => {
+    if (next === leader) return;
+    leader = next;
+    leaderListeners.forEach(listener => listener(leader));
+  });
+
+  return {
+    tabId,
+    publish(event) {
+      transport.send({ from: tabId, at: Date.now(), event });
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    isLeader: () => leader,
+    onLeaderChange(listener) {
+      leaderListeners.add(listener);
+      return () => leaderListeners.delete(listener);
+    },
+    close() {
+      stepDown();
+      transport.close();
+      listeners.clear();
+      leaderListeners.clear();
+    },
+  };
+}
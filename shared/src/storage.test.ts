@@ -0,0 +1,163 @@
+// src/storage.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createMemoryBackend,
+  createPassphraseCipher,
+  createStore,
+  StorageError,
+  type RecordSchema,
+} from './storage';
+
+interface Session {
+  did: string;
+  spaces: string[];
+}
+
+// v1 stored { did, space }; v2 holds a list of spaces
+const SESSION: RecordSchema<Session> = {
+  key: 'session',
+  version: 2,
+  migrations: {
+    2: ({ space, ...rest }) => ({ ...rest, spaces: space ? [space] : [] }),
+  },
+  validate: (value): value is Session =>
+    typeof (value as Session)?.did === 'string' && Array.isArray((value as Session).spaces),
+};
+
+const SECRET: RecordSchema<{ proof: string }> = { key: 'secret', version: 1, secret: true };
+
+const envelope = async (backend: ReturnType<typeof createMemoryBackend>, key: string) =>
+  JSON.parse((await backend.get(key))!);
+
+describe('createStore', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes versioned envelopes and reads them back', async () => {
+    const backend = createMemoryBackend();
+    const store = createStore({ backend });
+    const session = { did: 'did:key:z6Mk', spaces: ['did:key:space'] };
+
+    await store.write(SESSION, session);
+
+    expect(await envelope(backend, 'session')).toEqual({ v: 2, data: session });
+    expect(await store.read(SESSION)).toEqual(session);
+  });
+
+  it('reads nothing for a missing record', async () => {
+    expect(await createStore({ backend: createMemoryBackend() }).read(SESSION)).toBeNull();
+  });
+
+  it('migrates unversioned data and rewrites it at the current version', async () => {
+    const backend = createMemoryBackend({ session: JSON.stringify({ did: 'did:key:z6Mk', space: 'did:key:space' }) });
+    const store = createStore({ backend });
+
+    expect(await store.read(SESSION)).toEqual({ did: 'did:key:z6Mk', spaces: ['did:key:space'] });
+    expect(await envelope(backend, 'session')).toMatchObject({ v: 2 });
+  });
+
+  it('runs only the migrations after the stored version', async () => {
+    const step = vi.fn((data: any) => data);
+    const schema: RecordSchema<unknown> = { key: 'r', version: 3, migrations: { 1: step, 2: step, 3: step } };
+    const backend = createMemoryBackend({ r: JSON.stringify({ v: 2, data: {} }) });
+
+    await createStore({ backend }).read(schema);
+    expect(step).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses records written by a newer version', async () => {
+    const backend = createMemoryBackend({ session: JSON.stringify({ v: 3, data: {} }) });
+    await expect(createStore({ backend }).read(SESSION)).rejects.toBeInstanceOf(StorageError);
+    expect(await backend.get('session')).not.toBeNull();
+  });
+
+  it('discards records that fail validation or do not parse', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const backend = createMemoryBackend({
+      session: JSON.stringify({ v: 2, data: { did: 42 } }),
+      other: '{not json',
+    });
+    const store = createStore({ backend });
+
+    expect(await store.read(SESSION)).toBeNull();
+    expect(await store.read({ ...SESSION, key: 'other' })).toBeNull();
+    expect(await backend.keys()).toEqual([]);
+  });
+
+  it('moves records from the legacy backend', async () => {
+    const backend = createMemoryBackend();
+    const legacy = createMemoryBackend({ session: JSON.stringify({ did: 'did:key:z6Mk' }) });
+    const store = createStore({ backend, legacy });
+
+    expect(await store.read(SESSION)).toEqual({ did: 'did:key:z6Mk', spaces: [] });
+    expect(await legacy.get('session')).toBeNull();
+    expect(await envelope(backend, 'session')).toMatchObject({ v: 2 });
+  });
+
+  it('removes records from both backends', async () => {
+    const backend = createMemoryBackend({ session: '{}' });
+    const legacy = createMemoryBackend({ session: '{}' });
+
+    await createStore({ backend, legacy }).remove(SESSION);
+    expect(await backend.get('session')).toBeNull();
+    expect(await legacy.get('session')).toBeNull();
+  });
+
+  describe('with a passphrase cipher', () => {
+    it('seals secret records and opens them again', async () => {
+      const backend = createMemoryBackend();
+      const store = createStore({ backend, cipher: createPassphraseCipher('correct horse') });
+
+      await store.write(SECRET, { proof: 'mAYIEA' });
+
+      const stored = await envelope(backend, 'secret');
+      expect(stored.data).toBeUndefined();
+      expect(stored.sealed).toMatchObject({ alg: 'AES-GCM' });
+      expect(JSON.stringify(stored)).not.toContain('mAYIEA');
+
+      // A new cipher has its own salt but derives the record's key from the stored one
+      const reopened = createStore({ backend, cipher: createPassphraseCipher('correct horse') });
+      expect(await reopened.read(SECRET)).toEqual({ proof: 'mAYIEA' });
+    });
+
+    it('leaves records that are not secret in the clear', async () => {
+      const backend = createMemoryBackend();
+      const store = createStore({ backend, cipher: createPassphraseCipher('correct horse') });
+
+      await store.write(SESSION, { did: 'did:key:z6Mk', spaces: [] });
+      expect(await envelope(backend, 'session')).toMatchObject({ v: 2, data: { did: 'did:key:z6Mk' } });
+    });
+
+    it('encrypts a secret record found in the clear', async () => {
+      const backend = createMemoryBackend({ secret: JSON.stringify({ v: 1, data: { proof: 'mAYIEA' } }) });
+      const store = createStore({ backend, cipher: createPassphraseCipher('correct horse') });
+
+      expect(await store.read(SECRET)).toEqual({ proof: 'mAYIEA' });
+      expect(await envelope(backend, 'secret')).toHaveProperty('sealed');
+    });
+
+    it('fails without the right passphrase, keeping the record', async () => {
+      const backend = createMemoryBackend();
+      await createStore({ backend, cipher: createPassphraseCipher('correct horse') }).write(SECRET, { proof: 'x' });
+
+      await expect(createStore({ backend, cipher: createPassphraseCipher('battery staple') }).read(SECRET))
+        .rejects.toThrow(/wrong passphrase/);
+      await expect(createStore({ backend }).read(SECRET)).rejects.toThrow(/unlock the store/);
+      expect(await backend.get('secret')).not.toBeNull();
+    });
+
+    it('detects a tampered record', async () => {
+      const backend = createMemoryBackend();
+      const cipher = createPassphraseCipher('correct horse');
+      await createStore({ backend, cipher }).write(SECRET, { proof: 'x' });
+
+      const stored = await envelope(backend, 'secret');
+      const ct = atob(stored.sealed.ct);
+      stored.sealed.ct = btoa(String.fromCharCode(ct.charCodeAt(0) ^ 1) + ct.slice(1));
+      await backend.set('secret', JSON.stringify(stored));
+
+      await expect(createStore({ backend, cipher }).read(SECRET)).rejects.toBeInstanceOf(StorageError);
+    });
+  });
+});
@@ -0,0 +1,379 @@
+// src/storage.ts
+
+/**
+ * A string key/value store. Every backend is async so IndexedDB and files
+ * fit the same interface as localStorage.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Encrypts record payloads. `seal` output is plain JSON so it can be
+ * stored by any backend.
+ */
+export interface Cipher {
+  seal(plaintext: string): Promise<SealedData>;
+  open(sealed: SealedData): Promise<string>;
+}
+
+export interface SealedData {
+  alg: 'AES-GCM';
+  /** PBKDF2 salt, for passphrase-derived keys */
+  salt?: string;
+  iv: string;
+  ct: string;
+}
+
+/**
+ * A versioned record. `migrations[n]` upgrades data written at version
+ * n - 1 to version n; version 0 is data written before records had
+ * versions (plain JSON under the same key).
+ */
+export interface RecordSchema<T> {
+  key: string;
+  version: number;
+  migrations?: Record<number, (data: any) => any>;
+  /** Encrypt this record when the store has a cipher */
+  secret?: boolean;
+  /** Records failing this check (after migration) are discarded */
+  validate?: (value: unknown) => value is T;
+}
+
+interface Envelope {
+  v: number;
+  data?: unknown;
+  sealed?: SealedData;
+}
+
+export class StorageError extends Error {
+  constructor(message: string, public key?: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+const hasWindow = () => typeof window !== 'undefined';
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+export function createLocalStorageBackend(prefix = ''): StorageBackend {
+  return {
+    name: 'localStorage',
+    async get(key) {
+      return localStorage.getItem(prefix + key);
+    },
+    async set(key, value) {
+      localStorage.setItem(prefix + key, value);
+    },
+    async remove(key) {
+      localStorage.removeItem(prefix + key);
+    },
+    async keys() {
+      return Object.keys(localStorage)
+        .filter(key => key.startsWith(prefix))
+        .map(key => key.slice(prefix.length));
+    },
+  };
+}
+
+/**
+ * In-memory backend, for tests and for environments without storage
+ */
+export function createMemoryBackend(initial: Record<string, string> = {}): StorageBackend {
+  const entries = new Map(Object.entries(initial));
+  return {
+    name: 'memory',
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    async set(key, value) {
+      entries.set(key, value);
+    },
+    async remove(key) {
+      entries.delete(key);
+    },
+    async keys() {
+      return [...entries.keys()];
+    },
+  };
+}
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDatabase = (dbName: string, storeName: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const open = indexedDB.open(dbName, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(storeName);
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+
+/**
+ * IndexedDB backend. The database is opened on first use.
+ */
+export function createIndexedDBBackend(dbName = 'storacha', storeName = 'records'): StorageBackend {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const objectStore = async (mode: IDBTransactionMode) => {
+    db ??= openDatabase(dbName, storeName);
+    return (await db).transaction(storeName, mode).objectStore(storeName);
+  };
+
+  return {
+    name: 'indexedDB',
+    async get(key) {
+      const value = await request((await objectStore('readonly')).get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    async set(key, value) {
+      await request((await objectStore('readwrite')).put(value, key));
+    },
+    async remove(key) {
+      await request((await objectStore('readwrite')).delete(key));
+    },
+    async keys() {
+      return (await request((await objectStore('readonly')).getAllKeys())).map(String);
+    },
+  };
+}
+
+/**
+ * The best backend available: IndexedDB in browsers that have it, then
+ * localStorage, then memory (SSR, tests)
+ */
+export function createDefaultBackend(): StorageBackend {
+  if (hasWindow() && typeof indexedDB !== 'undefined') return createIndexedDBBackend();
+  if (hasWindow() && typeof localStorage !== 'undefined') return createLocalStorageBackend();
+  return createMemoryBackend();
+}
+
+// ---------------------------------------------------------------------------
+// Encryption
+// ---------------------------------------------------------------------------
+
+const PBKDF2_ITERATIONS = 310_000;
+
+async function encrypt(key: CryptoKey, plaintext: string, salt?: Uint8Array): Promise<SealedData> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return {
+    alg: 'AES-GCM',
+    ...(salt && { salt: toBase64(salt) }),
+    iv: toBase64(iv),
+    ct: toBase64(new Uint8Array(ct)),
+  };
+}
+
+async function decrypt(key: CryptoKey, sealed: SealedData): Promise<string> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(sealed.iv) },
+      key,
+      fromBase64(sealed.ct)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new StorageError('Could not decrypt stored data (wrong passphrase or corrupted record)');
+  }
+}
+
+/**
+ * AES-256-GCM with a key derived from `passphrase` (PBKDF2-SHA256). Each
+ * cipher instance uses one random salt; records written by other salts
+ * are still readable.
+ */
+export function createPassphraseCipher(passphrase: string): Cipher {
+  const keys = new Map<string, Promise<CryptoKey>>();
+
+  const derive = (salt: Uint8Array) => {
+    const id = toBase64(salt);
+    if (!keys.has(id)) {
+      keys.set(id, (async () => {
+        const material = await crypto.subtle.importKey(
+          'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']
+        );
+        return crypto.subtle.deriveKey(
+          { name: 'PBKDF2', salt: salt as BufferSource, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+          material,
+          { name: 'AES-GCM', length: 256 },
+          false,
+          ['encrypt', 'decrypt']
+        );
+      })());
+    }
+    return keys.get(id)!;
+  };
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+
+  return {
+    async seal(plaintext) {
+      return encrypt(await derive(salt), plaintext, salt);
+    },
+    async open(sealed) {
+      if (!sealed.salt) {
+        throw new StorageError('Record was not encrypted with a passphrase');
+      }
+      return decrypt(await derive(fromBase64(sealed.salt)), sealed);
+    },
+  };
+}
+
+/**
+ * AES-256-GCM with a random, non-extractable key kept in IndexedDB. Page
+ * scripts can use the key but never read it, and it never appears next
+ * to the records it protects.
+ */
+export function createDeviceCipher(dbName = 'storacha-keys'): Cipher {
+  let key: Promise<CryptoKey> | null = null;
+
+  const load = async () => {
+    const db = await openDatabase(dbName, 'keys');
+    const read = db.transaction('keys', 'readonly').objectStore('keys');
+    const existing = await request(read.get('device')) as CryptoKey | undefined;
+    if (existing) return existing;
+
+    const created = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await request(db.transaction('keys', 'readwrite').objectStore('keys').put(created, 'device'));
+    return created;
+  };
+
+  return {
+    async seal(plaintext) {
+      key ??= load();
+      return encrypt(await key, plaintext);
+    },
+    async open(sealed) {
+      key ??= load();
+      return decrypt(await key, sealed);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Versioned records
+// ---------------------------------------------------------------------------
+
+export interface StoreOptions {
+  backend?: StorageBackend;
+  /** Encrypts records whose schema is marked `secret` */
+  cipher?: Cipher;
+  /**
+   * Where records lived before this store (usually localStorage). A record
+   * missing from `backend` is read from here once, migrated, rewritten
+   * (encrypted if secret) and removed from the legacy backend.
+   */
+  legacy?: StorageBackend;
+}
+
+export interface RecordStore {
+  readonly backend: StorageBackend;
+  read<T>(schema: RecordSchema<T>): Promise<T | null>;
+  write<T>(schema: RecordSchema<T>, value: T): Promise<void>;
+  remove(schema: RecordSchema<unknown> | string): Promise<void>;
+}
+
+function migrate<T>(schema: RecordSchema<T>, from: number, data: unknown): T {
+  if (from > schema.version) {
+    throw new StorageError(`${schema.key} was written by a newer version (v${from} > v${schema.version})`, schema.key);
+  }
+
+  let value = data;
+  for (let version = from + 1; version <= schema.version; version++) {
+    const step = schema.migrations?.[version];
+    if (step) value = step(value);
+  }
+  return value as T;
+}
+
+export function createStore(options: StoreOptions = {}): RecordStore {
+  const backend = options.backend ?? createDefaultBackend();
+  const { cipher, legacy } = options;
+
+  const decode = async <T>(schema: RecordSchema<T>, raw: string) => {
+    const parsed = JSON.parse(raw);
+    const envelope: Envelope = parsed && typeof parsed === 'object' && typeof parsed.v === 'number'
+      ? parsed
+      : { v: 0, data: parsed };
+
+    let data = envelope.data;
+    if (envelope.sealed) {
+      if (!cipher) {
+        throw new StorageError(`${schema.key} is encrypted; unlock the store first`, schema.key);
+      }
+      data = JSON.parse(await cipher.open(envelope.sealed));
+    }
+
+    const value = migrate(schema, envelope.v, data);
+    if (schema.validate && !schema.validate(value)) {
+      throw new Error('record does not match its schema');
+    }
+    // Rewrite records that are outdated, or secret but stored in the clear
+    const stale = envelope.v !== schema.version || (!!schema.secret && !!cipher && !envelope.sealed);
+    return { value, stale };
+  };
+
+  const store: RecordStore = {
+    backend,
+
+    async read(schema) {
+      const raw = await backend.get(schema.key);
+      if (raw !== null) {
+        try {
+          const { value, stale } = await decode(schema, raw);
+          if (stale) await store.write(schema, value);
+          return value;
+        } catch (error) {
+          if (error instanceof StorageError) throw error;
+          // Unreadable record: drop it rather than fail every read
+          console.warn(`Discarding unreadable record ${schema.key}:`, error);
+          await backend.remove(schema.key);
+          return null;
+        }
+      }
+
+      const old = legacy && legacy !== backend ? await legacy.get(schema.key) : null;
+      if (old === null) return null;
+
+      try {
+        const { value } = await decode(schema, old);
+        await store.write(schema, value);
+        return value;
+      } catch (error) {
+        if (error instanceof StorageError) throw error;
+        return null;
+      } finally {
+        await legacy!.remove(schema.key);
+      }
+    },
+
+    async write(schema, value) {
+      const envelope: Envelope = schema.secret && cipher
+        ? { v: schema.version, sealed: await cipher.seal(JSON.stringify(value)) }
+        : { v: schema.version, data: value };
+      await backend.set(schema.key, JSON.stringify(envelope));
+    },
+
+    async remove(schema) {
+      const key = typeof schema === 'string' ? schema : schema.key;
+      await backend.remove(key);
+      if (legacy && legacy !== backend) await legacy.remove(key);
+    },
+  };
+
+  return store;
+}